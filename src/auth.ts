@@ -0,0 +1,335 @@
+#!/usr/bin/env node
+
+/**
+ * This module implements the `auth` command for managing the credentials stored in the config
+ * directory, so that authorization can be reset without deleting hashed files by hand.
+ *
+ * - `list` shows every server with stored credentials
+ * - `inspect` shows when the access token of a server expires and which scopes it was granted
+ * - `logout` deletes the stored credentials of a server
+ * - `revoke` revokes the tokens at the authorization server (RFC 7009) before deleting them
+ * - `profiles` shows the profiles of a server, which hold different identities on the same server
+ * - `use` selects the profile used when the proxy or client is started without `--profile`
+ *
+ * `inspect`, `logout` and `revoke` apply to the active profile, unless another is given with `--profile`.
+ * Pre-registered clients don't store their client information with the tokens, so `revoke` takes
+ * it with the same `--static-oauth-client-info` or `--client-id` and `--client-secret` flags as the proxy.
+ *
+ * @example
+ * ```sh
+ * deno run --allow-env --allow-read --allow-sys=homedir --allow-write="$HOME/.mcp-auth" --allow-net \
+ *   jsr:@mmizutani/mcp-remote-deno/auth revoke https://remote.mcp.server.example.com/sse
+ * ```
+ *
+ * @module
+ */
+
+/**
+ * Credential management for MCP Remote
+ *
+ * Run with: deno run --allow-env --allow-read --allow-sys=homedir --allow-write --allow-net src/auth.ts <list|inspect|logout|revoke|profiles|use> [server-url|hash] [profile]
+ */
+
+import type { OAuthClientInformation } from "@modelcontextprotocol/sdk/shared/auth.js";
+import {
+  CredentialManager,
+  resolveServerUrlHash,
+  type StoredServer,
+} from "./lib/credential-manager.ts";
+import { getCredentialStorage } from "./lib/mcp-auth-config.ts";
+import {
+  DEFAULT_PROFILE,
+  expandEnvVars,
+  log,
+  parseStaticClientInfo,
+} from "./lib/utils.ts";
+
+/**
+ * Subcommands of the auth command
+ */
+type AuthCommand =
+  | "list"
+  | "inspect"
+  | "logout"
+  | "revoke"
+  | "profiles"
+  | "use";
+
+/**
+ * Subcommands that apply to a single profile of a server
+ */
+const PROFILE_COMMANDS = ["inspect", "logout", "revoke"];
+
+/**
+ * Flags that give revoke the client the tokens were issued to
+ */
+const CLIENT_FLAGS = [
+  "--static-oauth-client-info",
+  "--client-id",
+  "--client-secret",
+];
+
+/**
+ * Runs an auth subcommand, printing its results to stdout
+ *
+ * @param command The subcommand to run
+ * @param serverUrlHash The hash of the server URL, required for all subcommands but list
+ * @param profile The profile to select for use, or the profile given with --profile for the others
+ * @param clientInformation The pre-registered client given to revoke
+ */
+async function runAuthCommand(
+  command: AuthCommand,
+  serverUrlHash: string | undefined,
+  profile: string | undefined,
+  clientInformation: OAuthClientInformation | undefined,
+) {
+  // Fail on a misconfigured credential storage before reading anything
+  await getCredentialStorage();
+  const manager = new CredentialManager();
+
+  // Without --profile, inspect, logout and revoke apply to the active profile
+  if (
+    PROFILE_COMMANDS.includes(command) && serverUrlHash &&
+    profile === undefined && !serverUrlHash.includes("@")
+  ) {
+    serverUrlHash = resolveServerUrlHash(
+      serverUrlHash,
+      await manager.getActiveProfile(serverUrlHash),
+    );
+  }
+
+  switch (command) {
+    case "list": {
+      const servers = await manager.list();
+      if (servers.length === 0) {
+        console.log("No stored credentials");
+      }
+      for (const server of servers) {
+        console.log(
+          `${server.serverUrlHash}  ${
+            server.serverUrl ?? "(unknown server URL)"
+          }  ${describeTokens(server)}`,
+        );
+      }
+      break;
+    }
+    case "profiles": {
+      const active = await manager.getActiveProfile(serverUrlHash!);
+      const profiles = (await manager.listProfiles(serverUrlHash!)).map((
+        server,
+      ) => server.profile ?? DEFAULT_PROFILE);
+      // The active profile may not have credentials yet
+      if (!profiles.includes(active)) {
+        profiles.push(active);
+      }
+      for (const name of profiles) {
+        console.log(`${name === active ? "*" : " "} ${name}`);
+      }
+      break;
+    }
+    case "use":
+      await manager.useProfile(serverUrlHash!, profile!);
+      console.log(`Using profile ${profile} for ${serverUrlHash}`);
+      break;
+    case "inspect": {
+      const server = await manager.inspect(serverUrlHash!);
+      console.log(`Server:        ${server.serverUrl ?? "(unknown)"}`);
+      console.log(`Profile:       ${server.profile ?? DEFAULT_PROFILE}`);
+      console.log(`Hash:          ${server.serverUrlHash}`);
+      console.log(
+        `Client ID:     ${server.clientInformation?.client_id ?? "(none)"}`,
+      );
+      console.log(`Access token:  ${describeTokens(server)}`);
+      if (server.tokens) {
+        console.log(
+          `Refresh token: ${server.tokens.refresh_token ? "yes" : "no"}`,
+        );
+        console.log(
+          `Scopes:        ${
+            server.tokens.scope ?? "(not reported by the server)"
+          }`,
+        );
+        if (server.tokens.issued_at !== undefined) {
+          console.log(
+            `Issued:        ${new Date(server.tokens.issued_at).toISOString()}`,
+          );
+        }
+      }
+      break;
+    }
+    case "logout":
+      await manager.logout(serverUrlHash!);
+      console.log(`Deleted the stored credentials of ${serverUrlHash}`);
+      break;
+    case "revoke":
+      await manager.revoke(serverUrlHash!, clientInformation);
+      console.log(
+        `Revoked and deleted the stored credentials of ${serverUrlHash}`,
+      );
+      break;
+  }
+}
+
+/**
+ * Describes the state of the stored access token
+ * @param server The stored credentials
+ * @returns A short description such as "expires 2025-01-01T00:00:00.000Z"
+ */
+function describeTokens(server: StoredServer): string {
+  if (!server.tokens) {
+    return "no tokens";
+  }
+  if (server.expiresAt === undefined) {
+    return "no expiry";
+  }
+  const expiresAt = new Date(server.expiresAt).toISOString();
+  return server.expiresAt > Date.now()
+    ? `expires ${expiresAt}`
+    : `expired ${expiresAt}`;
+}
+
+/**
+ * Parses the command line arguments of the auth command
+ * @param args Command line arguments
+ * @param usage Usage message to show on error
+ * @returns The subcommand, the hash of the server it applies to, the profile to select and the client to revoke with
+ */
+async function parseAuthArgs(args: string[], usage: string) {
+  if (args.length === 0 || args[0] === "--help" || args[0] === "-h") {
+    log(usage);
+    Deno.exit(args.length === 0 ? 1 : 0);
+  }
+
+  // Process the profile inspect, logout and revoke apply to
+  let profileFlag: string | undefined;
+  const profileIndex = args.indexOf("--profile");
+  if (profileIndex !== -1) {
+    profileFlag = args[profileIndex + 1] ?? "";
+    args = args.filter((_, i) => i !== profileIndex && i !== profileIndex + 1);
+  }
+
+  // Process the pre-registered client revoke authenticates as
+  const clientFlags: Record<string, string> = {};
+  for (const flag of CLIENT_FLAGS) {
+    const index = args.indexOf(flag);
+    if (index !== -1) {
+      clientFlags[flag] = args[index + 1] ?? "";
+      args = args.filter((_, i) => i !== index && i !== index + 1);
+    }
+  }
+  let clientInformation: OAuthClientInformation | undefined;
+  try {
+    clientInformation = await parseClientFlags(clientFlags);
+  } catch (error) {
+    log(`Error: ${(error as Error).message}`);
+    log(usage);
+    throw new Error("Process exit called");
+  }
+
+  const [command, server, profile] = args;
+  if (
+    !["list", "inspect", "logout", "revoke", "profiles", "use"].includes(
+      command,
+    )
+  ) {
+    log(`Error: Unknown command: ${command}`);
+    log(usage);
+    throw new Error("Process exit called");
+  }
+  if (profileFlag !== undefined && !PROFILE_COMMANDS.includes(command)) {
+    log(`Error: ${command} doesn't take --profile`);
+    log(usage);
+    throw new Error("Process exit called");
+  }
+  if (clientInformation && command !== "revoke") {
+    log(`Error: ${command} doesn't take a client`);
+    log(usage);
+    throw new Error("Process exit called");
+  }
+  if (command === "list") {
+    return {
+      command: command as AuthCommand,
+      serverUrlHash: undefined,
+      profile: undefined,
+      clientInformation: undefined,
+    };
+  }
+
+  if (!server) {
+    log(`Error: ${command} requires a server URL or hash`);
+    log(usage);
+    throw new Error("Process exit called");
+  }
+  if (command === "use" && !profile) {
+    log("Error: use requires a profile name");
+    log(usage);
+    throw new Error("Process exit called");
+  }
+  try {
+    return {
+      command: command as AuthCommand,
+      serverUrlHash: resolveServerUrlHash(server, profileFlag),
+      profile: command === "use" ? profile : profileFlag,
+      clientInformation,
+    };
+  } catch (error) {
+    log(`Error: ${(error as Error).message}`);
+    log(usage);
+    throw new Error("Process exit called");
+  }
+}
+
+/**
+ * Parses the client given to revoke, like the proxy does
+ * @param flags The values of the client flags that were given
+ * @returns The client information, or undefined if no client was given
+ * @throws Error if the flags are incomplete, contradictory or invalid
+ */
+async function parseClientFlags(
+  flags: Record<string, string>,
+): Promise<OAuthClientInformation | undefined> {
+  const staticClientInfo = flags["--static-oauth-client-info"];
+  const clientId = flags["--client-id"];
+  const clientSecret = flags["--client-secret"];
+
+  if (staticClientInfo !== undefined) {
+    if (clientId !== undefined || clientSecret !== undefined) {
+      throw new Error(
+        "--static-oauth-client-info can't be combined with --client-id and --client-secret",
+      );
+    }
+    const { client_id, client_secret } = await parseStaticClientInfo(
+      staticClientInfo,
+    );
+    return { client_id, client_secret };
+  }
+  if (clientSecret !== undefined && !clientId) {
+    throw new Error("--client-secret requires --client-id");
+  }
+  if (!clientId) {
+    return undefined;
+  }
+  // Public clients have no secret to authenticate with
+  return {
+    client_id: expandEnvVars(clientId, "--client-id"),
+    client_secret: clientSecret
+      ? expandEnvVars(clientSecret, "--client-secret")
+      : undefined,
+  };
+}
+
+// Parse command-line arguments and run the command
+Promise.resolve()
+  .then(() =>
+    parseAuthArgs(
+      Deno.args,
+      "Usage: deno run src/auth.ts <list|inspect|logout|revoke|profiles|use> [server-url|hash] [profile] [--profile <name>] [--static-oauth-client-info <json|@file> | --client-id <id> [--client-secret <secret>]]",
+    )
+  )
+  .then(({ command, serverUrlHash, profile, clientInformation }) => {
+    return runAuthCommand(command, serverUrlHash, profile, clientInformation);
+  })
+  .catch((error) => {
+    log("Fatal error:", error);
+    Deno.exit(1);
+  });
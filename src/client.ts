@@ -25,7 +25,7 @@
 
 /**
  * MCP Client with OAuth support
- * A command-line client that connects to an MCP server using SSE with OAuth authentication.
+ * A command-line client that connects to an MCP server using SSE or Streamable HTTP with OAuth authentication.
  *
  * Run with: deno run --allow-net --allow-env --allow-read --allow-run --allow-sys --allow-ffi src/client.ts https://example.remote/server [callback-port]
  *
@@ -35,6 +35,7 @@
 import { EventEmitter } from "node:events";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
 import {
   ListResourcesResultSchema,
   ListToolsResultSchema,
@@ -42,13 +43,135 @@ import {
 import { UnauthorizedError } from "@modelcontextprotocol/sdk/client/auth.js";
 import { NodeOAuthClientProvider } from "./lib/node-oauth-client-provider.ts";
 import {
+  detectTransportType,
+  finishAuthorization,
   getServerUrlHash,
   log,
   MCP_REMOTE_VERSION,
   parseCommandLineArgs,
+  resolveCallbackEndpoint,
   setupSignalHandlers,
 } from "./lib/utils.ts";
 import { coordinateAuth } from "./lib/coordination.ts";
+import { ClientCredentialsProvider } from "./lib/client-credentials.ts";
+import {
+  DeviceAuthorizationProvider,
+  isDisplayAvailable,
+} from "./lib/device-flow.ts";
+import { withManualAuthCode } from "./lib/manual-auth-code.ts";
+import { readTextFile } from "./lib/mcp-auth-config.ts";
+import type { OAuthRequestParams } from "./lib/oauth-requests.ts";
+import type {
+  AuthFlowStrategy,
+  CallbackEndpoint,
+  ClientCredentials,
+  ManualAuthCodeSource,
+  StaticOAuthClientInfo,
+  TransportStrategy,
+} from "./lib/types.ts";
+
+/**
+ * Sets up the interactive authorization, coordinating with other instances
+ * so that only one of them asks the user to authorize
+ * @param serverUrl The URL of the remote MCP server
+ * @param callbackPort The local port to use for the OAuth callback server
+ * @param authFlow Whether to authorize in the browser or with the device flow
+ * @param staticClientInfo Pre-registered client to use instead of dynamic client registration
+ * @param requestParams The scope and resource to request
+ * @param manualAuthCodeSource Where the user can paste the authorization code, if anywhere
+ * @param callbackEndpoint The host to bind to, the host in the redirect URI and the callback path
+ * @param profile The named profile whose credentials to use
+ * @returns The auth provider, the callback server and how to wait for the authorization to complete
+ */
+async function setupInteractiveAuth(
+  serverUrl: string,
+  callbackPort: number,
+  authFlow: AuthFlowStrategy,
+  staticClientInfo: StaticOAuthClientInfo | undefined,
+  requestParams: OAuthRequestParams,
+  manualAuthCodeSource: ManualAuthCodeSource | undefined,
+  callbackEndpoint: CallbackEndpoint,
+  profile: string | undefined,
+) {
+  // Set up event emitter for auth flow
+  const events = new EventEmitter();
+
+  // Get the server URL hash for lockfile operations, each profile coordinates separately
+  const serverUrlHash = getServerUrlHash(serverUrl, profile);
+
+  // A fixed redirect URI determines the path the callback arrives on
+  const { host, redirectHost, path: callbackPath } = resolveCallbackEndpoint(
+    callbackEndpoint,
+    staticClientInfo?.redirect_uri,
+  );
+
+  // Coordinate authentication with other instances
+  const { server, waitForAuthCode, skipBrowserAuth } = await coordinateAuth(
+    serverUrlHash,
+    callbackPort,
+    events,
+    callbackPath,
+    host,
+  );
+
+  // Create the OAuth client provider, without a display the user can't reach the callback server
+  const useDeviceFlow = authFlow === "device" ||
+    (authFlow === "auto" && !isDisplayAvailable());
+  const providerOptions = {
+    serverUrl,
+    callbackPort,
+    callbackPath,
+    redirectHost,
+    clientName: "MCP CLI Client",
+    staticClientInfo,
+    profile,
+    ...requestParams,
+  };
+  const authProvider = useDeviceFlow
+    ? new DeviceAuthorizationProvider(providerOptions)
+    : new NodeOAuthClientProvider(providerOptions);
+
+  // If auth was completed by another instance, just log that we'll use the auth from disk
+  if (skipBrowserAuth) {
+    log(
+      "Authentication was completed by another instance - will use tokens from disk...",
+    );
+    // The callback reaches the other instance before it has exchanged the code for tokens
+    if (!(await authProvider.waitForValidTokens())) {
+      log("Timed out waiting for tokens from the other instance");
+    }
+  }
+
+  if (authProvider instanceof DeviceAuthorizationProvider) {
+    log("Using the device authorization flow");
+    return {
+      authProvider,
+      server,
+      waitForAuthCode: async () => {
+        const code = await authProvider.waitForAuthorization();
+        // Let other instances waiting on our callback server know the tokens are stored
+        events.emit("auth-completed");
+        return code;
+      },
+    };
+  }
+
+  // Let the user paste the code in case the redirect can't reach the callback server
+  if (manualAuthCodeSource && !skipBrowserAuth) {
+    return {
+      authProvider,
+      server,
+      waitForAuthCode: withManualAuthCode(
+        manualAuthCodeSource,
+        events,
+        () => readTextFile(serverUrlHash, "state.txt"),
+        waitForAuthCode,
+      ),
+    };
+  }
+
+  return { authProvider, server, waitForAuthCode };
+}
 
 /**
  * Main function to run the standalone MCP client for testing and debugging remote MCP servers
@@ -63,6 +186,22 @@ import { coordinateAuth } from "./lib/coordination.ts";
  *                     be available for the OAuth redirect URL during the authentication flow
  * @param headers Custom HTTP headers to send with requests to the remote server. This can be used to pass
  *                API keys or other authentication tokens when not using OAuth
+ * @param transportStrategy The transport to use for the remote server: "auto" (default) tries Streamable HTTP
+ *                          first and falls back to HTTP+SSE, "sse" and "http" force one of them
+ * @param clientCredentials Client ID and secret for the client credentials grant. When given, tokens are
+ *                          fetched from the token endpoint directly, without a browser or callback server
+ * @param authFlow How to authorize the user: "auto" (default) uses the device flow when no display is
+ *                 available, "browser" and "device" force one of them
+ * @param staticClientInfo Pre-registered client ID, secret and redirect URI for authorization servers
+ *                         that don't support dynamic client registration
+ * @param requestParams Scopes to request instead of the server's defaults, and the RFC 8707 resource
+ *                      indicator to request tokens for
+ * @param manualAuthCodeSource Where the user can paste the redirect URL or authorization code when the
+ *                             browser can't reach the callback server: the terminal or a file
+ * @param callbackEndpoint The host the callback server binds to (default: 127.0.0.1), the host in the
+ *                         redirect URI for port-forwarded or containerized setups and the callback path
+ * @param profile The named profile whose credentials to use, for holding several identities on the
+ *                same server
  *
  * @example
  * ```ts
@@ -81,36 +220,43 @@ async function runClient(
   serverUrl: string,
   callbackPort: number,
   headers: Record<string, string>,
+  transportStrategy: TransportStrategy = "auto",
+  clientCredentials?: ClientCredentials,
+  authFlow: AuthFlowStrategy = "auto",
+  staticClientInfo?: StaticOAuthClientInfo,
+  requestParams: OAuthRequestParams = {},
+  manualAuthCodeSource?: ManualAuthCodeSource,
+  callbackEndpoint: CallbackEndpoint = {},
+  profile?: string,
 ) {
-  // Set up event emitter for auth flow
-  const events = new EventEmitter();
-
-  // Get the server URL hash for lockfile operations
-  const serverUrlHash = getServerUrlHash(serverUrl);
-
-  // Coordinate authentication with other instances
-  const { server, waitForAuthCode, skipBrowserAuth } = await coordinateAuth(
-    serverUrlHash,
-    callbackPort,
-    events,
-  );
-
-  // Create the OAuth client provider
-  const authProvider = new NodeOAuthClientProvider({
-    serverUrl,
-    callbackPort,
-    clientName: "MCP CLI Client",
-  });
-
-  // If auth was completed by another instance, just log that we'll use the auth from disk
-  if (skipBrowserAuth) {
-    log(
-      "Authentication was completed by another instance - will use tokens from disk...",
+  // Machine-to-machine setups get their tokens straight from the token endpoint,
+  // so there is no browser, callback server or coordination with other instances
+  const { authProvider, server, waitForAuthCode } = clientCredentials
+    ? {
+      authProvider: new ClientCredentialsProvider({
+        serverUrl,
+        ...clientCredentials,
+        clientName: "MCP CLI Client",
+        ...requestParams,
+      }),
+      server: undefined,
+      waitForAuthCode: () =>
+        Promise.reject(
+          new Error(
+            "Interactive authorization is not available with client credentials",
+          ),
+        ),
+    }
+    : await setupInteractiveAuth(
+      serverUrl,
+      callbackPort,
+      authFlow,
+      staticClientInfo,
+      requestParams,
+      manualAuthCodeSource,
+      callbackEndpoint,
+      profile,
     );
-    // TODO: remove, the callback is happening before the tokens are exchanged
-    //  so we're slightly too early
-    await new Promise((res) => setTimeout(res, 1_000));
-  }
 
   // Create the client
   const client = new Client(
@@ -125,11 +271,22 @@ async function runClient(
 
   // Create the transport factory
   const url = new URL(serverUrl);
+  let transportType = transportStrategy === "auto"
+    ? await detectTransportType(url, authProvider, headers)
+    : transportStrategy;
+  log(
+    `Using ${transportType === "http" ? "Streamable HTTP" : "SSE"} transport`,
+  );
   function initTransport() {
-    const transport = new SSEClientTransport(url, {
-      authProvider,
-      requestInit: { headers },
-    });
+    const transport = transportType === "http"
+      ? new StreamableHTTPClientTransport(url, {
+        authProvider,
+        requestInit: { headers },
+      })
+      : new SSEClientTransport(url, {
+        authProvider,
+        requestInit: { headers },
+      });
 
     // Set up message and error handlers
     transport.onmessage = (message) => {
@@ -153,7 +310,7 @@ async function runClient(
   const cleanup = async () => {
     log("\nClosing connection...");
     await client.close();
-    server.close();
+    server?.close();
   };
   setupSignalHandlers(cleanup);
 
@@ -170,13 +327,20 @@ async function runClient(
       log("Authentication required. Waiting for authorization...");
 
       // Wait for the authorization code from the callback or another instance
+      // (the device flow stores the tokens itself and has no code to exchange)
       const code = await waitForAuthCode();
 
       try {
-        log("Completing authorization...");
-        await transport.finishAuth(code);
+        if (code !== null) {
+          log("Completing authorization...");
+          await finishAuthorization(transport, authProvider, code);
+        }
 
-        // Reconnect after authorization with a new transport
+        // Reconnect after authorization with a new transport. Servers requiring auth answer
+        // the unauthorized probe with 401 whatever transport they speak, so detect it again.
+        if (transportStrategy === "auto") {
+          transportType = await detectTransportType(url, authProvider, headers);
+        }
         log("Connecting after authorization...");
         await client.connect(initTransport());
 
@@ -201,12 +365,12 @@ async function runClient(
         log("Listening for messages. Press Ctrl+C to exit.");
       } catch (authError) {
         log("Authorization error:", authError);
-        server.close();
+        server?.close();
         Deno.exit(1);
       }
     } else {
       log("Connection error:", error);
-      server.close();
+      server?.close();
       Deno.exit(1);
     }
   }
@@ -242,11 +406,39 @@ async function runClient(
 parseCommandLineArgs(
   Deno.args,
   3333,
-  "Usage: deno run src/client.ts <https://server-url> [callback-port]",
+  "Usage: deno run src/client.ts <https://server-url>|--server <name> [callback-port] [--config <file>] [--profile <name>] [--transport auto|sse|http] [--auth-flow auto|browser|device] [--auth-code-input tty|<file>] [--callback-host <host>] [--redirect-host <host>] [--callback-path <path>] [--static-oauth-client-info <json|@file>] [--scope <scopes>] [--resource <uri>] [--client-id <id> --client-secret <secret>]",
 )
-  .then(({ serverUrl, callbackPort, headers }) => {
-    return runClient(serverUrl, callbackPort, headers);
-  })
+  .then(
+    (
+      {
+        serverUrl,
+        callbackPort,
+        headers,
+        transportStrategy,
+        clientCredentials,
+        authFlow,
+        staticClientInfo,
+        requestParams,
+        manualAuthCodeSource,
+        callbackEndpoint,
+        profile,
+      },
+    ) => {
+      return runClient(
+        serverUrl,
+        callbackPort,
+        headers,
+        transportStrategy,
+        clientCredentials,
+        authFlow,
+        staticClientInfo,
+        requestParams,
+        manualAuthCodeSource,
+        callbackEndpoint,
+        profile,
+      );
+    },
+  )
   .catch((error) => {
     console.error("Fatal error:", error);
     Deno.exit(1);
@@ -0,0 +1,742 @@
+/**
+ * This module aggregates several remote MCP servers into one, so that a single proxy process
+ * behind one STDIO transport can serve the tools, prompts and resources of all of them.
+ *
+ * The aggregator connects an MCP client to each remote server and serves the local client with
+ * an MCP server of its own. The `tools/list`, `prompts/list`, `resources/list` and
+ * `resources/templates/list` results of the remote servers are merged, and calls are routed to
+ * the server that listed the tool, prompt or resource. When two servers use the same name, the
+ * first one keeps it, so servers with overlapping names should get a namespace. Servers that
+ * are still being connected to, e.g. while the user authorizes access, join later and the client
+ * is told to list again.
+ *
+ * Notifications of the remote servers are forwarded to the client, and requests they make of
+ * the client, like sampling, are passed on to it. Changes of the client's roots are announced to
+ * all servers.
+ *
+ * @example
+ * ```ts
+ * import { Aggregator } from "@mmizutani/mcp-remote-deno/lib/aggregator";
+ *
+ * const aggregator = new Aggregator();
+ * await aggregator.connect(
+ *   [
+ *     { name: "linear", transport: linearTransport },
+ *     { name: "github", transport: githubTransport, transforms: [createNameRewrite({ namespace: "gh" })] },
+ *   ],
+ *   new StdioServerTransport(),
+ * );
+ * ```
+ *
+ * @module
+ */
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import {
+  CallToolRequestSchema,
+  type ClientRequest,
+  CompleteRequestSchema,
+  CreateMessageRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  isJSONRPCError,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListRootsRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  type Notification,
+  type Prompt,
+  ReadResourceRequestSchema,
+  type Resource,
+  type ResourceTemplate,
+  type Result,
+  ResultSchema,
+  RootsListChangedNotificationSchema,
+  type ServerCapabilities,
+  type ServerNotification,
+  type ServerRequest,
+  SetLevelRequestSchema,
+  SubscribeRequestSchema,
+  type Tool,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  applyNotificationTransforms,
+  applyRequestTransforms,
+  applyResultTransforms,
+  log,
+  MCP_REMOTE_VERSION,
+  type ProxyTransform,
+} from "./utils.ts";
+
+/**
+ * A remote server to aggregate
+ */
+export interface Upstream {
+  /** The name of the server, used in logs and to label its log messages */
+  name: string;
+  /** The connected transport to the server */
+  transport: Transport;
+  /** Rewrite the messages of this server, like the transforms of mcpProxy */
+  transforms?: ProxyTransform[];
+}
+
+/**
+ * A remote server that is still being connected to, e.g. while the user authorizes access to it
+ */
+export interface PendingUpstream extends Omit<Upstream, "transport"> {
+  /** Resolves to the connected transport to the server */
+  transport: Promise<Transport>;
+}
+
+/**
+ * A remote server with the client connected to it
+ */
+interface ConnectedUpstream {
+  name: string;
+  client: Client;
+  transforms: ProxyTransform[];
+}
+
+/**
+ * The largest timeout setTimeout supports, forwarded requests take as long as the client waits
+ */
+const FORWARD_TIMEOUT = 2 ** 31 - 1;
+
+/**
+ * Serves the merged tools, prompts and resources of several remote servers to one client
+ */
+export class Aggregator {
+  private upstreams: ConnectedUpstream[] = [];
+  private server: Server | undefined;
+  private tools = new Map<string, ConnectedUpstream>();
+  private prompts = new Map<string, ConnectedUpstream>();
+  private resources = new Map<string, ConnectedUpstream>();
+  private resourceTemplates = new Map<
+    string,
+    { template: UriTemplate; upstream: ConnectedUpstream }
+  >();
+  private requestCount = 0;
+  private pending = 0;
+  private closing = false;
+
+  /**
+   * Connects to the remote servers and then serves the client
+   *
+   * Pending servers join once they are connected, and the client is told to list the tools,
+   * prompts and resources again. Until then the client is served every capability they may
+   * have, but their instructions don't reach it.
+   * @param upstreams The remote servers, names are looked up in this order
+   * @param transportToClient Transport connection to the client
+   * @param pending The remote servers still being connected to, looked up after the others in
+   *                the order they join
+   */
+  async connect(
+    upstreams: Upstream[],
+    transportToClient: Transport,
+    pending: PendingUpstream[] = [],
+  ): Promise<void> {
+    for (const upstream of upstreams) {
+      await this.connectUpstream(upstream);
+    }
+    this.pending = pending.length;
+
+    const capabilities = pending.length > 0
+      ? {
+        ...this.mergeCapabilities(),
+        tools: { listChanged: true },
+        prompts: { listChanged: true },
+        resources: {
+          listChanged: true,
+          subscribe: this.capable("resources").some((upstream) =>
+            upstream.client.getServerCapabilities()?.resources?.subscribe
+          ),
+        },
+        completions: {},
+        logging: {},
+      }
+      : this.mergeCapabilities();
+    this.server = new Server(
+      { name: "mcp-remote", version: MCP_REMOTE_VERSION },
+      { capabilities, instructions: this.mergeInstructions() },
+    );
+    this.setupServer(this.server, capabilities);
+    this.server.onclose = () => this.close();
+    await this.server.connect(transportToClient);
+
+    for (const upstream of pending) {
+      this.join(upstream).catch((error) =>
+        log(`Could not connect to ${upstream.name}:`, error)
+      ).finally(() => {
+        this.pending--;
+        this.closeIfAllGone();
+      });
+    }
+  }
+
+  /**
+   * Closes the connections to the client and to all remote servers
+   */
+  async close(): Promise<void> {
+    if (this.closing) {
+      return;
+    }
+    this.closing = true;
+    await Promise.all(
+      this.upstreams.map((upstream) => upstream.client.close()),
+    );
+    await this.server?.close();
+  }
+
+  /**
+   * Connects the client of a remote server
+   * @param upstream The remote server
+   */
+  private async connectUpstream(
+    { name, transport, transforms = [] }: Upstream,
+  ): Promise<ConnectedUpstream> {
+    const upstream = {
+      name,
+      client: new Client(
+        { name: "mcp-remote", version: MCP_REMOTE_VERSION },
+        { capabilities: { sampling: {}, roots: { listChanged: true } } },
+      ),
+      transforms,
+    };
+    this.setupUpstream(upstream);
+    await upstream.client.connect(transport);
+    this.upstreams.push(upstream);
+    log(`Connected to ${name}`);
+    return upstream;
+  }
+
+  /**
+   * Adds a pending remote server once it is connected and lets the client know about its lists
+   * @param pending The remote server
+   */
+  private async join({ transport, ...rest }: PendingUpstream): Promise<void> {
+    const connected = await transport;
+    if (this.closing) {
+      await connected.close();
+      return;
+    }
+    const upstream = await this.connectUpstream({
+      ...rest,
+      transport: connected,
+    });
+
+    const server = this.connectedServer();
+    const capabilities = upstream.client.getServerCapabilities();
+    await Promise.all([
+      capabilities?.tools && server.sendToolListChanged(),
+      capabilities?.prompts && server.sendPromptListChanged(),
+      capabilities?.resources && server.sendResourceListChanged(),
+    ]);
+  }
+
+  /**
+   * Closes the connection to the client once no remote server is left to talk to
+   */
+  private closeIfAllGone() {
+    if (!this.closing && this.upstreams.length === 0 && this.pending === 0) {
+      this.close().catch((error) => log("Error closing:", error));
+    }
+  }
+
+  /**
+   * Passes the notifications and requests of a remote server on to the client
+   * @param upstream The remote server
+   */
+  private setupUpstream(upstream: ConnectedUpstream) {
+    const { name, client, transforms } = upstream;
+
+    client.fallbackNotificationHandler = async (notification) => {
+      const { method, params } = applyNotificationTransforms(transforms, {
+        jsonrpc: "2.0",
+        ...notification,
+      });
+      // The server's own logger name is kept after the label, but can't replace it
+      const forwarded: Notification = method === "notifications/message"
+        ? {
+          method,
+          params: {
+            ...params,
+            logger: typeof params?.logger === "string"
+              ? `${name}/${params.logger}`
+              : name,
+          },
+        }
+        : { method, params };
+      try {
+        await this.server?.notification(forwarded as ServerNotification);
+      } catch (error) {
+        log(`Could not forward ${method} from ${name}:`, error);
+      }
+    };
+
+    client.setRequestHandler(
+      CreateMessageRequestSchema,
+      (request, extra) =>
+        this.connectedServer().createMessage(request.params, {
+          signal: extra.signal,
+          timeout: FORWARD_TIMEOUT,
+        }),
+    );
+    client.setRequestHandler(
+      ListRootsRequestSchema,
+      (request, extra) =>
+        this.connectedServer().listRoots(request.params, {
+          signal: extra.signal,
+        }),
+    );
+
+    client.onclose = () => {
+      if (this.closing) {
+        return;
+      }
+      log(`Connection to ${name} closed`);
+      this.upstreams = this.upstreams.filter((other) => other !== upstream);
+      // The client has nothing left to talk to once all servers are gone
+      this.closeIfAllGone();
+    };
+    client.onerror = (error) => log(`Error from ${name}:`, error);
+  }
+
+  /**
+   * Answers the requests of the client from the remote servers
+   * @param server The server the client is connected to
+   * @param capabilities The capabilities of the server
+   */
+  private setupServer(server: Server, capabilities: ServerCapabilities) {
+    if (capabilities.tools) {
+      server.setRequestHandler(ListToolsRequestSchema, () => this.listTools());
+      server.setRequestHandler(
+        CallToolRequestSchema,
+        async (request, extra) =>
+          this.forward(
+            await this.route(
+              "tools",
+              () => this.tools.get(request.params.name),
+              () => this.listTools(),
+              `Unknown tool: ${request.params.name}`,
+            ),
+            request,
+            extra,
+          ),
+      );
+    }
+
+    if (capabilities.prompts) {
+      server.setRequestHandler(
+        ListPromptsRequestSchema,
+        () => this.listPrompts(),
+      );
+      server.setRequestHandler(
+        GetPromptRequestSchema,
+        async (request, extra) =>
+          this.forward(
+            await this.routePrompt(request.params.name),
+            request,
+            extra,
+          ),
+      );
+    }
+
+    if (capabilities.resources) {
+      server.setRequestHandler(
+        ListResourcesRequestSchema,
+        () => this.listResources(),
+      );
+      server.setRequestHandler(
+        ListResourceTemplatesRequestSchema,
+        () => this.listResourceTemplates(),
+      );
+      for (
+        const schema of [
+          ReadResourceRequestSchema,
+          SubscribeRequestSchema,
+          UnsubscribeRequestSchema,
+        ]
+      ) {
+        server.setRequestHandler(schema, async (request, extra) =>
+          this.forward(
+            await this.routeResource(request.params.uri),
+            request,
+            extra,
+          ));
+      }
+    }
+
+    if (capabilities.completions) {
+      server.setRequestHandler(
+        CompleteRequestSchema,
+        async (request, extra) =>
+          this.forward(
+            await (request.params.ref.type === "ref/prompt"
+              ? this.routePrompt(request.params.ref.name)
+              : this.routeResource(request.params.ref.uri)),
+            request,
+            extra,
+          ),
+      );
+    }
+
+    if (capabilities.logging) {
+      server.setRequestHandler(
+        SetLevelRequestSchema,
+        async (request, extra) => {
+          await Promise.all(
+            this.capable("logging").map((upstream) =>
+              this.forward(upstream, request, extra)
+            ),
+          );
+          return {};
+        },
+      );
+    }
+
+    server.setNotificationHandler(
+      RootsListChangedNotificationSchema,
+      async () => {
+        await Promise.all(
+          this.upstreams.map((upstream) =>
+            upstream.client.sendRootsListChanged().catch((error) =>
+              log(`Could not notify ${upstream.name} of new roots:`, error)
+            )
+          ),
+        );
+      },
+    );
+  }
+
+  /**
+   * Merges the capabilities of the remote servers. The lists change whenever those of a remote
+   * server do, so list changes are announced for all of them.
+   * @returns The capabilities of the aggregated server
+   */
+  private mergeCapabilities(): ServerCapabilities {
+    const has = (capability: keyof ServerCapabilities) =>
+      this.capable(capability).length > 0;
+    return {
+      ...(has("tools") && { tools: { listChanged: true } }),
+      ...(has("prompts") && { prompts: { listChanged: true } }),
+      ...(has("resources") && {
+        resources: {
+          listChanged: true,
+          subscribe: this.capable("resources").some((upstream) =>
+            upstream.client.getServerCapabilities()?.resources?.subscribe
+          ),
+        },
+      }),
+      ...(has("completions") && { completions: {} }),
+      ...(has("logging") && { logging: {} }),
+    };
+  }
+
+  /**
+   * Combines the instructions of the remote servers, headed by their names
+   * @returns The instructions, or undefined if no server has any
+   */
+  private mergeInstructions(): string | undefined {
+    const sections = this.upstreams.flatMap(({ name, client }) => {
+      const instructions = client.getInstructions();
+      return instructions ? [`## ${name}\n\n${instructions}`] : [];
+    });
+    return sections.length > 0 ? sections.join("\n\n") : undefined;
+  }
+
+  /**
+   * Lists the tools of all remote servers and remembers which server each one belongs to
+   */
+  private async listTools() {
+    const routes = new Map<string, ConnectedUpstream>();
+    const tools: Tool[] = [];
+    for (
+      const [upstream, items] of await this.listAll("tools", "tools/list")
+    ) {
+      for (const tool of items as Tool[]) {
+        if (this.claim(routes, tool.name, upstream, "tool")) {
+          tools.push(tool);
+        }
+      }
+    }
+    this.tools = routes;
+    return { tools };
+  }
+
+  /**
+   * Lists the prompts of all remote servers and remembers which server each one belongs to
+   */
+  private async listPrompts() {
+    const routes = new Map<string, ConnectedUpstream>();
+    const prompts: Prompt[] = [];
+    for (
+      const [upstream, items] of await this.listAll("prompts", "prompts/list")
+    ) {
+      for (const prompt of items as Prompt[]) {
+        if (this.claim(routes, prompt.name, upstream, "prompt")) {
+          prompts.push(prompt);
+        }
+      }
+    }
+    this.prompts = routes;
+    return { prompts };
+  }
+
+  /**
+   * Lists the resources of all remote servers and remembers which server each one belongs to
+   */
+  private async listResources() {
+    const routes = new Map<string, ConnectedUpstream>();
+    const resources: Resource[] = [];
+    for (
+      const [upstream, items] of await this.listAll(
+        "resources",
+        "resources/list",
+      )
+    ) {
+      for (const resource of items as Resource[]) {
+        if (this.claim(routes, resource.uri, upstream, "resource")) {
+          resources.push(resource);
+        }
+      }
+    }
+    this.resources = routes;
+    return { resources };
+  }
+
+  /**
+   * Lists the resource templates of all remote servers and remembers which server each one
+   * belongs to
+   */
+  private async listResourceTemplates() {
+    const routes = new Map<string, ConnectedUpstream>();
+    const resourceTemplates: ResourceTemplate[] = [];
+    for (
+      const [upstream, items] of await this.listAll(
+        "resources",
+        "resources/templates/list",
+      )
+    ) {
+      for (const template of items as ResourceTemplate[]) {
+        if (
+          this.claim(
+            routes,
+            template.uriTemplate,
+            upstream,
+            "resource template",
+          )
+        ) {
+          resourceTemplates.push(template);
+        }
+      }
+    }
+    this.resourceTemplates = new Map(
+      [...routes].map(([uriTemplate, upstream]) => [
+        uriTemplate,
+        { template: new UriTemplate(uriTemplate), upstream },
+      ]),
+    );
+    return { resourceTemplates };
+  }
+
+  /**
+   * Fetches all pages of a list from every remote server that supports it. The merged lists are
+   * returned in one page, servers whose list can't be fetched are left out.
+   * @param capability The capability the servers need
+   * @param method The list method, its result key is the last part of the method
+   * @returns The items of each server
+   */
+  private async listAll(
+    capability: keyof ServerCapabilities,
+    method: string,
+  ): Promise<[ConnectedUpstream, unknown[]][]> {
+    const key = method === "resources/templates/list"
+      ? "resourceTemplates"
+      : method.split("/")[0];
+    return await Promise.all(
+      this.capable(capability).map(async (upstream) => {
+        const items: unknown[] = [];
+        try {
+          let cursor: string | undefined;
+          do {
+            const result = await this.forward(upstream, {
+              method,
+              params: cursor !== undefined ? { cursor } : {},
+            });
+            items.push(...(result[key] as unknown[] ?? []));
+            cursor = result.nextCursor as string | undefined;
+          } while (cursor !== undefined);
+        } catch (error) {
+          log(`Could not fetch ${method} from ${upstream.name}:`, error);
+        }
+        return [upstream, items] as [ConnectedUpstream, unknown[]];
+      }),
+    );
+  }
+
+  /**
+   * Assigns a name to a remote server, unless another server already has it
+   * @param routes The servers by name
+   * @param name The name of the tool, prompt or resource
+   * @param upstream The server listing it
+   * @param kind What the name is of, for the log
+   * @returns True if the name is assigned to the server
+   */
+  private claim(
+    routes: Map<string, ConnectedUpstream>,
+    name: string,
+    upstream: ConnectedUpstream,
+    kind: string,
+  ): boolean {
+    const owner = routes.get(name);
+    if (owner === undefined) {
+      routes.set(name, upstream);
+      return true;
+    }
+    log(
+      `Ignoring ${kind} ${name} of ${upstream.name}, ${owner.name} has one with the same name. Give one of the servers a namespace to use both.`,
+    );
+    return false;
+  }
+
+  /**
+   * Finds the remote server of a prompt
+   * @param name The name of the prompt
+   */
+  private routePrompt(name: string): Promise<ConnectedUpstream> {
+    return this.route(
+      "prompts",
+      () => this.prompts.get(name),
+      () => this.listPrompts(),
+      `Unknown prompt: ${name}`,
+    );
+  }
+
+  /**
+   * Finds the remote server of a resource, by its URI or the templates matching it
+   * @param uri The URI of the resource or the resource template
+   */
+  private routeResource(uri: string): Promise<ConnectedUpstream> {
+    const find = () =>
+      this.resources.get(uri) ?? this.resourceTemplates.get(uri)?.upstream ??
+        [...this.resourceTemplates.values()].find(({ template }) =>
+          template.match(uri) !== null
+        )?.upstream;
+    return this.route(
+      "resources",
+      find,
+      () => Promise.all([this.listResources(), this.listResourceTemplates()]),
+      `Unknown resource: ${uri}`,
+    );
+  }
+
+  /**
+   * Finds the remote server to send a request to. Without a known owner, the only server with
+   * the capability gets the request, otherwise the lists are fetched again in case the client
+   * hasn't listed them yet.
+   * @param capability The capability the server needs
+   * @param find Looks up the owner in the lists fetched so far
+   * @param refresh Fetches the lists again
+   * @param unknown The error message if no server has it
+   * @returns The server
+   * @throws McpError if no server has it
+   */
+  private async route(
+    capability: keyof ServerCapabilities,
+    find: () => ConnectedUpstream | undefined,
+    refresh: () => Promise<unknown>,
+    unknown: string,
+  ): Promise<ConnectedUpstream> {
+    const capable = this.capable(capability);
+    const upstream = find() ??
+      (capable.length === 1 ? capable[0] : (await refresh(), find()));
+    if (upstream === undefined) {
+      throw new McpError(ErrorCode.InvalidParams, unknown);
+    }
+    return upstream;
+  }
+
+  /**
+   * Sends a request of the client to a remote server, applying the transforms of the server
+   * @param upstream The server
+   * @param request The request
+   * @param extra The context of the request of the client, to forward cancellation and progress
+   * @returns The result of the server
+   * @throws McpError if a transform or the server rejects the request
+   */
+  private async forward(
+    upstream: ConnectedUpstream,
+    { method, params }: { method: string; params?: Record<string, unknown> },
+    extra?: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  ): Promise<Result> {
+    const request = applyRequestTransforms(upstream.transforms, {
+      jsonrpc: "2.0",
+      id: ++this.requestCount,
+      method,
+      params,
+    });
+    if (isJSONRPCError(request)) {
+      throw new McpError(
+        request.error.code,
+        request.error.message,
+        request.error.data,
+      );
+    }
+
+    const progressToken = (params?._meta as Record<string, unknown>)
+      ?.progressToken;
+    const result = await upstream.client.request(
+      { method: request.method, params: request.params } as ClientRequest,
+      ResultSchema,
+      {
+        signal: extra?.signal,
+        // Lists fetched for routing shouldn't wait forever for a server that is down
+        timeout: extra ? FORWARD_TIMEOUT : undefined,
+        // The server reports progress with its own token, the client expects its token back
+        onprogress: progressToken !== undefined && extra
+          ? (progress) => {
+            extra.sendNotification({
+              method: "notifications/progress",
+              params: {
+                ...progress,
+                progressToken: progressToken as string | number,
+              },
+            }).catch((error) => log("Could not forward progress:", error));
+          }
+          : undefined,
+      },
+    );
+    return applyResultTransforms(upstream.transforms, method, result);
+  }
+
+  /**
+   * Returns the remote servers with a capability
+   * @param capability The capability
+   */
+  private capable(capability: keyof ServerCapabilities): ConnectedUpstream[] {
+    return this.upstreams.filter((upstream) =>
+      upstream.client.getServerCapabilities()?.[capability]
+    );
+  }
+
+  /**
+   * Returns the server the client is connected to
+   * @throws McpError if the client isn't connected yet
+   */
+  private connectedServer(): Server {
+    if (!this.server) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        "The client is not connected yet",
+      );
+    }
+    return this.server;
+  }
+}
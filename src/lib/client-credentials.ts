@@ -0,0 +1,233 @@
+/**
+ * This module implements the OAuth 2.1 client credentials grant for machine-to-machine use.
+ *
+ * In environments without a browser (CI agents, servers), the authorization code flow can't be
+ * completed. The ClientCredentialsProvider instead obtains access tokens directly from the token
+ * endpoint with a pre-registered client ID and secret, and requests a new token shortly before
+ * the current one expires. Tokens are only kept in memory, since they can be re-issued at any time.
+ *
+ * @example
+ * ```ts
+ * import { ClientCredentialsProvider } from "@mmizutani/mcp-remote-deno/lib/client-credentials";
+ *
+ * const authProvider = new ClientCredentialsProvider({
+ *   serverUrl: "https://remote.mcp.server.example.com/mcp",
+ *   clientId: "my-client-id",
+ *   clientSecret: Deno.env.get("MCP_CLIENT_SECRET")!,
+ * });
+ *
+ * const transport = new StreamableHTTPClientTransport(url, { authProvider });
+ * ```
+ *
+ * @module
+ */
+
+import {
+  discoverOAuthMetadata,
+  type OAuthClientProvider,
+} from "@modelcontextprotocol/sdk/client/auth.js";
+import type {
+  OAuthClientInformation,
+  OAuthClientMetadata,
+  OAuthMetadata,
+  OAuthTokens,
+} from "@modelcontextprotocol/sdk/shared/auth.js";
+import {
+  addOAuthRequestParams,
+  type OAuthRequestParams,
+  requestTokens,
+} from "./oauth-requests.ts";
+import * as utils from "./utils.ts";
+
+/**
+ * Options for the client credentials provider
+ */
+export interface ClientCredentialsProviderOptions {
+  /** Server URL to connect to */
+  serverUrl: string;
+  /** Client ID registered with the authorization server */
+  clientId: string;
+  /** Client secret registered with the authorization server */
+  clientSecret: string;
+  /** Client name to report in the client metadata */
+  clientName?: string;
+  /** How long before the access token expires to request a new one, in milliseconds (default: 60000) */
+  refreshMargin?: number;
+  /** Space-separated scopes to request, the server's defaults are used if not set */
+  scope?: string;
+  /** RFC 8707 resource indicator of the MCP server the tokens are for */
+  resource?: string;
+}
+
+/**
+ * Requests an access token from the token endpoint using the client credentials grant
+ * @param serverUrl The URL of the MCP server
+ * @param options The authorization server metadata, the client to authenticate as and the scope and resource to request
+ * @returns The issued tokens
+ */
+export async function requestClientCredentialsTokens(
+  serverUrl: string | URL,
+  { metadata, clientInformation, scope, resource }: {
+    metadata?: OAuthMetadata;
+    clientInformation: OAuthClientInformation;
+  } & OAuthRequestParams,
+): Promise<OAuthTokens> {
+  const params = new URLSearchParams({
+    grant_type: "client_credentials",
+    client_id: clientInformation.client_id,
+  });
+  addOAuthRequestParams(params, { scope, resource });
+
+  return await requestTokens(
+    serverUrl,
+    metadata,
+    clientInformation,
+    params,
+    "Client credentials token request",
+  );
+}
+
+/**
+ * Interface defining the dependencies for ClientCredentialsProvider,
+ * allowing for injection during testing.
+ */
+export interface ClientCredentialsProviderDeps {
+  discoverOAuthMetadata: typeof discoverOAuthMetadata;
+  requestTokens: typeof requestClientCredentialsTokens;
+  log: typeof utils.log;
+}
+
+/**
+ * Implements the OAuthClientProvider interface with the client credentials grant.
+ *
+ * The MCP SDK asks the provider for tokens before every request, so this provider fetches a
+ * token on first use and transparently replaces it once it is about to expire. There is no user
+ * interaction: if the remote server still rejects the token, the provider fails instead of
+ * starting a browser-based authorization.
+ */
+export class ClientCredentialsProvider implements OAuthClientProvider {
+  private currentTokens: OAuthTokens | undefined;
+  private expiresAt: number | undefined;
+  private pendingRequest: Promise<OAuthTokens> | undefined;
+  private refreshMargin: number;
+  private deps: ClientCredentialsProviderDeps;
+
+  /**
+   * Creates a new ClientCredentialsProvider
+   * @param options Configuration options for the provider
+   * @param deps Optional dependencies for testing
+   */
+  constructor(
+    readonly options: ClientCredentialsProviderOptions,
+    deps?: Partial<ClientCredentialsProviderDeps>,
+  ) {
+    this.deps = {
+      discoverOAuthMetadata: deps?.discoverOAuthMetadata ??
+        discoverOAuthMetadata,
+      requestTokens: deps?.requestTokens ?? requestClientCredentialsTokens,
+      log: deps?.log ?? utils.log,
+    };
+    this.refreshMargin = options.refreshMargin ?? 60_000;
+  }
+
+  /**
+   * The client credentials grant has no redirect
+   */
+  get redirectUrl(): string {
+    return "";
+  }
+
+  get clientMetadata(): OAuthClientMetadata {
+    return {
+      redirect_uris: [],
+      token_endpoint_auth_method: "client_secret_post",
+      grant_types: ["client_credentials"],
+      response_types: [],
+      client_name: this.options.clientName ?? "MCP CLI Client",
+      ...(this.options.scope ? { scope: this.options.scope } : {}),
+    };
+  }
+
+  /**
+   * Gets the pre-registered client information
+   * @returns The client ID and secret
+   */
+  clientInformation(): OAuthClientInformation {
+    return {
+      client_id: this.options.clientId,
+      client_secret: this.options.clientSecret,
+    };
+  }
+
+  /**
+   * Gets a valid access token, requesting a new one if there is none or it is about to expire
+   * @returns The OAuth tokens
+   */
+  async tokens(): Promise<OAuthTokens | undefined> {
+    if (
+      this.currentTokens &&
+      (this.expiresAt === undefined ||
+        this.expiresAt - this.refreshMargin > Date.now())
+    ) {
+      return this.currentTokens;
+    }
+
+    // Concurrent requests share a single token request
+    this.pendingRequest ??= this.requestTokens().finally(() => {
+      this.pendingRequest = undefined;
+    });
+    return await this.pendingRequest;
+  }
+
+  /**
+   * Stores tokens in memory
+   * @param tokens The tokens to store
+   */
+  saveTokens(tokens: OAuthTokens): void {
+    this.currentTokens = tokens;
+    this.expiresAt = tokens.expires_in !== undefined
+      ? Date.now() + tokens.expires_in * 1000
+      : undefined;
+  }
+
+  /**
+   * Called by the SDK when the remote server rejected our access token.
+   * The token is discarded so that the next connection attempt requests a new one.
+   * @throws Error always, since there is no user to send to an authorization page
+   */
+  redirectToAuthorization(): void {
+    this.currentTokens = undefined;
+    this.expiresAt = undefined;
+    throw new Error(
+      "The remote server rejected the access token issued for the client credentials",
+    );
+  }
+
+  /**
+   * PKCE is not used with the client credentials grant
+   */
+  saveCodeVerifier(): void {}
+
+  /**
+   * PKCE is not used with the client credentials grant
+   * @throws Error always
+   */
+  codeVerifier(): string {
+    throw new Error("The client credentials grant doesn't use a code verifier");
+  }
+
+  private async requestTokens(): Promise<OAuthTokens> {
+    this.deps.log("Requesting access token with client credentials");
+    const metadata = await this.deps.discoverOAuthMetadata(
+      this.options.serverUrl,
+    );
+    const tokens = await this.deps.requestTokens(this.options.serverUrl, {
+      metadata,
+      clientInformation: this.clientInformation(),
+      scope: this.options.scope,
+      resource: this.options.resource,
+    });
+    this.saveTokens(tokens);
+    return tokens;
+  }
+}
@@ -0,0 +1,609 @@
+/**
+ * This module reads the project-level configuration file, which defines named servers with their
+ * URL, headers, transport and OAuth options, so that MCP client configs don't need long arg arrays.
+ *
+ * The file is called `mcp-remote.json` or `mcp-remote.jsonc` and is looked up in the working
+ * directory, unless another path is given with `--config`. Comments and trailing commas are
+ * allowed in both. A server is selected with `--server <name>`, which can be left out when the
+ * file defines only one server.
+ *
+ * The options of the selected server are turned into the equivalent command line flags, so they
+ * mean exactly the same as on the command line. Flags given on the command line take precedence,
+ * headers from both are combined.
+ *
+ * With `--aggregate`, the proxy serves several servers of the file at once, see
+ * resolveAggregateArgs.
+ *
+ * @example
+ * ```jsonc
+ * {
+ *   "servers": {
+ *     "linear": {
+ *       "url": "https://mcp.linear.app/sse",
+ *       "headers": { "X-Api-Key": "${LINEAR_API_KEY}" },
+ *       "transport": "sse",
+ *       "callbackPort": 3334,
+ *     },
+ *   },
+ * }
+ * ```
+ *
+ * @module
+ */
+
+import path from "node:path";
+import { log } from "./utils.ts";
+
+/**
+ * A server defined in the config file, the options match the command line flags
+ */
+export interface ServerConfig {
+  /** URL of the remote MCP server */
+  url: string;
+  /** Local port for the OAuth callback server */
+  callbackPort?: number;
+  /** Custom HTTP headers, values may contain `${ENV_VAR}` references */
+  headers?: Record<string, string>;
+  /** Same as `--transport` */
+  transport?: "auto" | "sse" | "http";
+  /** Same as `--auth-flow` */
+  authFlow?: "auto" | "browser" | "device";
+  /** Same as `--auth-code-input`, a relative file path is resolved against the config file */
+  authCodeInput?: string;
+  /** Same as `--callback-host` */
+  callbackHost?: string;
+  /** Same as `--redirect-host` */
+  redirectHost?: string;
+  /** Same as `--callback-path` */
+  callbackPath?: string;
+  /** Same as `--static-oauth-client-info`, the client itself or `@` followed by the path of a JSON file */
+  staticOAuthClientInfo?: Record<string, unknown> | string;
+  /** Same as `--scope`, space-separated or as a list */
+  scope?: string | string[];
+  /** Same as `--resource` */
+  resource?: string;
+  /** Same as `--client-id` */
+  clientId?: string;
+  /** Same as `--client-secret` */
+  clientSecret?: string;
+  /** Same as `--profile` */
+  profile?: string;
+  /** Same as `--namespace` */
+  namespace?: string;
+  /** Same as `--rename`, new names by the name on the remote server */
+  rename?: Record<string, string>;
+  /** Same as `--allow-tool`, for each pattern */
+  allowTools?: string[];
+  /** Same as `--deny-tool`, for each pattern */
+  denyTools?: string[];
+  /** Same as `--record`, a relative file path is resolved against the config file */
+  record?: string;
+  /** Same as `--replay`, a relative file path is resolved against the config file */
+  replay?: string;
+  /** Same as `--allow-http` */
+  allowHttp?: boolean;
+}
+
+/**
+ * Contents of the config file
+ */
+export interface ConfigFile {
+  /** The servers by name */
+  servers: Record<string, ServerConfig>;
+}
+
+/**
+ * Interface defining the dependencies for resolveConfigArgs,
+ * allowing for injection during testing.
+ */
+export interface ConfigFileDeps {
+  readTextFile: (path: string) => Promise<string>;
+  cwd: () => string;
+}
+
+/**
+ * Names of the config file looked up in the working directory, in order
+ */
+export const CONFIG_FILE_NAMES = ["mcp-remote.json", "mcp-remote.jsonc"];
+
+/**
+ * Options taking a string, with the command line flag they stand for
+ */
+const STRING_OPTIONS = {
+  transport: "--transport",
+  authFlow: "--auth-flow",
+  authCodeInput: "--auth-code-input",
+  callbackHost: "--callback-host",
+  redirectHost: "--redirect-host",
+  callbackPath: "--callback-path",
+  resource: "--resource",
+  clientId: "--client-id",
+  clientSecret: "--client-secret",
+  profile: "--profile",
+  namespace: "--namespace",
+  record: "--record",
+  replay: "--replay",
+} as const;
+
+/**
+ * Flags that can be given several times, their values add up
+ */
+const REPEATABLE_FLAGS = ["--rename", "--allow-tool", "--deny-tool"];
+
+/**
+ * Allowed values of the options that take one of a fixed set of strings
+ */
+const ENUM_OPTIONS: Partial<
+  Record<keyof typeof STRING_OPTIONS, readonly string[]>
+> = {
+  transport: ["auto", "sse", "http"],
+  authFlow: ["auto", "browser", "device"],
+};
+
+/**
+ * Parses JSON that may contain comments and trailing commas
+ * @param text The JSONC text
+ * @returns The parsed value
+ * @throws SyntaxError if the text is not valid JSONC
+ */
+export function parseJsonc(text: string): unknown {
+  // Skips whitespace and comments, returning the index of the next token
+  const skip = (i: number): number => {
+    while (i < text.length) {
+      if (/\s/.test(text[i])) {
+        i++;
+      } else if (text.startsWith("//", i)) {
+        const end = text.indexOf("\n", i);
+        i = end === -1 ? text.length : end;
+      } else if (text.startsWith("/*", i)) {
+        const end = text.indexOf("*/", i + 2);
+        if (end === -1) {
+          throw new SyntaxError("Unterminated comment");
+        }
+        i = end + 2;
+      } else {
+        break;
+      }
+    }
+    return i;
+  };
+
+  let json = "";
+  let i = 0;
+  while (i < text.length) {
+    const next = skip(i);
+    if (next !== i) {
+      json += " ";
+      i = next;
+      continue;
+    }
+
+    const char = text[i];
+    if (char === '"') {
+      // Copy strings verbatim, they may contain comment markers and commas
+      const start = i++;
+      while (i < text.length && text[i] !== '"') {
+        i += text[i] === "\\" ? 2 : 1;
+      }
+      json += text.slice(start, ++i);
+    } else if (char === "," && ["}", "]"].includes(text[skip(i + 1)])) {
+      // Drop trailing commas
+      i++;
+    } else {
+      json += char;
+      i++;
+    }
+  }
+  return JSON.parse(json);
+}
+
+/**
+ * Validates the contents of the config file
+ * @param data The parsed config file
+ * @returns The validated config file
+ * @throws Error naming the invalid option
+ */
+export function validateConfigFile(data: unknown): ConfigFile {
+  if (!isObject(data)) {
+    throw new Error("Expected an object with a servers property");
+  }
+  for (const key of Object.keys(data)) {
+    if (key !== "servers" && key !== "$schema") {
+      throw new Error(`Unknown property "${key}"`);
+    }
+  }
+  if (!isObject(data.servers) || Object.keys(data.servers).length === 0) {
+    throw new Error("servers must be an object with at least one server");
+  }
+
+  for (const [name, server] of Object.entries(data.servers)) {
+    validateServerConfig(server, `servers.${name}`);
+  }
+  return data as unknown as ConfigFile;
+}
+
+/**
+ * Validates a server defined in the config file
+ * @param server The server options
+ * @param at Where the server is defined, for error messages
+ * @throws Error naming the invalid option
+ */
+function validateServerConfig(server: unknown, at: string) {
+  if (!isObject(server)) {
+    throw new Error(`${at} must be an object`);
+  }
+  if (typeof server.url !== "string" || !server.url) {
+    throw new Error(`${at}.url is required`);
+  }
+
+  for (const [key, value] of Object.entries(server)) {
+    const option = `${at}.${key}`;
+    switch (key) {
+      case "url":
+        break;
+      case "callbackPort":
+        if (
+          typeof value !== "number" || !Number.isInteger(value) || value < 1 ||
+          value > 65535
+        ) {
+          throw new Error(`${option} must be a port number`);
+        }
+        break;
+      case "headers":
+        if (
+          !isObject(value) ||
+          Object.values(value).some((header) => typeof header !== "string")
+        ) {
+          throw new Error(`${option} must map header names to strings`);
+        }
+        for (const name of Object.keys(value)) {
+          if (!/^[A-Za-z0-9_-]+$/.test(name)) {
+            throw new Error(`${option} has an invalid header name "${name}"`);
+          }
+        }
+        break;
+      case "staticOAuthClientInfo":
+        if (typeof value !== "string" && !isObject(value)) {
+          throw new Error(
+            `${option} must be an object or "@" followed by a file path`,
+          );
+        }
+        break;
+      case "scope":
+        if (
+          typeof value !== "string" &&
+          !(Array.isArray(value) &&
+            value.every((scope) => typeof scope === "string"))
+        ) {
+          throw new Error(`${option} must be a string or a list of strings`);
+        }
+        break;
+      case "rename":
+        if (
+          !isObject(value) ||
+          Object.values(value).some((name) => typeof name !== "string" || !name)
+        ) {
+          throw new Error(
+            `${option} must map tool and prompt names to new names`,
+          );
+        }
+        break;
+      case "allowTools":
+      case "denyTools":
+        if (
+          !Array.isArray(value) ||
+          !value.every((glob) => typeof glob === "string" && glob)
+        ) {
+          throw new Error(`${option} must be a list of tool names or patterns`);
+        }
+        break;
+      case "allowHttp":
+        if (typeof value !== "boolean") {
+          throw new Error(`${option} must be true or false`);
+        }
+        break;
+      default: {
+        if (!(key in STRING_OPTIONS)) {
+          throw new Error(`${at} has an unknown option "${key}"`);
+        }
+        if (typeof value !== "string" || !value) {
+          throw new Error(`${option} must be a non-empty string`);
+        }
+        const allowed = ENUM_OPTIONS[key as keyof typeof STRING_OPTIONS];
+        if (allowed && !allowed.includes(value)) {
+          throw new Error(
+            `${option} must be one of ${
+              allowed.map((v) => `"${v}"`).join(", ")
+            }, got "${value}"`,
+          );
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Turns a server from the config file into the equivalent command line arguments
+ * @param server The server options
+ * @param baseDir The directory of the config file, relative file paths are resolved against it
+ * @returns The server URL and callback port, followed by the flags
+ */
+export function serverConfigToArgs(
+  server: ServerConfig,
+  baseDir: string,
+): string[] {
+  const args = [server.url];
+  if (server.callbackPort !== undefined) {
+    args.push(String(server.callbackPort));
+  }
+
+  for (const [name, value] of Object.entries(server.headers ?? {})) {
+    args.push("--header", `${name}:${value}`);
+  }
+  for (const [key, flag] of Object.entries(STRING_OPTIONS)) {
+    let value = server[key as keyof typeof STRING_OPTIONS];
+    if (value === undefined) {
+      continue;
+    }
+    if (
+      (key === "authCodeInput" && value !== "tty") || key === "record" ||
+      key === "replay"
+    ) {
+      value = path.resolve(baseDir, value);
+    }
+    args.push(flag, value);
+  }
+  if (server.scope !== undefined) {
+    args.push(
+      "--scope",
+      Array.isArray(server.scope) ? server.scope.join(" ") : server.scope,
+    );
+  }
+  if (server.staticOAuthClientInfo !== undefined) {
+    const info = server.staticOAuthClientInfo;
+    args.push(
+      "--static-oauth-client-info",
+      typeof info !== "string"
+        ? JSON.stringify(info)
+        : info.startsWith("@")
+        ? `@${path.resolve(baseDir, info.slice(1))}`
+        : info,
+    );
+  }
+  for (const [remote, local] of Object.entries(server.rename ?? {})) {
+    args.push("--rename", `${remote}=${local}`);
+  }
+  for (const glob of server.allowTools ?? []) {
+    args.push("--allow-tool", glob);
+  }
+  for (const glob of server.denyTools ?? []) {
+    args.push("--deny-tool", glob);
+  }
+  if (server.allowHttp) {
+    args.push("--allow-http");
+  }
+  return args;
+}
+
+/**
+ * Replaces `--config` and `--server` in the command line arguments with the options of the
+ * selected server. Arguments without these flags are returned unchanged.
+ * @param args Command line arguments
+ * @param deps Optional dependencies for testing
+ * @returns The command line arguments to parse
+ * @throws Error if the config file can't be read, is invalid or doesn't define the server
+ */
+export async function resolveConfigArgs(
+  args: string[],
+  deps?: Partial<ConfigFileDeps>,
+): Promise<string[]> {
+  const rest = [...args];
+  const configPath = takeFlag(rest, "--config");
+  const serverName = takeFlag(rest, "--server");
+  if (configPath === undefined && serverName === undefined) {
+    return args;
+  }
+
+  const { filePath, config } = await readConfigFile(configPath, deps);
+
+  const names = Object.keys(config.servers);
+  const name = serverName ?? (names.length === 1 ? names[0] : undefined);
+  if (name === undefined) {
+    throw new Error(
+      `${filePath} defines several servers, select one with --server: ${
+        names.join(", ")
+      }`,
+    );
+  }
+  if (!Object.hasOwn(config.servers, name)) {
+    throw new Error(
+      `Unknown server "${name}" in ${filePath}, expected one of: ${
+        names.join(", ")
+      }`,
+    );
+  }
+
+  // A callback port on the command line overrides the one in the config file
+  const server = { ...config.servers[name] };
+  if (rest[0] !== undefined && !rest[0].startsWith("--")) {
+    const positional = rest.shift()!;
+    if (!/^\d+$/.test(positional)) {
+      throw new Error(
+        `--server can't be combined with a server URL, got: ${positional}`,
+      );
+    }
+    server.callbackPort = Number.parseInt(positional, 10);
+  }
+
+  log(`Using server "${name}" from ${filePath}`);
+  const [url, ...options] = serverConfigToArgs(server, path.dirname(filePath));
+  const port = server.callbackPort !== undefined ? [options.shift()!] : [];
+  return [url, ...port, ...rest, ...withoutOverriddenOptions(options, rest)];
+}
+
+/**
+ * Leaves out the options of the config file that are given on the command line, so the command
+ * line takes precedence. Tool filters and renames add up, headers are overridden by name.
+ * @param options The flags from the config file
+ * @param commandLine The flags from the command line
+ * @returns The flags from the config file to keep
+ */
+function withoutOverriddenOptions(
+  options: string[],
+  commandLine: string[],
+): string[] {
+  const headerName = (header: string) => header.split(":", 1)[0].toLowerCase();
+  const headers = new Set(
+    commandLine.flatMap((arg, i) =>
+      arg === "--header" && commandLine[i + 1] !== undefined
+        ? [headerName(commandLine[i + 1])]
+        : []
+    ),
+  );
+
+  const kept: string[] = [];
+  for (let i = 0; i < options.length;) {
+    const flag = options[i];
+    const length = flag === "--allow-http" ? 1 : 2;
+    const overridden = flag === "--header"
+      ? headers.has(headerName(options[i + 1]))
+      : !REPEATABLE_FLAGS.includes(flag) && commandLine.includes(flag);
+    if (!overridden) {
+      kept.push(...options.slice(i, i + length));
+    }
+    i += length;
+  }
+  return kept;
+}
+
+/**
+ * Resolves the command line arguments of each server to aggregate: the servers selected with
+ * `--server`, which can be given several times, or all servers of the config file. Other flags
+ * apply to every server and take precedence over the config file.
+ * @param args Command line arguments, without `--aggregate`
+ * @param deps Optional dependencies for testing
+ * @returns The name of each server and the command line arguments to parse for it
+ * @throws Error if the config file can't be read, is invalid or doesn't define the servers
+ */
+export async function resolveAggregateArgs(
+  args: string[],
+  deps?: Partial<ConfigFileDeps>,
+): Promise<{ name: string; args: string[] }[]> {
+  const rest = [...args];
+  const configPath = takeFlag(rest, "--config");
+  const serverNames: string[] = [];
+  let serverName: string | undefined;
+  while ((serverName = takeFlag(rest, "--server")) !== undefined) {
+    serverNames.push(serverName);
+  }
+  if (rest[0] !== undefined && !rest[0].startsWith("--")) {
+    throw new Error(
+      `--aggregate takes the servers from the config file, got: ${rest[0]}`,
+    );
+  }
+
+  const { filePath, config } = await readConfigFile(configPath, deps);
+  const names = Object.keys(config.servers);
+  for (const name of serverNames) {
+    if (!Object.hasOwn(config.servers, name)) {
+      throw new Error(
+        `Unknown server "${name}" in ${filePath}, expected one of: ${
+          names.join(", ")
+        }`,
+      );
+    }
+  }
+
+  return [...new Set(serverNames.length > 0 ? serverNames : names)].map(
+    (name) => ({
+      name,
+      args: ["--config", filePath, "--server", name, ...rest],
+    }),
+  );
+}
+
+/**
+ * Removes a flag and its value from the command line arguments
+ * @param args Command line arguments, modified in place
+ * @param flag The flag
+ * @returns The value of the first occurrence of the flag, or undefined if it isn't given
+ * @throws Error if the flag has no value
+ */
+function takeFlag(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  if (index === -1) {
+    return undefined;
+  }
+  const value = args[index + 1];
+  if (!value || value.startsWith("--")) {
+    throw new Error(`${flag} requires a value`);
+  }
+  args.splice(index, 2);
+  return value;
+}
+
+/**
+ * Reads and validates the config file
+ * @param configPath The path given with `--config`, if any, otherwise the file is looked up in
+ *                   the working directory
+ * @param deps Optional dependencies for testing
+ * @returns The path and contents of the config file
+ * @throws Error if the config file can't be found or read, or is invalid
+ */
+async function readConfigFile(
+  configPath: string | undefined,
+  deps?: Partial<ConfigFileDeps>,
+): Promise<{ filePath: string; config: ConfigFile }> {
+  const readTextFile = deps?.readTextFile ?? Deno.readTextFile;
+  const cwd = deps?.cwd ?? Deno.cwd;
+
+  // Without --config, look for the config file of the project
+  let filePath: string | undefined;
+  let text: string | undefined;
+  for (
+    const candidate of configPath !== undefined
+      ? [configPath]
+      : CONFIG_FILE_NAMES
+  ) {
+    filePath = path.resolve(cwd(), candidate);
+    try {
+      text = await readTextFile(filePath);
+      break;
+    } catch (error) {
+      if (
+        configPath !== undefined || !(error instanceof Deno.errors.NotFound)
+      ) {
+        throw new Error(
+          `Could not read config file ${filePath}: ${(error as Error).message}`,
+        );
+      }
+    }
+  }
+  if (text === undefined || filePath === undefined) {
+    throw new Error(
+      `No config file found, looked for ${
+        CONFIG_FILE_NAMES.join(" and ")
+      } in ${cwd()}`,
+    );
+  }
+
+  let config: ConfigFile;
+  try {
+    config = validateConfigFile(parseJsonc(text));
+  } catch (error) {
+    throw new Error(
+      `Invalid config file ${filePath}: ${(error as Error).message}`,
+    );
+  }
+
+  return { filePath, config };
+}
+
+/**
+ * Checks whether a value is a plain object
+ * @param value The value to check
+ * @returns True for objects that are not arrays or null
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
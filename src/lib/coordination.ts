@@ -6,6 +6,10 @@
  * completes the OAuth authentication flow, other processes can reuse the same tokens without
  * requiring the user to authenticate again.
  *
+ * The instance running the authorization holds the lockfile and refreshes a heartbeat in it while
+ * it runs. Waiting instances take the lock over once the heartbeat is old or the callback server
+ * stops answering, which works the same on every platform.
+ *
  * @example
  * ```ts
  * import { coordinateAuth } from "@mmizutani/mcp-remote-deno/lib/coordination";
@@ -25,6 +29,11 @@
  * if (skipBrowserAuth) {
  *   console.log("Will use tokens from another instance");
  * }
+ *
+ * // Make sure only one instance at a time uses the refresh token
+ * await withRefreshLock(serverUrlHash, async () => {
+ *   // Re-read tokens.json here, another instance may have refreshed them already
+ * });
  * ```
  *
  * @module
@@ -32,74 +41,54 @@
 
 import {
   checkLockfile,
+  checkRefreshLockfile,
+  checkTakeoverLockfile,
   createLockfile,
+  createRefreshLockfile,
+  createTakeoverLockfile,
   deleteLockfile,
+  deleteRefreshLockfile,
+  deleteTakeoverLockfile,
   getConfigFilePath,
   type LockfileData,
+  readTextFile,
+  type RefreshLockfileData,
+  replaceLockfile,
 } from "./mcp-auth-config.ts";
 import type { EventEmitter } from "node:events";
 import type { Server } from "node:http";
-import type { AddressInfo } from "node:net";
-import { log, setupOAuthCallbackServerWithLongPoll } from "./utils.ts";
+import {
+  formatUrlHost,
+  getReachableHost,
+  log,
+  setupOAuthCallbackServerWithLongPoll,
+} from "./utils.ts";
 import createServer from "./deno-http-server.ts";
 
 /**
- * Checks if a process with the given PID is running
- * @param pid The process ID to check
- * @returns True if the process is running, false otherwise
+ * How often the instance holding the auth lock refreshes its heartbeat, in milliseconds
  */
-export async function isPidRunning(pid: number): Promise<boolean> {
-  try {
-    // Deno doesn't have a direct equivalent to process.kill(pid, 0)
-    // On non-Windows platforms, we can try to use kill system call to check
-    if (Deno.build.os !== "windows") {
-      try {
-        // Using Deno.run to check if process exists
-        const command = new Deno.Command("kill", {
-          args: ["-0", pid.toString()],
-          stdout: "null",
-          stderr: "null",
-        });
-        const { success } = await command.output();
-        return success;
-      } catch {
-        return false;
-      }
-    } else {
-      // On Windows, use tasklist to check if process exists
-      try {
-        const command = new Deno.Command("tasklist", {
-          args: ["/FI", `PID eq ${pid}`, "/NH"],
-          stdout: "piped",
-        });
-        const { stdout } = await command.output();
-        const output = new TextDecoder().decode(stdout);
-        return output.includes(pid.toString());
-      } catch {
-        return false;
-      }
-    }
-  } catch {
-    return false;
-  }
-}
+export const HEARTBEAT_INTERVAL = 5000;
 
 /**
- * Checks if a lockfile is valid (process running and endpoint accessible)
+ * Age of the heartbeat after which the instance holding the lock is considered gone
+ */
+const HEARTBEAT_STALE_AFTER = 30_000;
+
+/**
+ * Checks if a lockfile is valid (heartbeat recent and endpoint accessible)
  * @param lockData The lockfile data to validate
- * @returns True if the lockfile is valid and the process is still running, false otherwise
+ * @returns True if the lockfile is valid and its instance is still running, false otherwise
  */
 export async function isLockValid(lockData: LockfileData): Promise<boolean> {
-  // Check if the lockfile is too old (over 30 minutes)
-  const MAX_LOCK_AGE = 30 * 60 * 1000; // 30 minutes
-  if (Date.now() - lockData.timestamp > MAX_LOCK_AGE) {
-    log("Lockfile is too old");
-    return false;
-  }
-
-  // Check if the process is still running
-  if (!(await isPidRunning(lockData.pid))) {
-    log("Process from lockfile is not running");
+  // The holder refreshes the heartbeat while it runs, so an old one belongs to a process that
+  // exited or hangs. Unlike probing the PID, this needs no --allow-run and works on every
+  // platform, and a reused PID can't keep a lock alive
+  if (
+    Date.now() - (lockData.heartbeat ?? lockData.timestamp) >
+      HEARTBEAT_STALE_AFTER
+  ) {
+    log("Lockfile heartbeat is too old");
     return false;
   }
 
@@ -108,8 +97,9 @@ export async function isLockValid(lockData: LockfileData): Promise<boolean> {
     const controller = new AbortController();
     const timeout = setTimeout(() => controller.abort(), 1000);
 
+    const host = formatUrlHost(lockData.host ?? "127.0.0.1");
     const response = await fetch(
-      `http://127.0.0.1:${lockData.port}/wait-for-auth?poll=false`,
+      `http://${host}:${lockData.port}/wait-for-auth?poll=false`,
       {
         signal: controller.signal,
       },
@@ -123,17 +113,64 @@ export async function isLockValid(lockData: LockfileData): Promise<boolean> {
   }
 }
 
+/**
+ * Refreshes the heartbeat in the lockfile held by this instance until stopped, or until
+ * another instance took the lock over
+ * @param serverUrlHash The hash of the server URL for lockfile identification
+ * @param port The port of this instance's callback server
+ * @param interval How often to refresh the heartbeat, in milliseconds
+ * @returns A function stopping the heartbeat
+ */
+export function startLockHeartbeat(
+  serverUrlHash: string,
+  port: number,
+  interval = HEARTBEAT_INTERVAL,
+): () => void {
+  let stopped = false;
+  const beat = async () => {
+    const lockData = await checkLockfile(serverUrlHash);
+    if (stopped) {
+      return;
+    }
+    if (!lockData || lockData.pid !== Deno.pid || lockData.port !== port) {
+      log("Lockfile was taken over by another instance");
+      stop();
+      return;
+    }
+    await replaceLockfile(serverUrlHash, {
+      ...lockData,
+      heartbeat: Date.now(),
+    });
+  };
+
+  const timer = setInterval(() => {
+    beat().catch((error) => log("Error refreshing lockfile heartbeat:", error));
+  }, interval);
+  // The heartbeat alone doesn't keep the process running
+  Deno.unrefTimer(timer);
+
+  const stop = () => {
+    stopped = true;
+    clearInterval(timer);
+  };
+  return stop;
+}
+
 /**
  * Waits for authentication from another server instance
  * @param port The port of the other server instance to connect to
+ * @param host The address of the other server instance
  * @returns True if authentication completed successfully, false otherwise
  */
-export async function waitForAuthentication(port: number): Promise<boolean> {
+export async function waitForAuthentication(
+  port: number,
+  host = "127.0.0.1",
+): Promise<boolean> {
   log(`Waiting for authentication from the server on port ${port}...`);
 
   try {
     while (true) {
-      const url = `http://127.0.0.1:${port}/wait-for-auth`;
+      const url = `http://${formatUrlHost(host)}:${port}/wait-for-auth`;
       log(`Querying: ${url}`);
       const response = await fetch(url);
 
@@ -157,17 +194,173 @@ export async function waitForAuthentication(port: number): Promise<boolean> {
   }
 }
 
+/**
+ * Options for acquiring the auth lock
+ */
+export interface AuthLockOptions {
+  /** How often to check the lock while another instance starts up, in milliseconds (default: 100) */
+  pollInterval?: number;
+  /** How long the callback server of a new lock may take to start, in milliseconds (default: 5000) */
+  startupGrace?: number;
+  /** Checks whether the instance holding a lock still serves it (default: isLockValid) */
+  isLockValid?: (lockData: LockfileData) => Promise<boolean>;
+}
+
+/**
+ * Takeover locks are held for a moment only, so an old one belongs to a process that died
+ * while removing a stale lock
+ */
+const TAKEOVER_STALE_AFTER = 10_000;
+
+/**
+ * Checks whether two lockfiles were created by the same instance
+ */
+function isSameLock(
+  a: RefreshLockfileData & { port?: number },
+  b: RefreshLockfileData & { port?: number },
+): boolean {
+  return a.pid === b.pid && a.port === b.port && a.timestamp === b.timestamp;
+}
+
+/**
+ * Reads and deletes one of the lockfiles whose removal is guarded by the takeover lock
+ */
+interface GuardedLockfile<T> {
+  check: (serverUrlHash: string) => Promise<T | null>;
+  remove: (serverUrlHash: string) => Promise<void>;
+}
+
+const AUTH_LOCKFILE: GuardedLockfile<LockfileData> = {
+  check: checkLockfile,
+  remove: deleteLockfile,
+};
+
+const REFRESH_LOCKFILE: GuardedLockfile<RefreshLockfileData> = {
+  check: checkRefreshLockfile,
+  remove: deleteRefreshLockfile,
+};
+
+/**
+ * Removes a lock, unless it was replaced in the meantime. Only one instance at a time may do
+ * this, as otherwise an instance that saw the same stale lock could remove the lock another
+ * instance created right after removing it.
+ * @param serverUrlHash The hash of the server URL for lockfile identification
+ * @param lockfile The lockfile to remove
+ * @param expected The lock to remove, or null for an unreadable one
+ * @param pollInterval How long to wait while another instance removes a lock, in milliseconds
+ * @returns True if the lock was checked, false if another instance was removing a lock and this
+ *          should be retried
+ */
+async function removeLockIfUnchanged<T extends RefreshLockfileData>(
+  serverUrlHash: string,
+  lockfile: GuardedLockfile<T>,
+  expected: T | null,
+  pollInterval: number,
+): Promise<boolean> {
+  if (!(await createTakeoverLockfile(serverUrlHash, Deno.pid))) {
+    const takeover = await checkTakeoverLockfile(serverUrlHash);
+    if (takeover && Date.now() - takeover.timestamp > TAKEOVER_STALE_AFTER) {
+      log(`Removing abandoned takeover lock of process ${takeover.pid}`);
+      await deleteTakeoverLockfile(serverUrlHash);
+    } else {
+      await new Promise((resolve) => setTimeout(resolve, pollInterval));
+    }
+    return false;
+  }
+
+  try {
+    const current = await lockfile.check(serverUrlHash);
+    if (expected ? current && isSameLock(current, expected) : !current) {
+      await lockfile.remove(serverUrlHash);
+    }
+    return true;
+  } finally {
+    await deleteTakeoverLockfile(serverUrlHash);
+  }
+}
+
+/**
+ * Acquires the auth lock for the server, which makes this instance the one running the
+ * authorization.
+ *
+ * The lockfile is created exclusively, so of several instances starting at the same time exactly
+ * one acquires it. The others get the lock of that instance back once its callback server
+ * answers. A lock whose instance is gone is taken over.
+ *
+ * @param serverUrlHash The hash of the server URL for lockfile identification
+ * @param port The port of this instance's callback server
+ * @param host The address other instances reach the callback server on, if not 127.0.0.1
+ * @param options Options for acquiring the lock
+ * @returns null if this instance acquired the lock, otherwise the lock of the instance holding it
+ */
+export async function acquireAuthLock(
+  serverUrlHash: string,
+  port: number,
+  host?: string,
+  options: AuthLockOptions = {},
+): Promise<LockfileData | null> {
+  const pollInterval = options.pollInterval ?? 100;
+  const startupGrace = options.startupGrace ?? 5000;
+  const isValid = options.isLockValid ?? isLockValid;
+
+  let unreadableSince: number | undefined;
+  while (!(await createLockfile(serverUrlHash, Deno.pid, port, host))) {
+    const lockData = await checkLockfile(serverUrlHash);
+    if (!lockData) {
+      // Either released in the meantime, still being written or corrupted
+      unreadableSince ??= Date.now();
+      if (Date.now() - unreadableSince > startupGrace) {
+        log("Removing unreadable lockfile");
+        await removeLockIfUnchanged(
+          serverUrlHash,
+          AUTH_LOCKFILE,
+          null,
+          pollInterval,
+        );
+        unreadableSince = undefined;
+      } else {
+        await new Promise((resolve) => setTimeout(resolve, pollInterval));
+      }
+      continue;
+    }
+    unreadableSince = undefined;
+
+    if (await isValid(lockData)) {
+      return lockData;
+    }
+    // The lock is created before the callback server starts
+    if (Date.now() - lockData.timestamp < startupGrace) {
+      await new Promise((resolve) => setTimeout(resolve, pollInterval));
+      continue;
+    }
+
+    log("Found invalid lockfile, taking it over");
+    await removeLockIfUnchanged(
+      serverUrlHash,
+      AUTH_LOCKFILE,
+      lockData,
+      pollInterval,
+    );
+  }
+
+  return null;
+}
+
 /**
  * Coordinates authentication between multiple instances of the client/proxy
  * @param serverUrlHash The hash of the server URL for lockfile identification
  * @param callbackPort The port to use for the callback server
  * @param events The event emitter to use for signaling between components
+ * @param callbackPath The path of the OAuth callback endpoint
+ * @param callbackHost The host or IP address the callback server binds to
  * @returns An object with the HTTP server, waitForAuthCode function, and a flag indicating if browser auth can be skipped
  */
 export async function coordinateAuth(
   serverUrlHash: string,
   callbackPort: number,
   events: EventEmitter,
+  callbackPath = "/oauth/callback",
+  callbackHost = "127.0.0.1",
 ): Promise<
   {
     server: Server;
@@ -175,71 +368,67 @@ export async function coordinateAuth(
     skipBrowserAuth: boolean;
   }
 > {
-  // Check for a lockfile (disabled on Windows for the time being)
-  const lockData = Deno.build.os === "windows"
-    ? null
-    : await checkLockfile(serverUrlHash);
+  // Other instances connect to the loopback address when the server listens on all interfaces
+  const reachableHost = getReachableHost(callbackHost);
+  const lockHost = reachableHost === "127.0.0.1" ? undefined : reachableHost;
 
-  // If there's a valid lockfile, try to use the existing auth process
-  if (lockData && (await isLockValid(lockData))) {
+  log(
+    `Acquiring lockfile for server ${serverUrlHash} with process ${Deno.pid} on port ${callbackPort}`,
+  );
+  while (true) {
+    const lockData = await acquireAuthLock(
+      serverUrlHash,
+      callbackPort,
+      lockHost,
+    );
+    if (!lockData) {
+      break;
+    }
+
+    // If there's a valid lockfile, try to use the existing auth process
     log(`Another instance is handling authentication on port ${lockData.port}`);
+    if (await waitForAuthentication(lockData.port, lockData.host)) {
+      log("Authentication completed by another instance");
 
-    try {
-      // Try to wait for the authentication to complete
-      const authCompleted = await waitForAuthentication(lockData.port);
-      if (authCompleted) {
-        log("Authentication completed by another instance");
-
-        // Setup a dummy server - the client will use tokens directly from disk
-        const dummyServer = createServer().listen(0, "127.0.0.1"); // Listen on any available port on localhost only
-
-        // This shouldn't actually be called in normal operation, but provide it for API compatibility
-        const dummyWaitForAuthCode = () => {
-          log(
-            "WARNING: waitForAuthCode called in secondary instance - this is unexpected",
-          );
-          // Return a promise that never resolves - the client should use the tokens from disk instead
-          return new Promise<string>(() => {});
-        };
-
-        return {
-          server: dummyServer,
-          waitForAuthCode: dummyWaitForAuthCode,
-          skipBrowserAuth: true,
-        };
-      }
-      log("Taking over authentication process...");
-    } catch (error) {
-      log(`Error waiting for authentication: ${error}`);
+      // Setup a dummy server - the client will use tokens directly from disk
+      const dummyServer = createServer().listen(0, "127.0.0.1"); // Listen on any available port on localhost only
+
+      // This shouldn't actually be called in normal operation, but provide it for API compatibility
+      const dummyWaitForAuthCode = () => {
+        log(
+          "WARNING: waitForAuthCode called in secondary instance - this is unexpected",
+        );
+        // Return a promise that never resolves - the client should use the tokens from disk instead
+        return new Promise<string>(() => {});
+      };
+
+      return {
+        server: dummyServer,
+        waitForAuthCode: dummyWaitForAuthCode,
+        skipBrowserAuth: true,
+      };
     }
 
     // If we get here, the other process didn't complete auth successfully
-    await deleteLockfile(serverUrlHash);
-  } else if (lockData) {
-    // Invalid lockfile, delete its
-    log("Found invalid lockfile, deleting it");
-    await deleteLockfile(serverUrlHash);
+    log("Taking over authentication process...");
+    await removeLockIfUnchanged(serverUrlHash, AUTH_LOCKFILE, lockData, 100);
   }
 
-  // Create our own lockfile
+  // We hold the lock, so no other instance starts a callback server for this server
   const { server, waitForAuthCode, authCompletedPromise: _ } =
     setupOAuthCallbackServerWithLongPoll({
       port: callbackPort,
-      path: "/oauth/callback",
+      host: callbackHost,
+      path: callbackPath,
       events,
+      expectedState: () => readTextFile(serverUrlHash, "state.txt"),
     });
-
-  // Get the actual port the server is running on
-  const address = server.address() as AddressInfo;
-  const actualPort = address.port;
-
-  log(
-    `Creating lockfile for server ${serverUrlHash} with process ${Deno.pid} on port ${actualPort}`,
-  );
-  await createLockfile(serverUrlHash, Deno.pid, actualPort);
+  // Waiting instances take the lock over once the heartbeat stops
+  const stopHeartbeat = startLockHeartbeat(serverUrlHash, callbackPort);
 
   // Make sure lockfile is deleted on process exit
   const cleanupHandler = async () => {
+    stopHeartbeat();
     try {
       log(`Cleaning up lockfile for server ${serverUrlHash}`);
       await deleteLockfile(serverUrlHash);
@@ -278,3 +467,94 @@ export async function coordinateAuth(
     skipBrowserAuth: false,
   };
 }
+
+/**
+ * Options for acquiring the refresh lock
+ */
+export interface RefreshLockOptions {
+  /** How often to check whether the lock was released, in milliseconds (default: 200) */
+  pollInterval?: number;
+  /** Age after which a lock is considered abandoned, in milliseconds (default: 30000) */
+  staleAfter?: number;
+}
+
+/**
+ * Runs a token refresh while holding the refresh lock for the server, so that instances
+ * sharing the same credentials never use the same refresh token concurrently.
+ *
+ * If another instance holds the lock, this waits until it is released. The callback should
+ * therefore re-read the stored tokens and skip the refresh if they have changed in the meantime.
+ *
+ * @param serverUrlHash The hash of the server URL for lockfile identification
+ * @param refresh The function performing the refresh
+ * @param options Options for acquiring the lock
+ * @returns The result of the refresh function
+ */
+export async function withRefreshLock<T>(
+  serverUrlHash: string,
+  refresh: () => Promise<T>,
+  options: RefreshLockOptions = {},
+): Promise<T> {
+  const pollInterval = options.pollInterval ?? 200;
+  const staleAfter = options.staleAfter ?? 30_000;
+
+  let waiting = false;
+  let unreadableSince: number | undefined;
+  let lock: RefreshLockfileData | null;
+  while (!(lock = await createRefreshLockfile(serverUrlHash, Deno.pid))) {
+    const lockData = await checkRefreshLockfile(serverUrlHash);
+    if (!lockData) {
+      // Either released in the meantime, still being written or corrupted
+      unreadableSince ??= Date.now();
+      if (Date.now() - unreadableSince > staleAfter) {
+        log("Removing unreadable refresh lock");
+        await removeLockIfUnchanged(
+          serverUrlHash,
+          REFRESH_LOCKFILE,
+          null,
+          pollInterval,
+        );
+        unreadableSince = undefined;
+      } else {
+        await new Promise((resolve) => setTimeout(resolve, pollInterval));
+      }
+      continue;
+    }
+    unreadableSince = undefined;
+
+    // Refreshes take a few seconds at most, so an old lock belongs to a process that died while
+    // holding it (PID probing needs --allow-run, which the proxy doesn't have)
+    if (Date.now() - lockData.timestamp > staleAfter) {
+      log(`Removing abandoned refresh lock of process ${lockData.pid}`);
+      await removeLockIfUnchanged(
+        serverUrlHash,
+        REFRESH_LOCKFILE,
+        lockData,
+        pollInterval,
+      );
+      continue;
+    }
+
+    if (!waiting) {
+      log(
+        `Process ${lockData.pid} is refreshing the tokens, waiting for it to finish`,
+      );
+      waiting = true;
+    }
+    await new Promise((resolve) => setTimeout(resolve, pollInterval));
+  }
+
+  try {
+    return await refresh();
+  } finally {
+    // A refresh outlasting staleAfter may have lost the lock, which then belongs to another process
+    while (
+      !(await removeLockIfUnchanged(
+        serverUrlHash,
+        REFRESH_LOCKFILE,
+        lock,
+        pollInterval,
+      ))
+    );
+  }
+}
@@ -0,0 +1,281 @@
+/**
+ * This module manages the credentials stored in the config directory, for the `auth` command.
+ *
+ * The files are named after a hash of the server URL, so the URL is also stored in a server.json
+ * file when the tokens are first saved. Credentials stored before that only show up by their hash.
+ * Named profiles are stored under the hash followed by `@<profile>`, and one of them can be selected
+ * as the active profile of a server, which is used when no profile is given on the command line.
+ *
+ * @example
+ * ```ts
+ * import { CredentialManager } from "@mmizutani/mcp-remote-deno/lib/credential-manager";
+ *
+ * const manager = new CredentialManager();
+ * for (const server of await manager.list()) {
+ *   console.log(server.serverUrl ?? server.serverUrlHash, server.expiresAt);
+ * }
+ *
+ * // Revoke the tokens at the authorization server and delete them
+ * await manager.revoke(getServerUrlHash("https://remote.mcp.server.example.com/mcp"));
+ * ```
+ *
+ * @module
+ */
+
+import { discoverOAuthMetadata } from "@modelcontextprotocol/sdk/client/auth.js";
+import {
+  type OAuthClientInformation,
+  OAuthClientInformationSchema,
+} from "@modelcontextprotocol/sdk/shared/auth.js";
+import * as mcpAuth from "./mcp-auth-config.ts";
+import {
+  type StoredOAuthTokens,
+  StoredOAuthTokensSchema,
+} from "./node-oauth-client-provider.ts";
+import { revokeToken } from "./oauth-requests.ts";
+import {
+  DEFAULT_PROFILE,
+  getServerUrlHash,
+  PROFILE_NAME_PATTERN,
+} from "./utils.ts";
+
+/**
+ * Credentials stored for a server
+ */
+export interface StoredServer {
+  /** The hash of the server URL that prefixes the files, followed by `@<profile>` for named profiles */
+  serverUrlHash: string;
+  /** The named profile, undefined for the default profile */
+  profile?: string;
+  /** The server URL, unknown for credentials stored by older versions */
+  serverUrl?: string;
+  /** The registered client */
+  clientInformation?: OAuthClientInformation;
+  /** The stored tokens */
+  tokens?: StoredOAuthTokens;
+  /** Time the access token expires, in milliseconds since the epoch */
+  expiresAt?: number;
+}
+
+/**
+ * Interface defining the dependencies for CredentialManager,
+ * allowing for injection during testing.
+ */
+export interface CredentialManagerDeps {
+  listServerUrlHashes: typeof mcpAuth.listServerUrlHashes;
+  readJsonFile: typeof mcpAuth.readJsonFile;
+  deleteCredentialFiles: typeof mcpAuth.deleteCredentialFiles;
+  readActiveProfile: typeof mcpAuth.readActiveProfile;
+  writeActiveProfile: typeof mcpAuth.writeActiveProfile;
+  discoverOAuthMetadata: typeof discoverOAuthMetadata;
+  revokeToken: typeof revokeToken;
+}
+
+/**
+ * Schema for server.json
+ */
+const StoredServerUrlSchema = {
+  parseAsync(data: unknown): { serverUrl: string } | null {
+    const serverUrl = (data as { serverUrl?: unknown } | null)?.serverUrl;
+    return typeof serverUrl === "string" ? { serverUrl } : null;
+  },
+};
+
+/**
+ * Lists, inspects, deletes and revokes the stored credentials
+ */
+export class CredentialManager {
+  private deps: CredentialManagerDeps;
+
+  /**
+   * Creates a new CredentialManager
+   * @param deps Optional dependencies for testing
+   */
+  constructor(deps?: Partial<CredentialManagerDeps>) {
+    this.deps = {
+      listServerUrlHashes: deps?.listServerUrlHashes ??
+        mcpAuth.listServerUrlHashes,
+      readJsonFile: deps?.readJsonFile ?? mcpAuth.readJsonFile,
+      deleteCredentialFiles: deps?.deleteCredentialFiles ??
+        mcpAuth.deleteCredentialFiles,
+      readActiveProfile: deps?.readActiveProfile ?? mcpAuth.readActiveProfile,
+      writeActiveProfile: deps?.writeActiveProfile ??
+        mcpAuth.writeActiveProfile,
+      discoverOAuthMetadata: deps?.discoverOAuthMetadata ??
+        discoverOAuthMetadata,
+      revokeToken: deps?.revokeToken ?? revokeToken,
+    };
+  }
+
+  /**
+   * Lists the servers with stored credentials
+   * @returns The stored credentials of each server
+   */
+  async list(): Promise<StoredServer[]> {
+    const servers: StoredServer[] = [];
+    for (const serverUrlHash of await this.deps.listServerUrlHashes()) {
+      const server = await this.inspect(serverUrlHash);
+      // Skip servers that only have lockfiles left
+      if (server.serverUrl || server.clientInformation || server.tokens) {
+        servers.push(server);
+      }
+    }
+    return servers;
+  }
+
+  /**
+   * Reads the stored credentials of a server
+   * @param serverUrlHash The hash of the server URL
+   * @returns The stored credentials
+   */
+  async inspect(serverUrlHash: string): Promise<StoredServer> {
+    const [server, clientInformation, tokens] = await Promise.all([
+      this.deps.readJsonFile(
+        serverUrlHash,
+        "server.json",
+        StoredServerUrlSchema,
+      ),
+      this.deps.readJsonFile(
+        serverUrlHash,
+        "client_info.json",
+        OAuthClientInformationSchema,
+      ),
+      this.deps.readJsonFile(
+        serverUrlHash,
+        "tokens.json",
+        StoredOAuthTokensSchema,
+      ),
+    ]);
+
+    return {
+      serverUrlHash,
+      profile: serverUrlHash.split("@")[1],
+      serverUrl: server?.serverUrl,
+      clientInformation,
+      tokens,
+      expiresAt:
+        tokens?.issued_at !== undefined && tokens.expires_in !== undefined
+          ? tokens.issued_at + tokens.expires_in * 1000
+          : undefined,
+    };
+  }
+
+  /**
+   * Lists the profiles with stored credentials for a server
+   * @param serverUrlHash The hash of the server URL, a profile is ignored
+   * @returns The stored credentials of each profile, the default profile first
+   */
+  async listProfiles(serverUrlHash: string): Promise<StoredServer[]> {
+    const hash = serverUrlHash.split("@")[0];
+    return (await this.list()).filter((server) =>
+      server.serverUrlHash.split("@")[0] === hash
+    );
+  }
+
+  /**
+   * Gets the profile used for a server when none is given on the command line
+   * @param serverUrlHash The hash of the server URL, a profile is ignored
+   * @returns The name of the active profile
+   */
+  async getActiveProfile(serverUrlHash: string): Promise<string> {
+    return await this.deps.readActiveProfile(serverUrlHash.split("@")[0]) ??
+      DEFAULT_PROFILE;
+  }
+
+  /**
+   * Selects the profile used for a server when none is given on the command line
+   * @param serverUrlHash The hash of the server URL, a profile is ignored
+   * @param profile The name of the profile
+   * @throws Error if the profile name is invalid
+   */
+  async useProfile(serverUrlHash: string, profile: string): Promise<void> {
+    if (!PROFILE_NAME_PATTERN.test(profile)) {
+      throw new Error(`Invalid profile name: ${profile}`);
+    }
+    await this.deps.writeActiveProfile(
+      serverUrlHash.split("@")[0],
+      profile === DEFAULT_PROFILE ? undefined : profile,
+    );
+  }
+
+  /**
+   * Deletes the stored credentials of a server
+   * @param serverUrlHash The hash of the server URL
+   */
+  async logout(serverUrlHash: string): Promise<void> {
+    await this.deps.deleteCredentialFiles(serverUrlHash);
+  }
+
+  /**
+   * Revokes the stored tokens at the authorization server (RFC 7009), then deletes the credentials.
+   * The credentials are kept if the revocation fails, so that it can be retried.
+   * @param serverUrlHash The hash of the server URL
+   * @param client The client the tokens were issued to, for pre-registered clients whose
+   * information is not stored with the tokens
+   * @throws Error if there is nothing to revoke or the revocation fails
+   */
+  async revoke(
+    serverUrlHash: string,
+    client?: OAuthClientInformation,
+  ): Promise<void> {
+    const { serverUrl, clientInformation = client, tokens } = await this
+      .inspect(serverUrlHash);
+    if (!tokens) {
+      throw new Error("No tokens are stored for this server");
+    }
+    if (!serverUrl) {
+      throw new Error(
+        "The server URL of these credentials is unknown, so they can only be deleted with logout",
+      );
+    }
+    if (!clientInformation) {
+      throw new Error(
+        "No client information is stored for this server, pass the pre-registered client with --static-oauth-client-info or --client-id",
+      );
+    }
+
+    const metadata = await this.deps.discoverOAuthMetadata(serverUrl);
+    // Revoking the refresh token usually invalidates the access tokens issued with it too
+    if (tokens.refresh_token) {
+      await this.deps.revokeToken({
+        metadata,
+        clientInformation,
+        token: tokens.refresh_token,
+        tokenTypeHint: "refresh_token",
+      });
+    }
+    await this.deps.revokeToken({
+      metadata,
+      clientInformation,
+      token: tokens.access_token,
+      tokenTypeHint: "access_token",
+    });
+
+    await this.logout(serverUrlHash);
+  }
+}
+
+/**
+ * Resolves the server given on the command line to the hash its files are stored under
+ * @param value A server URL or the hash shown by `auth list`
+ * @param profile The named profile, overriding a profile in the hash
+ * @returns The hash of the server URL, followed by `@<profile>` for named profiles
+ * @throws Error if the value is neither a URL nor a hash, or the profile name is invalid
+ */
+export function resolveServerUrlHash(value: string, profile?: string): string {
+  if (profile !== undefined && !PROFILE_NAME_PATTERN.test(profile)) {
+    throw new Error(`Invalid profile name: ${profile}`);
+  }
+
+  const match = value.match(/^([0-9a-f]{32})(?:@([A-Za-z0-9.-]+))?$/);
+  if (match) {
+    const name = profile ?? match[2];
+    return name && name !== DEFAULT_PROFILE ? `${match[1]}@${name}` : match[1];
+  }
+  try {
+    new URL(value);
+  } catch {
+    throw new Error(`Expected a server URL or hash, got: ${value}`);
+  }
+  return getServerUrlHash(value, profile);
+}
@@ -0,0 +1,290 @@
+/**
+ * This module implements the storage backends for the files in the config directory.
+ *
+ * By default credentials are stored as plain text, readable by anyone who can read the user's
+ * home directory. When the MCP_REMOTE_STORAGE_PASSPHRASE env var is set, or MCP_REMOTE_STORAGE_KEY_FILE
+ * points to a file holding a secret key, they are encrypted with AES-GCM instead, using a key derived
+ * from the passphrase or key file with PBKDF2. The name of each file is authenticated along with its
+ * content, so encrypted files can't be swapped for each other, e.g. tokens for client information.
+ *
+ * Files written before encryption was enabled are encrypted when they are first read. Lock files and
+ * the active profile hold no secrets and are always written as plain text, bypassing this storage.
+ *
+ * @example
+ * ```ts
+ * import { EncryptedFileStorage } from "@mmizutani/mcp-remote-deno/lib/credential-storage";
+ * import { setCredentialStorage } from "@mmizutani/mcp-remote-deno/lib/mcp-auth-config";
+ *
+ * // Encrypt all credentials written from now on
+ * setCredentialStorage(new EncryptedFileStorage(Deno.env.get("MY_SECRET")!));
+ * ```
+ *
+ * @module
+ */
+
+import path from "node:path";
+import { log } from "./utils.ts";
+
+/**
+ * Storage backend for the credential files
+ */
+export interface CredentialStorage {
+  /**
+   * Reads the content of a file
+   * @param filePath The absolute path of the file
+   * @returns The content of the file
+   * @throws Deno.errors.NotFound if the file doesn't exist
+   */
+  read(filePath: string): Promise<string>;
+  /**
+   * Writes the content of a file, replacing it if it exists
+   * @param filePath The absolute path of the file
+   * @param content The content to write
+   */
+  write(filePath: string, content: string): Promise<void>;
+}
+
+/**
+ * Stores files as plain text
+ */
+export class PlaintextFileStorage implements CredentialStorage {
+  read(filePath: string): Promise<string> {
+    return Deno.readTextFile(filePath);
+  }
+
+  write(filePath: string, content: string): Promise<void> {
+    return Deno.writeTextFile(filePath, content);
+  }
+}
+
+/**
+ * Format of an encrypted file
+ */
+interface EncryptedFile {
+  encrypted: "AES-GCM";
+  kdf: "PBKDF2-SHA256";
+  iterations: number;
+  salt: string;
+  iv: string;
+  data: string;
+}
+
+/**
+ * Encrypts files with AES-GCM before handing them to another storage backend
+ */
+export class EncryptedFileStorage implements CredentialStorage {
+  private secret: Uint8Array<ArrayBuffer>;
+  private keys = new Map<string, Promise<CryptoKey>>();
+  // Deriving a key is deliberately slow, so everything this process writes uses the same salt
+  private salt = crypto.getRandomValues(new Uint8Array(16));
+
+  /**
+   * Creates a new EncryptedFileStorage
+   * @param secret The passphrase or key to derive the encryption key from
+   * @param storage The storage backend for the encrypted files
+   * @param iterations The number of PBKDF2 iterations used for files written by this instance
+   */
+  constructor(
+    secret: string | Uint8Array,
+    private storage: CredentialStorage = new PlaintextFileStorage(),
+    private iterations = 600_000,
+  ) {
+    this.secret = typeof secret === "string"
+      ? new TextEncoder().encode(secret)
+      : new Uint8Array(secret);
+    if (this.secret.length === 0) {
+      throw new Error("The credential encryption key must not be empty");
+    }
+  }
+
+  async read(filePath: string): Promise<string> {
+    const content = await this.storage.read(filePath);
+    const file = parseEncryptedFile(content);
+    if (!file) {
+      // Don't leave credentials in cleartext once encryption is enabled
+      await this.write(filePath, content).then(
+        () => log(`Encrypted ${path.basename(filePath)}`),
+        (error) =>
+          log(
+            `Warning: ${
+              path.basename(filePath)
+            } is not encrypted and could not be encrypted:`,
+            error,
+          ),
+      );
+      return content;
+    }
+
+    const key = await this.deriveKey(decodeBase64(file.salt), file.iterations);
+    try {
+      const data = await crypto.subtle.decrypt(
+        {
+          name: "AES-GCM",
+          iv: decodeBase64(file.iv),
+          additionalData: additionalData(filePath),
+        },
+        key,
+        decodeBase64(file.data),
+      );
+      return new TextDecoder().decode(data);
+    } catch {
+      throw new Error(
+        `Could not decrypt ${
+          path.basename(filePath)
+        }, it was encrypted with a different key or for another file`,
+      );
+    }
+  }
+
+  async write(filePath: string, content: string): Promise<void> {
+    const key = await this.deriveKey(this.salt, this.iterations);
+    // AES-GCM must never reuse an IV with the same key
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv, additionalData: additionalData(filePath) },
+      key,
+      new TextEncoder().encode(content),
+    );
+
+    const file: EncryptedFile = {
+      encrypted: "AES-GCM",
+      kdf: "PBKDF2-SHA256",
+      iterations: this.iterations,
+      salt: encodeBase64(this.salt),
+      iv: encodeBase64(iv),
+      data: encodeBase64(new Uint8Array(data)),
+    };
+    await this.storage.write(filePath, JSON.stringify(file, null, 2));
+  }
+
+  /**
+   * Derives the encryption key for a salt, reusing keys that were already derived
+   * @param salt The PBKDF2 salt
+   * @param iterations The number of PBKDF2 iterations
+   * @returns The AES-GCM key
+   */
+  private deriveKey(
+    salt: Uint8Array<ArrayBuffer>,
+    iterations: number,
+  ): Promise<CryptoKey> {
+    const cacheKey = `${encodeBase64(salt)}:${iterations}`;
+    let key = this.keys.get(cacheKey);
+    if (!key) {
+      key = crypto.subtle.importKey(
+        "raw",
+        this.secret,
+        "PBKDF2",
+        false,
+        ["deriveKey"],
+      ).then((baseKey) =>
+        crypto.subtle.deriveKey(
+          { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+          baseKey,
+          { name: "AES-GCM", length: 256 },
+          false,
+          ["encrypt", "decrypt"],
+        )
+      );
+      this.keys.set(cacheKey, key);
+    }
+    return key;
+  }
+}
+
+/**
+ * Creates the storage backend configured with the MCP_REMOTE_STORAGE_PASSPHRASE or
+ * MCP_REMOTE_STORAGE_KEY_FILE env vars
+ * @returns The encrypted storage if a passphrase or key file is configured, the plaintext storage otherwise
+ * @throws Error if both are set or the key file can't be read
+ */
+export async function createCredentialStorage(): Promise<CredentialStorage> {
+  const passphrase = Deno.env.get("MCP_REMOTE_STORAGE_PASSPHRASE");
+  const keyFile = Deno.env.get("MCP_REMOTE_STORAGE_KEY_FILE");
+
+  if (passphrase && keyFile) {
+    throw new Error(
+      "Set either MCP_REMOTE_STORAGE_PASSPHRASE or MCP_REMOTE_STORAGE_KEY_FILE, not both",
+    );
+  }
+  if (passphrase) {
+    return new EncryptedFileStorage(passphrase);
+  }
+  if (keyFile) {
+    let key: Uint8Array<ArrayBuffer>;
+    try {
+      key = await Deno.readFile(keyFile);
+    } catch (error) {
+      throw new Error(
+        `Could not read MCP_REMOTE_STORAGE_KEY_FILE ${keyFile}: ${
+          (error as Error).message
+        }`,
+      );
+    }
+    // Editors tend to add a trailing newline, which shouldn't change the key
+    let end = key.length;
+    while (end > 0 && (key[end - 1] === 0x0a || key[end - 1] === 0x0d)) {
+      end--;
+    }
+    return new EncryptedFileStorage(key.subarray(0, end));
+  }
+  return new PlaintextFileStorage();
+}
+
+/**
+ * Parses the content of a file written by EncryptedFileStorage
+ * @param content The file content
+ * @returns The encrypted file, or undefined if the content is not encrypted
+ */
+function parseEncryptedFile(content: string): EncryptedFile | undefined {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    return undefined;
+  }
+  if (
+    typeof data !== "object" || data === null ||
+    (data as EncryptedFile).encrypted !== "AES-GCM"
+  ) {
+    return undefined;
+  }
+
+  const file = data as EncryptedFile;
+  if (
+    file.kdf !== "PBKDF2-SHA256" ||
+    typeof file.iterations !== "number" ||
+    typeof file.salt !== "string" ||
+    typeof file.iv !== "string" ||
+    typeof file.data !== "string"
+  ) {
+    throw new Error("Unsupported encrypted credential file format");
+  }
+  return file;
+}
+
+/**
+ * Gets the additional authenticated data binding an encrypted file to its name
+ * @param filePath The path of the file
+ * @returns The name of the file, encoded
+ */
+function additionalData(filePath: string): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(path.basename(filePath));
+}
+
+/**
+ * Encodes bytes as base64
+ * @param bytes The bytes to encode
+ * @returns The base64 string
+ */
+function encodeBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+/**
+ * Decodes a base64 string
+ * @param value The base64 string
+ * @returns The decoded bytes
+ */
+function decodeBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
@@ -11,6 +11,11 @@ interface RequestLike {
   path: string;
 }
 
+/**
+ * Handler working directly on the Fetch API Request/Response objects
+ */
+export type RawRouteHandler = (req: Request) => Promise<Response> | Response;
+
 /**
  * A simple HTTP server using Deno's native HTTP server capabilities
  * that mimics the Express API for our specific use case
@@ -19,6 +24,7 @@ export class DenoHttpServer {
   private server: Deno.HttpServer | null = null;
   private routes: Map<string, (req: Request) => Promise<Response> | Response> =
     new Map();
+  private methodRoutes: Map<string, RawRouteHandler> = new Map();
 
   /**
    * Register a GET route handler
@@ -53,6 +59,18 @@ export class DenoHttpServer {
     });
   }
 
+  /**
+   * Register a route handler for a specific HTTP method that works on the raw
+   * Request and returns a Response. Needed for streaming responses and request bodies.
+   * Method routes take precedence over GET routes registered with get()
+   * @param method The HTTP method to handle (e.g. "POST")
+   * @param path The path to handle
+   * @param handler The handler function
+   */
+  route(method: string, path: string, handler: RawRouteHandler): void {
+    this.methodRoutes.set(`${method.toUpperCase()} ${path}`, handler);
+  }
+
   /**
    * Start the server listening on the specified port
    * @param port The port to listen on
@@ -84,6 +102,12 @@ export class DenoHttpServer {
         const path = url.pathname;
 
         // Find the route handler
+        const methodHandler = this.methodRoutes.get(
+          `${request.method} ${path}`,
+        );
+        if (methodHandler) {
+          return await methodHandler(request);
+        }
         const handler = this.routes.get(path);
         if (handler) {
           return await handler(request);
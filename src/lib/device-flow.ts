@@ -0,0 +1,320 @@
+/**
+ * This module implements the OAuth 2.0 Device Authorization Grant (RFC 8628) for terminals
+ * without a browser, such as SSH sessions and containers.
+ *
+ * Instead of redirecting to a local callback server, the user is shown a verification URI and a
+ * short user code to enter on any other device. Meanwhile the token endpoint is polled until the
+ * user has approved (or denied) the request, and the resulting tokens are stored like those of
+ * the regular authorization code flow.
+ *
+ * @example
+ * ```ts
+ * import { DeviceAuthorizationProvider } from "@mmizutani/mcp-remote-deno/lib/device-flow";
+ *
+ * const authProvider = new DeviceAuthorizationProvider({
+ *   serverUrl: "https://remote.mcp.server.example.com/mcp",
+ *   callbackPort: 3334,
+ * });
+ *
+ * // redirectToAuthorization() prints the user code, this resolves once the user approved it
+ * const transport = await connectToRemoteServer(
+ *   serverUrl,
+ *   authProvider,
+ *   headers,
+ *   () => authProvider.waitForAuthorization(),
+ * );
+ * ```
+ *
+ * @module
+ */
+
+import type {
+  OAuthClientInformation,
+  OAuthMetadata,
+  OAuthTokens,
+} from "@modelcontextprotocol/sdk/shared/auth.js";
+import {
+  NodeOAuthClientProvider,
+  type NodeOAuthClientProviderDeps,
+} from "./node-oauth-client-provider.ts";
+import {
+  addOAuthRequestParams,
+  type OAuthRequestParams,
+  OAuthTokenError,
+  requestTokens,
+} from "./oauth-requests.ts";
+import type { OAuthProviderOptions } from "./types.ts";
+
+/**
+ * Grant type of the device authorization grant
+ */
+export const DEVICE_CODE_GRANT_TYPE =
+  "urn:ietf:params:oauth:grant-type:device_code";
+
+/**
+ * Device authorization response (RFC 8628 section 3.2)
+ */
+export interface DeviceAuthorizationResponse {
+  device_code: string;
+  user_code: string;
+  verification_uri: string;
+  verification_uri_complete?: string;
+  expires_in: number;
+  interval?: number;
+}
+
+/**
+ * Requests a device code and user code from the authorization server
+ * @param serverUrl The URL of the MCP server
+ * @param options The authorization server metadata, the client to authorize and the scope and resource to request
+ * @returns The device authorization response
+ * @throws Error if the authorization server doesn't advertise a device authorization endpoint
+ */
+export async function requestDeviceAuthorization(
+  serverUrl: string | URL,
+  { metadata, clientInformation, scope, resource }: {
+    metadata?: OAuthMetadata;
+    clientInformation: OAuthClientInformation;
+  } & OAuthRequestParams,
+): Promise<DeviceAuthorizationResponse> {
+  // RFC 8628 defines no default location to fall back to
+  const endpoint = metadata?.device_authorization_endpoint;
+  if (typeof endpoint !== "string") {
+    throw new Error(
+      `The authorization server of ${serverUrl} doesn't support the device authorization grant (no device_authorization_endpoint in its metadata), use --auth-flow browser instead`,
+    );
+  }
+
+  const params = new URLSearchParams({
+    client_id: clientInformation.client_id,
+  });
+  if (clientInformation.client_secret) {
+    params.set("client_secret", clientInformation.client_secret);
+  }
+  addOAuthRequestParams(params, { scope, resource });
+
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: params,
+  });
+  if (!response.ok) {
+    throw new Error(
+      `Device authorization request failed: HTTP ${response.status}`,
+    );
+  }
+
+  const data = await response.json();
+  if (
+    typeof data.device_code !== "string" ||
+    typeof data.user_code !== "string" ||
+    typeof data.verification_uri !== "string"
+  ) {
+    throw new Error("Invalid device authorization response");
+  }
+  return {
+    device_code: data.device_code,
+    user_code: data.user_code,
+    verification_uri: data.verification_uri,
+    verification_uri_complete: data.verification_uri_complete,
+    expires_in: typeof data.expires_in === "number" ? data.expires_in : 600,
+    interval: typeof data.interval === "number" ? data.interval : undefined,
+  };
+}
+
+/**
+ * Polls the token endpoint until the user has approved or denied the device authorization
+ * @param serverUrl The URL of the MCP server
+ * @param options The authorization server metadata, the client, the device authorization and the resource
+ * @param sleep Function used to wait between polls (for testing)
+ * @returns The issued tokens
+ * @throws Error if the user denied the request or the device code expired
+ */
+export async function pollDeviceToken(
+  serverUrl: string | URL,
+  { metadata, clientInformation, deviceAuthorization, resource }: {
+    metadata?: OAuthMetadata;
+    clientInformation: OAuthClientInformation;
+    deviceAuthorization: DeviceAuthorizationResponse;
+    resource?: string;
+  },
+  sleep: (ms: number) => Promise<void> = (ms) =>
+    new Promise((resolve) => setTimeout(resolve, ms)),
+): Promise<OAuthTokens> {
+  const params = new URLSearchParams({
+    grant_type: DEVICE_CODE_GRANT_TYPE,
+    device_code: deviceAuthorization.device_code,
+    client_id: clientInformation.client_id,
+  });
+  addOAuthRequestParams(params, { resource });
+
+  // The server tells us how often we may poll, 5 seconds is the default from the RFC
+  let interval = (deviceAuthorization.interval ?? 5) * 1000;
+  const deadline = Date.now() + deviceAuthorization.expires_in * 1000;
+
+  while (Date.now() < deadline) {
+    await sleep(interval);
+
+    try {
+      return await requestTokens(
+        serverUrl,
+        metadata,
+        clientInformation,
+        params,
+        "Device token request",
+      );
+    } catch (error) {
+      if (!(error instanceof OAuthTokenError)) {
+        throw error;
+      }
+      switch (error.code) {
+        case "authorization_pending":
+          continue;
+        case "slow_down":
+          interval += 5000;
+          continue;
+        case "access_denied":
+          throw new Error("Device authorization was denied by the user");
+        case "expired_token":
+          throw new Error("Device code expired before it was approved");
+        default:
+          throw new Error(
+            `Device token request failed: ${
+              error.description ?? error.code ?? `HTTP ${error.status}`
+            }`,
+          );
+      }
+    }
+  }
+  throw new Error("Device code expired before it was approved");
+}
+
+/**
+ * Checks whether a graphical display is likely available to open a browser on
+ * @returns False when running without a display server on Linux or in an SSH session
+ */
+export function isDisplayAvailable(): boolean {
+  // Only look at variables we may read, checking would otherwise prompt or fail
+  const readEnv = (variable: string) =>
+    Deno.permissions.querySync({ name: "env", variable }).state === "granted"
+      ? Deno.env.get(variable)
+      : undefined;
+
+  if (readEnv("SSH_CONNECTION") || readEnv("SSH_TTY")) {
+    return false;
+  }
+  if (Deno.build.os === "linux") {
+    const canCheck = ["DISPLAY", "WAYLAND_DISPLAY"].every((variable) =>
+      Deno.permissions.querySync({ name: "env", variable }).state === "granted"
+    );
+    // Without permission to check, assume the regular browser flow works
+    return !canCheck || !!(readEnv("DISPLAY") || readEnv("WAYLAND_DISPLAY"));
+  }
+  return true;
+}
+
+/**
+ * Interface defining the additional dependencies for DeviceAuthorizationProvider,
+ * allowing for injection during testing.
+ */
+export interface DeviceAuthorizationProviderDeps
+  extends NodeOAuthClientProviderDeps {
+  requestDeviceAuthorization: typeof requestDeviceAuthorization;
+  pollDeviceToken: typeof pollDeviceToken;
+}
+
+/**
+ * OAuth client provider that authorizes with the device authorization grant instead of a
+ * browser redirect. Credentials are stored and shared exactly like NodeOAuthClientProvider does.
+ */
+export class DeviceAuthorizationProvider extends NodeOAuthClientProvider {
+  private deviceDeps: Pick<
+    DeviceAuthorizationProviderDeps,
+    "requestDeviceAuthorization" | "pollDeviceToken"
+  >;
+  private pendingAuthorization: Promise<void> | undefined;
+
+  /**
+   * Creates a new DeviceAuthorizationProvider
+   * @param options Configuration options for the provider
+   * @param deps Optional dependencies for testing
+   */
+  constructor(
+    options: OAuthProviderOptions,
+    deps?: Partial<DeviceAuthorizationProviderDeps>,
+  ) {
+    super(options, deps);
+    this.deviceDeps = {
+      requestDeviceAuthorization: deps?.requestDeviceAuthorization ??
+        requestDeviceAuthorization,
+      pollDeviceToken: deps?.pollDeviceToken ?? pollDeviceToken,
+    };
+  }
+
+  override get clientMetadata() {
+    const metadata = super.clientMetadata;
+    return {
+      ...metadata,
+      grant_types: [...metadata.grant_types, DEVICE_CODE_GRANT_TYPE],
+    };
+  }
+
+  /**
+   * Starts the device authorization instead of opening the authorization URL.
+   * Prints the verification URI and user code, and polls for the tokens in the background.
+   */
+  override async redirectToAuthorization(): Promise<void> {
+    const clientInformation = await this.clientInformation();
+    if (!clientInformation) {
+      throw new Error("Client must be registered before device authorization");
+    }
+
+    const serverUrl = this.options.serverUrl;
+    const metadata = await this.deps.discoverOAuthMetadata(serverUrl);
+    const deviceAuthorization = await this.deviceDeps
+      .requestDeviceAuthorization(serverUrl, {
+        metadata,
+        clientInformation,
+        ...this.requestParams,
+      });
+
+    this.deps.log(
+      `\nTo authorize this client, visit:\n${deviceAuthorization.verification_uri}\n\nand enter the code: ${deviceAuthorization.user_code}\n`,
+    );
+    if (deviceAuthorization.verification_uri_complete) {
+      this.deps.log(
+        `Or open this URL to skip entering the code:\n${deviceAuthorization.verification_uri_complete}\n`,
+      );
+    }
+
+    this.pendingAuthorization = this.deviceDeps.pollDeviceToken(serverUrl, {
+      metadata,
+      clientInformation,
+      deviceAuthorization,
+      resource: this.options.resource,
+    }).then(async (tokens) => {
+      await this.saveTokens(tokens);
+      this.deps.log("Device authorization completed");
+    });
+    // Avoid an unhandled rejection, the error is reported by waitForAuthorization()
+    this.pendingAuthorization.catch(() => {});
+  }
+
+  /**
+   * Waits until the user has approved the device authorization and the tokens are stored
+   * @returns null, since the device flow doesn't produce an authorization code to exchange
+   */
+  async waitForAuthorization(): Promise<null> {
+    if (!this.pendingAuthorization) {
+      throw new Error("No device authorization in progress");
+    }
+    try {
+      await this.pendingAuthorization;
+    } finally {
+      this.pendingAuthorization = undefined;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,447 @@
+/**
+ * This module implements the server side of the MCP HTTP transports on top of the Fetch API
+ * Request/Response objects used by Deno's HTTP server.
+ *
+ * Each transport instance represents a single session with one remote client:
+ * - SSEServerSessionTransport implements the legacy HTTP+SSE transport (a GET request opens the
+ *   event stream and announces the endpoint that the client POSTs its messages to)
+ * - StreamableHTTPServerSessionTransport implements the Streamable HTTP transport (a single
+ *   endpoint that accepts POSTed messages, an optional GET event stream for server-initiated
+ *   messages, and DELETE to end the session)
+ *
+ * validateRequestOrigin keeps web pages open in the user's browser from using the sessions.
+ *
+ * @example
+ * ```ts
+ * import { SSEServerSessionTransport } from "@mmizutani/mcp-remote-deno/lib/http-server-transports";
+ *
+ * app.route("GET", "/sse", async () => {
+ *   const transport = new SSEServerSessionTransport("/messages");
+ *   sessions.set(transport.sessionId, transport);
+ *   mcpProxy({ transportToClient: transport, transportToServer: localServer });
+ *   return transport.createResponse();
+ * });
+ *
+ * app.route("POST", "/messages", (req) => {
+ *   const sessionId = new URL(req.url).searchParams.get("sessionId") ?? "";
+ *   return sessions.get(sessionId)?.handlePostMessage(req) ??
+ *     new Response("Session not found", { status: 404 });
+ * });
+ * ```
+ *
+ * @module
+ */
+
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  isJSONRPCError,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  type JSONRPCMessage,
+  JSONRPCMessageSchema,
+  type RequestId,
+} from "@modelcontextprotocol/sdk/types.js";
+
+const encoder = new TextEncoder();
+
+/**
+ * Host names that only reach this machine, as found in URLs
+ */
+const LOOPBACK_HOSTNAMES = ["localhost", "127.0.0.1", "[::1]"];
+
+/**
+ * Which browser origins may use the served endpoints
+ */
+export interface OriginPolicy {
+  /** Origins allowed in addition to the loopback ones, e.g. "https://app.example.com" */
+  allowedOrigins: string[];
+  /** Whether the Host header must name this machine, for servers bound to a loopback address */
+  loopbackHostOnly: boolean;
+}
+
+/**
+ * Checks whether a request may use the served endpoints
+ *
+ * Browsers send the origin of the page with requests made by its scripts, so pages from other
+ * origins are rejected, as the MCP transport specification requires. Requests without an
+ * `Origin` header come from clients other than browsers and are accepted. The Host header check
+ * protects servers bound to a loopback address from DNS rebinding, where a page reaches the
+ * server through its own host name and thus from its own origin.
+ * @param req The request
+ * @param policy Which origins may use the endpoints
+ * @returns The response rejecting the request, or undefined if it may proceed
+ */
+export function validateRequestOrigin(
+  req: Request,
+  policy: OriginPolicy,
+): Response | undefined {
+  if (policy.loopbackHostOnly) {
+    const host = req.headers.get("host");
+    if (host && !LOOPBACK_HOSTNAMES.includes(parseHostname(`http://${host}`))) {
+      return new Response("Forbidden: Invalid Host header", { status: 403 });
+    }
+  }
+
+  const origin = req.headers.get("origin");
+  if (
+    origin !== null &&
+    !LOOPBACK_HOSTNAMES.includes(parseHostname(origin)) &&
+    !policy.allowedOrigins.includes(origin)
+  ) {
+    return new Response("Forbidden: Origin not allowed", { status: 403 });
+  }
+  return undefined;
+}
+
+/**
+ * Gets the host name of a URL
+ * @param url The URL
+ * @returns The host name, or an empty string for invalid URLs such as the "null" origin
+ */
+function parseHostname(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Formats a message as a Server-Sent Event
+ * @param event The event name
+ * @param data The event data
+ * @returns The encoded event
+ */
+function encodeSseEvent(event: string, data: string): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${data}\n\n`);
+}
+
+/**
+ * Parses one or more JSON-RPC messages from a request body
+ * @param body The parsed JSON body
+ * @returns The validated messages
+ * @throws Error if the body doesn't contain valid JSON-RPC messages
+ */
+function parseMessages(body: unknown): JSONRPCMessage[] {
+  const items = Array.isArray(body) ? body : [body];
+  return items.map((item) => JSONRPCMessageSchema.parse(item));
+}
+
+/**
+ * Builds a JSON-RPC error response for HTTP level failures
+ * @param status The HTTP status code
+ * @param code The JSON-RPC error code
+ * @param message The error message
+ * @returns The HTTP response
+ */
+function jsonRpcErrorResponse(
+  status: number,
+  code: number,
+  message: string,
+): Response {
+  return new Response(
+    JSON.stringify({ jsonrpc: "2.0", id: null, error: { code, message } }),
+    { status, headers: { "Content-Type": "application/json" } },
+  );
+}
+
+/**
+ * Server-side transport for a single session of the legacy HTTP+SSE transport
+ */
+export class SSEServerSessionTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  /** Identifier of this session, sent to the client as part of the endpoint URL */
+  readonly sessionId: string = crypto.randomUUID();
+
+  private controller: ReadableStreamDefaultController<Uint8Array> | undefined;
+  private closed = false;
+
+  /**
+   * Creates a new SSE session transport
+   * @param endpoint Path of the endpoint the client should POST its messages to
+   */
+  constructor(private endpoint: string) {}
+
+  /**
+   * Creates the event stream response for the GET request that opened the session
+   * @returns The streaming response
+   */
+  createResponse(): Response {
+    const stream = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        this.controller = controller;
+        controller.enqueue(
+          encodeSseEvent(
+            "endpoint",
+            `${this.endpoint}?sessionId=${this.sessionId}`,
+          ),
+        );
+      },
+      cancel: () => {
+        // The client went away
+        this.controller = undefined;
+        this.handleClose();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      },
+    });
+  }
+
+  /**
+   * The event stream is opened by createResponse(), so there is nothing to do here
+   */
+  start(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  /**
+   * Handles a message POSTed by the client
+   * @param req The HTTP request
+   * @returns The HTTP response
+   */
+  async handlePostMessage(req: Request): Promise<Response> {
+    if (this.closed) {
+      return new Response("Session closed", { status: 404 });
+    }
+
+    let messages: JSONRPCMessage[];
+    try {
+      messages = parseMessages(await req.json());
+    } catch (error) {
+      this.onerror?.(error as Error);
+      return new Response(`Invalid message: ${(error as Error).message}`, {
+        status: 400,
+      });
+    }
+
+    for (const message of messages) {
+      this.onmessage?.(message);
+    }
+    return new Response("Accepted", { status: 202 });
+  }
+
+  /**
+   * Sends a message to the client over the event stream
+   * @param message The message to send
+   */
+  send(message: JSONRPCMessage): Promise<void> {
+    if (!this.controller) {
+      return Promise.reject(new Error("Not connected"));
+    }
+    this.controller.enqueue(encodeSseEvent("message", JSON.stringify(message)));
+    return Promise.resolve();
+  }
+
+  /**
+   * Closes the event stream and ends the session
+   */
+  close(): Promise<void> {
+    try {
+      this.controller?.close();
+    } catch {
+      // The stream may already be closed
+    }
+    this.controller = undefined;
+    this.handleClose();
+    return Promise.resolve();
+  }
+
+  private handleClose(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.onclose?.();
+  }
+}
+
+/**
+ * Server-side transport for a single session of the Streamable HTTP transport
+ *
+ * Responses to POSTed requests are returned as a JSON body once all of them are available.
+ * Messages that don't answer a pending request (server-initiated requests and notifications)
+ * are delivered over the standalone GET event stream if the client opened one.
+ */
+export class StreamableHTTPServerSessionTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  /** Identifier of this session, sent to the client in the Mcp-Session-Id header */
+  readonly sessionId: string = crypto.randomUUID();
+
+  private pendingResponses = new Map<
+    RequestId,
+    (message: JSONRPCMessage) => void
+  >();
+  private streamController:
+    | ReadableStreamDefaultController<Uint8Array>
+    | undefined;
+  private closed = false;
+
+  /**
+   * Nothing to start, the session is driven by incoming HTTP requests
+   */
+  start(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  /**
+   * Handles an HTTP request for this session
+   * @param req The HTTP request
+   * @param body The already parsed JSON body for POST requests, if the caller read it
+   * @returns The HTTP response
+   */
+  async handleRequest(req: Request, body?: unknown): Promise<Response> {
+    if (this.closed) {
+      return jsonRpcErrorResponse(404, -32001, "Session not found");
+    }
+
+    switch (req.method) {
+      case "POST":
+        return await this.handlePost(req, body);
+      case "GET":
+        return this.handleGet(req);
+      case "DELETE":
+        await this.close();
+        return new Response(null, { status: 200 });
+      default:
+        return new Response("Method Not Allowed", {
+          status: 405,
+          headers: { Allow: "GET, POST, DELETE" },
+        });
+    }
+  }
+
+  /**
+   * Sends a message to the client, either as the response to a pending
+   * POST request or over the standalone event stream
+   * @param message The message to send
+   */
+  send(message: JSONRPCMessage): Promise<void> {
+    if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+      const resolve = this.pendingResponses.get(message.id);
+      if (resolve) {
+        this.pendingResponses.delete(message.id);
+        resolve(message);
+        return Promise.resolve();
+      }
+    }
+
+    if (!this.streamController) {
+      // The client has no open stream, so there is nowhere to deliver this message
+      return Promise.reject(
+        new Error("No event stream open for server-initiated message"),
+      );
+    }
+    this.streamController.enqueue(
+      encodeSseEvent("message", JSON.stringify(message)),
+    );
+    return Promise.resolve();
+  }
+
+  /**
+   * Ends the session
+   */
+  close(): Promise<void> {
+    if (this.closed) return Promise.resolve();
+    this.closed = true;
+
+    try {
+      this.streamController?.close();
+    } catch {
+      // The stream may already be closed
+    }
+    this.streamController = undefined;
+
+    // Don't leave POST requests hanging
+    for (const [id, resolve] of this.pendingResponses) {
+      resolve({
+        jsonrpc: "2.0",
+        id,
+        error: { code: -32000, message: "Session closed" },
+      });
+    }
+    this.pendingResponses.clear();
+
+    this.onclose?.();
+    return Promise.resolve();
+  }
+
+  private async handlePost(req: Request, body?: unknown): Promise<Response> {
+    let raw: unknown;
+    let messages: JSONRPCMessage[];
+    try {
+      raw = body ?? await req.json();
+      messages = parseMessages(raw);
+    } catch (error) {
+      this.onerror?.(error as Error);
+      return jsonRpcErrorResponse(
+        400,
+        -32700,
+        `Invalid message: ${(error as Error).message}`,
+      );
+    }
+
+    const requests = messages.filter(isJSONRPCRequest);
+    const responses = requests.map((request) =>
+      new Promise<JSONRPCMessage>((resolve) => {
+        this.pendingResponses.set(request.id, resolve);
+      })
+    );
+
+    for (const message of messages) {
+      this.onmessage?.(message);
+    }
+
+    const headers = { "Mcp-Session-Id": this.sessionId };
+    if (requests.length === 0) {
+      // Only notifications or responses, nothing to answer
+      return new Response(null, { status: 202, headers });
+    }
+
+    const results = await Promise.all(responses);
+    return new Response(
+      JSON.stringify(Array.isArray(raw) ? results : results[0]),
+      {
+        status: 200,
+        headers: { ...headers, "Content-Type": "application/json" },
+      },
+    );
+  }
+
+  private handleGet(req: Request): Response {
+    if (!req.headers.get("accept")?.includes("text/event-stream")) {
+      return new Response("Not Acceptable", { status: 406 });
+    }
+    if (this.streamController) {
+      return new Response("Conflict: event stream already open", {
+        status: 409,
+      });
+    }
+
+    const stream = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        this.streamController = controller;
+      },
+      cancel: () => {
+        this.streamController = undefined;
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Mcp-Session-Id": this.sessionId,
+      },
+    });
+  }
+}
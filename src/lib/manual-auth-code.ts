@@ -0,0 +1,289 @@
+/**
+ * This module lets the user complete the authorization by hand when the browser can't reach the
+ * local callback server, for example when the proxy runs on a remote development machine.
+ *
+ * After authorizing, the browser fails to load the redirect to `127.0.0.1`, but its address bar
+ * still shows the URL with the authorization code. The user pastes that URL, or just the code,
+ * into a prompt on the controlling terminal, or writes the URL into a file. A file can be written
+ * by anyone with access to it, so it has to hold the full URL with the state of the pending
+ * request. The input is reported through the same `auth-code-received` event as a code received
+ * by the callback server, so the rest of the flow doesn't know the difference.
+ *
+ * @example
+ * ```ts
+ * import { withManualAuthCode } from "@mmizutani/mcp-remote-deno/lib/manual-auth-code";
+ *
+ * // Reads the input while an authorization is pending
+ * const waitForAnyAuthCode = withManualAuthCode(
+ *   { type: "file", path: "/tmp/mcp-auth-code" },
+ *   events,
+ *   () => readTextFile(serverUrlHash, "state.txt"),
+ *   waitForAuthCode,
+ * );
+ * const code = await waitForAnyAuthCode();
+ * ```
+ *
+ * @module
+ */
+
+import type { EventEmitter } from "node:events";
+import type { ManualAuthCodeSource } from "./types.ts";
+import { createAuthorizationError, log } from "./utils.ts";
+
+/**
+ * Authorization response parsed from the user's input
+ */
+export interface AuthorizationResponse {
+  code?: string;
+  state?: string;
+  error?: string;
+  errorDescription?: string;
+}
+
+/**
+ * Interface defining the dependencies for readManualAuthCode,
+ * allowing for injection during testing.
+ */
+export interface ManualAuthCodeDeps {
+  /** Prompts for a line on the terminal, resolves to null when aborted or at the end of input */
+  promptTty: (prompt: string, signal: AbortSignal) => Promise<string | null>;
+  readTextFile: (path: string) => Promise<string>;
+  remove: (path: string) => Promise<void>;
+  sleep: (ms: number) => Promise<void>;
+  log: typeof log;
+}
+
+/**
+ * How often the input file is checked
+ */
+const FILE_POLL_INTERVAL = 1000;
+
+/**
+ * Parses a pasted redirect URL, query string or bare authorization code
+ * @param input The user's input
+ * @returns The authorization response
+ */
+export function parseAuthorizationResponse(
+  input: string,
+): AuthorizationResponse {
+  const value = input.trim();
+
+  let params: URLSearchParams | undefined;
+  try {
+    params = new URL(value).searchParams;
+  } catch {
+    if (/(^|[?&])(code|error)=/.test(value)) {
+      params = new URLSearchParams(value.replace(/^\?/, ""));
+    }
+  }
+  if (!params) {
+    return value ? { code: value } : {};
+  }
+
+  return {
+    code: params.get("code") ?? undefined,
+    state: params.get("state") ?? undefined,
+    error: params.get("error") ?? undefined,
+    errorDescription: params.get("error_description") ?? undefined,
+  };
+}
+
+/**
+ * Reads the authorization code from the terminal or a file in the background, until the user
+ * provided a valid one or the callback server received one. The result is emitted as an
+ * `auth-code-received` or `auth-error` event.
+ * @param source Where to read the input from
+ * @param events The event emitter of the callback server
+ * @param expectedState Reads the state of the pending authorization request
+ * @param deps Optional dependencies for testing
+ * @returns Function that stops reading
+ */
+export function readManualAuthCode(
+  source: ManualAuthCodeSource,
+  events: EventEmitter,
+  expectedState: () => Promise<string | undefined>,
+  deps?: Partial<ManualAuthCodeDeps>,
+): () => void {
+  const io: ManualAuthCodeDeps = {
+    promptTty: deps?.promptTty ?? promptOnTty,
+    readTextFile: deps?.readTextFile ?? Deno.readTextFile,
+    remove: deps?.remove ?? Deno.remove,
+    sleep: deps?.sleep ??
+      ((ms) => new Promise((resolve) => setTimeout(resolve, ms))),
+    log: deps?.log ?? log,
+  };
+
+  // Stop asking once the authorization finished, however it finished
+  const controller = new AbortController();
+  const stop = () => {
+    events.off("auth-code-received", stop);
+    events.off("auth-error", stop);
+    controller.abort();
+  };
+  events.on("auth-code-received", stop);
+  events.on("auth-error", stop);
+
+  const nextInput = async (): Promise<string | null> => {
+    if (source.type === "tty") {
+      return await io.promptTty(
+        "Paste the URL you were redirected to, or the authorization code: ",
+        controller.signal,
+      );
+    }
+
+    while (!controller.signal.aborted) {
+      try {
+        const content = await io.readTextFile(source.path);
+        // The file may still be being written
+        if (content.trim()) {
+          await io.remove(source.path).catch(() => {});
+          return content;
+        }
+      } catch (error) {
+        if (!(error instanceof Deno.errors.NotFound)) {
+          throw error;
+        }
+      }
+      await io.sleep(FILE_POLL_INTERVAL);
+    }
+    return null;
+  };
+
+  if (source.type === "file") {
+    io.log(
+      `If the browser can't reach the callback server, write the full URL it was redirected to into ${source.path}`,
+    );
+  }
+
+  (async () => {
+    while (!controller.signal.aborted) {
+      const input = await nextInput();
+      if (input === null) {
+        return;
+      }
+
+      const response = parseAuthorizationResponse(input);
+      if (!response.code && !response.error) {
+        io.log("No authorization code found in the input, please try again");
+        continue;
+      }
+      // Only the user can type a bare code on the terminal, anyone may have written the file
+      if (source.type === "file" && response.state === undefined) {
+        io.log(
+          "The file has to hold the full URL you were redirected to, including its state, please try again",
+        );
+        continue;
+      }
+      if (
+        response.state !== undefined &&
+        response.state !== await expectedState().catch(() => undefined)
+      ) {
+        io.log(
+          "The URL belongs to a different authorization request, please try again",
+        );
+        continue;
+      }
+
+      if (response.error) {
+        events.emit(
+          "auth-error",
+          createAuthorizationError(response.error, response.errorDescription),
+        );
+        return;
+      }
+      io.log("Auth code received from manual input");
+      events.emit("auth-code-received", response.code);
+      return;
+    }
+  })().catch((error) => {
+    stop();
+    io.log("Error reading the authorization code:", error);
+  });
+
+  return stop;
+}
+
+/**
+ * Wraps the wait for the callback server's authorization code to also read it from manual input.
+ * A single reader runs per authorization attempt, and stops once the attempt ends.
+ * @param source Where to read the input from
+ * @param events The event emitter of the callback server
+ * @param expectedState Reads the state of the pending authorization request
+ * @param waitForAuthCode Waits for the code received by the callback server
+ * @param deps Optional dependencies for testing
+ * @returns Function to wait for the code from either source
+ */
+export function withManualAuthCode(
+  source: ManualAuthCodeSource,
+  events: EventEmitter,
+  expectedState: () => Promise<string | undefined>,
+  waitForAuthCode: () => Promise<string>,
+  deps?: Partial<ManualAuthCodeDeps>,
+): () => Promise<string> {
+  let stopReading: (() => void) | undefined;
+  return async () => {
+    // Concurrent waits for the same authorization share the reader
+    stopReading ??= readManualAuthCode(source, events, expectedState, deps);
+    try {
+      return await waitForAuthCode();
+    } finally {
+      // The code may have been taken from an earlier callback without emitting an event
+      stopReading?.();
+      stopReading = undefined;
+    }
+  };
+}
+
+/**
+ * Prompts for a line on the controlling terminal, which works even though stdin is used for MCP
+ * @param prompt The prompt to show
+ * @param signal Aborts the prompt
+ * @returns The line entered, or null when aborted or at the end of input
+ */
+async function promptOnTty(
+  prompt: string,
+  signal: AbortSignal,
+): Promise<string | null> {
+  const windows = Deno.build.os === "windows";
+  const input = await Deno.open(windows ? "CONIN$" : "/dev/tty", {
+    read: true,
+    write: !windows,
+  });
+  const output = windows ? await Deno.open("CONOUT$", { write: true }) : input;
+  // Closing the terminal ends the pending read
+  const close = () => {
+    try {
+      input.close();
+      if (output !== input) {
+        output.close();
+      }
+    } catch {
+      // Already closed
+    }
+  };
+  signal.addEventListener("abort", close, { once: true });
+
+  try {
+    await output.write(new TextEncoder().encode(prompt));
+
+    const decoder = new TextDecoder();
+    const buffer = new Uint8Array(1024);
+    let line = "";
+    while (!line.includes("\n")) {
+      const read = await input.read(buffer);
+      if (read === null) {
+        return line || null;
+      }
+      line += decoder.decode(buffer.subarray(0, read), { stream: true });
+    }
+    return line.slice(0, line.indexOf("\n")).replace(/\r$/, "");
+  } catch (error) {
+    if (signal.aborted) {
+      return null;
+    }
+    throw error;
+  } finally {
+    signal.removeEventListener("abort", close);
+    close();
+  }
+}
@@ -9,10 +9,19 @@
  * - Each file is prefixed with a hash of the server URL to separate configurations for different servers
  *
  * Files stored in the config directory:
+ * - {server_hash}_server.json: Contains the URL of the server the hash belongs to
  * - {server_hash}_client_info.json: Contains OAuth client registration information
  * - {server_hash}_tokens.json: Contains OAuth access and refresh tokens
  * - {server_hash}_code_verifier.txt: Contains the PKCE code verifier for the current OAuth flow
+ * - {server_hash}_state.txt: Contains the state parameter of the current OAuth flow
+ *   - Format: Plain text string checked against the state of the OAuth callback
  * - {server_hash}_lock.json: Contains process synchronization data to prevent conflicts
+ * - {server_hash}_refresh_lock.json: Held by the process currently refreshing the tokens
+ * - {server_hash}_takeover_lock.json: Held by the process currently removing a stale lockfile
+ * - {server_hash}_profile.txt: Contains the profile used when none is given on the command line
+ *
+ * Named profiles hold another identity on the same server. Their files are prefixed with
+ * `{server_hash}@{profile}` instead, so they have their own credentials and lockfiles.
  *
  * @example
  * ```ts
@@ -46,6 +55,11 @@
 import path from "node:path";
 import os from "node:os";
 import { log, MCP_REMOTE_VERSION } from "./utils.ts";
+import {
+  createCredentialStorage,
+  type CredentialStorage,
+  PlaintextFileStorage,
+} from "./credential-storage.ts";
 
 /**
  * MCP Remote Authentication Configuration
@@ -57,15 +71,53 @@ import { log, MCP_REMOTE_VERSION } from "./utils.ts";
  * - Each file is prefixed with a hash of the server URL to separate configurations for different servers
  *
  * Files stored in the config directory:
+ * - {server_hash}_server.json: Contains the URL of the server the hash belongs to
+ *   - Format: { serverUrl } object
  * - {server_hash}_client_info.json: Contains OAuth client registration information
  *   - Format: OAuthClientInformation object with client_id and other registration details
  * - {server_hash}_tokens.json: Contains OAuth access and refresh tokens
  *   - Format: OAuthTokens object with access_token, refresh_token, and expiration information
  * - {server_hash}_code_verifier.txt: Contains the PKCE code verifier for the current OAuth flow
  *   - Format: Plain text string used for PKCE verification
+ * - {server_hash}_state.txt: Contains the state parameter of the current OAuth flow
+ *   - Format: Plain text string checked against the state of the OAuth callback
  *
  * All JSON files are stored with 2-space indentation for readability.
+ *
+ * The credential files are read and written through the configured CredentialStorage, which
+ * encrypts them when MCP_REMOTE_STORAGE_PASSPHRASE or MCP_REMOTE_STORAGE_KEY_FILE is set.
+ * Lockfiles hold no secrets and are always stored as plain text.
+ */
+
+let credentialStorage: Promise<CredentialStorage> | undefined;
+
+/**
+ * Gets the storage backend for the credential files, creating it from the environment on first use
+ * @returns The credential storage
+ */
+export function getCredentialStorage(): Promise<CredentialStorage> {
+  credentialStorage ??= createCredentialStorage();
+  return credentialStorage;
+}
+
+/**
+ * Replaces the storage backend for the credential files
+ * @param storage The storage to use from now on
  */
+export function setCredentialStorage(storage: CredentialStorage): void {
+  credentialStorage = Promise.resolve(storage);
+}
+
+/**
+ * Files holding the credentials of a server, deleted when logging out
+ */
+export const CREDENTIAL_FILES = [
+  "server.json",
+  "client_info.json",
+  "tokens.json",
+  "code_verifier.txt",
+  "state.txt",
+];
 
 /**
  * Lockfile data structure
@@ -74,25 +126,33 @@ export interface LockfileData {
   pid: number;
   port: number;
   timestamp: number;
+  /** Address other instances reach the callback server on, 127.0.0.1 if not set */
+  host?: string;
+  /** When the holder last confirmed it is still running, the timestamp if not set */
+  heartbeat?: number;
 }
 
 /**
- * Creates a lockfile for the given server
+ * Creates a lockfile for the given server, failing if another instance already holds it
  * @param serverUrlHash The hash of the server URL
  * @param pid The process ID
  * @param port The port the server is running on
+ * @param host The address the server is reachable on, if not 127.0.0.1
+ * @returns True if the lockfile was created, false if it already exists
  */
 export async function createLockfile(
   serverUrlHash: string,
   pid: number,
   port: number,
-): Promise<void> {
+  host?: string,
+): Promise<boolean> {
   const lockData: LockfileData = {
     pid,
     port,
     timestamp: Date.now(),
+    host,
   };
-  await writeJsonFile(serverUrlHash, "lock.json", lockData);
+  return await createExclusiveFile(serverUrlHash, "lock.json", lockData);
 }
 
 /**
@@ -113,13 +173,20 @@ export async function checkLockfile(
           if (
             typeof (data as LockfileData).pid !== "number" ||
             typeof (data as LockfileData).port !== "number" ||
-            typeof (data as LockfileData).timestamp !== "number"
+            typeof (data as LockfileData).timestamp !== "number" ||
+            !["string", "undefined"].includes(
+              typeof (data as LockfileData).host,
+            ) ||
+            !["number", "undefined"].includes(
+              typeof (data as LockfileData).heartbeat,
+            )
           ) {
             return null;
           }
           return data as LockfileData;
         },
       },
+      new PlaintextFileStorage(),
     );
     return lockfile || null;
   } catch {
@@ -127,6 +194,28 @@ export async function checkLockfile(
   }
 }
 
+/**
+ * Replaces the lockfile for the given server in a single step, so that other instances never
+ * read it half-written
+ * @param serverUrlHash The hash of the server URL
+ * @param lockData The new lockfile data
+ */
+export async function replaceLockfile(
+  serverUrlHash: string,
+  lockData: LockfileData,
+): Promise<void> {
+  const filePath = getConfigFilePath(serverUrlHash, "lock.json");
+  const tempPath = `${filePath}.${Deno.pid}.tmp`;
+  try {
+    await Deno.writeTextFile(tempPath, JSON.stringify(lockData, null, 2));
+    await Deno.rename(tempPath, filePath);
+  } catch (error) {
+    log("Error writing lock.json:", error);
+    await Deno.remove(tempPath).catch(() => {});
+    throw error;
+  }
+}
+
 /**
  * Deletes the lockfile for the given server
  * @param serverUrlHash The hash of the server URL
@@ -135,6 +224,163 @@ export async function deleteLockfile(serverUrlHash: string): Promise<void> {
   await deleteConfigFile(serverUrlHash, "lock.json");
 }
 
+/**
+ * Refresh lockfile data structure
+ */
+export interface RefreshLockfileData {
+  pid: number;
+  timestamp: number;
+}
+
+/**
+ * Creates the refresh lockfile for the given server, failing if another process already holds it
+ * @param serverUrlHash The hash of the server URL
+ * @param pid The process ID
+ * @returns The data of the created lockfile, or null if it already exists
+ */
+export async function createRefreshLockfile(
+  serverUrlHash: string,
+  pid: number,
+): Promise<RefreshLockfileData | null> {
+  const lockData: RefreshLockfileData = {
+    pid,
+    timestamp: Date.now(),
+  };
+  const created = await createExclusiveFile(
+    serverUrlHash,
+    "refresh_lock.json",
+    lockData,
+  );
+  return created ? lockData : null;
+}
+
+/**
+ * Checks if a refresh lockfile exists for the given server
+ * @param serverUrlHash The hash of the server URL
+ * @returns The refresh lockfile data or null if it doesn't exist
+ */
+export async function checkRefreshLockfile(
+  serverUrlHash: string,
+): Promise<RefreshLockfileData | null> {
+  return await readPidLockfile(serverUrlHash, "refresh_lock.json");
+}
+
+/**
+ * Deletes the refresh lockfile for the given server
+ * @param serverUrlHash The hash of the server URL
+ */
+export async function deleteRefreshLockfile(
+  serverUrlHash: string,
+): Promise<void> {
+  await deleteConfigFile(serverUrlHash, "refresh_lock.json");
+}
+
+/**
+ * Creates the takeover lockfile for the given server, held while removing a stale lockfile
+ * @param serverUrlHash The hash of the server URL
+ * @param pid The process ID
+ * @returns True if the lockfile was created, false if it already exists
+ */
+export async function createTakeoverLockfile(
+  serverUrlHash: string,
+  pid: number,
+): Promise<boolean> {
+  const lockData: RefreshLockfileData = {
+    pid,
+    timestamp: Date.now(),
+  };
+  return await createExclusiveFile(
+    serverUrlHash,
+    "takeover_lock.json",
+    lockData,
+  );
+}
+
+/**
+ * Checks if a takeover lockfile exists for the given server
+ * @param serverUrlHash The hash of the server URL
+ * @returns The takeover lockfile data or null if it doesn't exist
+ */
+export async function checkTakeoverLockfile(
+  serverUrlHash: string,
+): Promise<RefreshLockfileData | null> {
+  return await readPidLockfile(serverUrlHash, "takeover_lock.json");
+}
+
+/**
+ * Deletes the takeover lockfile for the given server
+ * @param serverUrlHash The hash of the server URL
+ */
+export async function deleteTakeoverLockfile(
+  serverUrlHash: string,
+): Promise<void> {
+  await deleteConfigFile(serverUrlHash, "takeover_lock.json");
+}
+
+/**
+ * Creates a lockfile, failing if it already exists. Lockfiles are read by every instance, so
+ * they are never encrypted.
+ * @param serverUrlHash The hash of the server URL
+ * @param filename The name of the lockfile
+ * @param data The data to store
+ * @returns True if the lockfile was created, false if it already exists
+ */
+async function createExclusiveFile(
+  serverUrlHash: string,
+  filename: string,
+  data: unknown,
+): Promise<boolean> {
+  try {
+    await ensureConfigDir();
+    const filePath = getConfigFilePath(serverUrlHash, filename);
+    // createNew makes the existence check and the write a single atomic step
+    await Deno.writeTextFile(filePath, JSON.stringify(data, null, 2), {
+      createNew: true,
+    });
+    return true;
+  } catch (error) {
+    if (error instanceof Deno.errors.AlreadyExists) {
+      return false;
+    }
+    log(`Error writing ${filename}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Reads a lockfile holding a process ID and a timestamp
+ * @param serverUrlHash The hash of the server URL
+ * @param filename The name of the lockfile
+ * @returns The lockfile data or null if it doesn't exist or is invalid
+ */
+async function readPidLockfile(
+  serverUrlHash: string,
+  filename: string,
+): Promise<RefreshLockfileData | null> {
+  try {
+    const lockfile = await readJsonFile<RefreshLockfileData>(
+      serverUrlHash,
+      filename,
+      {
+        parseAsync(data: unknown) {
+          if (typeof data !== "object" || data === null) return null;
+          if (
+            typeof (data as RefreshLockfileData).pid !== "number" ||
+            typeof (data as RefreshLockfileData).timestamp !== "number"
+          ) {
+            return null;
+          }
+          return data as RefreshLockfileData;
+        },
+      },
+      new PlaintextFileStorage(),
+    );
+    return lockfile || null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Gets the configuration directory path
  * @returns The path to the configuration directory
@@ -193,23 +439,99 @@ export async function deleteConfigFile(
   }
 }
 
+/**
+ * Lists the servers that have files in the config directory
+ * @returns The hashes of the server URLs, followed by `@<profile>` for named profiles
+ */
+export async function listServerUrlHashes(): Promise<string[]> {
+  const hashes = new Set<string>();
+  try {
+    for await (const entry of Deno.readDir(getConfigDir())) {
+      const match = entry.name.match(/^([0-9a-f]{32}(?:@[A-Za-z0-9.-]+)?)_/);
+      if (entry.isFile && match) {
+        hashes.add(match[1]);
+      }
+    }
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return [];
+    }
+    throw error;
+  }
+  return [...hashes].sort();
+}
+
+/**
+ * Deletes the stored credentials of a server, leaving the lockfiles of running instances alone
+ * @param serverUrlHash The hash of the server URL
+ */
+export async function deleteCredentialFiles(
+  serverUrlHash: string,
+): Promise<void> {
+  for (const filename of CREDENTIAL_FILES) {
+    await deleteConfigFile(serverUrlHash, filename);
+  }
+}
+
+/**
+ * Reads the profile selected for a server with the auth command
+ * @param serverUrlHash The hash of the server URL, without a profile
+ * @returns The name of the profile, or undefined for the default profile
+ */
+export async function readActiveProfile(
+  serverUrlHash: string,
+): Promise<string | undefined> {
+  try {
+    const profile = await new PlaintextFileStorage().read(
+      getConfigFilePath(serverUrlHash, "profile.txt"),
+    );
+    return profile.trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Selects the profile used for a server when none is given on the command line
+ * @param serverUrlHash The hash of the server URL, without a profile
+ * @param profile The name of the profile, or undefined to go back to the default profile
+ */
+export async function writeActiveProfile(
+  serverUrlHash: string,
+  profile: string | undefined,
+): Promise<void> {
+  if (!profile) {
+    await deleteConfigFile(serverUrlHash, "profile.txt");
+    return;
+  }
+  await ensureConfigDir();
+  // The profile name is no secret, and has to be readable before the storage is set up
+  await new PlaintextFileStorage().write(
+    getConfigFilePath(serverUrlHash, "profile.txt"),
+    profile,
+  );
+}
+
 /**
  * Reads a JSON file and parses it with the provided schema
  * @param serverUrlHash The hash of the server URL
  * @param filename The name of the file to read
  * @param schema The schema to validate against
+ * @param storage The storage to read from, the credential storage by default
  * @returns The parsed file content or undefined if the file doesn't exist
  */
 export async function readJsonFile<T>(
   serverUrlHash: string,
   filename: string,
   schema: { parseAsync: (data: unknown) => Promise<T | null> | T | null },
+  storage?: CredentialStorage,
 ): Promise<T | undefined> {
   try {
     await ensureConfigDir();
 
     const filePath = getConfigFilePath(serverUrlHash, filename);
-    const content = await Deno.readTextFile(filePath);
+    storage ??= await getCredentialStorage();
+    const content = await storage.read(filePath);
     const result = await schema.parseAsync(JSON.parse(content));
     return result ?? undefined;
   } catch (_error) {
@@ -227,16 +549,19 @@ export async function readJsonFile<T>(
  * @param serverUrlHash The hash of the server URL
  * @param filename The name of the file to write
  * @param data The data to write
+ * @param storage The storage to write to, the credential storage by default
  */
 export async function writeJsonFile(
   serverUrlHash: string,
   filename: string,
   data: unknown,
+  storage?: CredentialStorage,
 ): Promise<void> {
   try {
     await ensureConfigDir();
     const filePath = getConfigFilePath(serverUrlHash, filename);
-    await Deno.writeTextFile(filePath, JSON.stringify(data, null, 2));
+    storage ??= await getCredentialStorage();
+    await storage.write(filePath, JSON.stringify(data, null, 2));
   } catch (_error) {
     log(`Error writing ${filename}:`, _error);
     throw _error;
@@ -258,7 +583,8 @@ export async function readTextFile(
   try {
     await ensureConfigDir();
     const filePath = getConfigFilePath(serverUrlHash, filename);
-    return await Deno.readTextFile(filePath);
+    const storage = await getCredentialStorage();
+    return await storage.read(filePath);
   } catch (_error) {
     throw new Error(errorMessage || `Error reading ${filename}`);
   }
@@ -278,7 +604,8 @@ export async function writeTextFile(
   try {
     await ensureConfigDir();
     const filePath = getConfigFilePath(serverUrlHash, filename);
-    await Deno.writeTextFile(filePath, text);
+    const storage = await getCredentialStorage();
+    await storage.write(filePath, text);
   } catch (error) {
     log(`Error writing ${filename}:`, error);
     throw error;
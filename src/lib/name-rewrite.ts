@@ -0,0 +1,174 @@
+/**
+ * This module renames the tools, prompts and resources of the remote server, so that a client
+ * connected to several servers that e.g. all expose a `search` tool can tell them apart.
+ *
+ * With a namespace, tool and prompt names become `<namespace>_<name>` and resource URIs
+ * `<namespace>+<uri>`, which keeps them valid URIs with a scheme like `linear+https`. The
+ * descriptions start with `[<namespace>]`, so the model sees which server a tool comes from.
+ * Individual tools and prompts can be given other names instead. Names and URIs are translated
+ * back in the requests of the client, so the remote server only ever sees its own names.
+ *
+ * @example
+ * ```ts
+ * import { createNameRewrite } from "@mmizutani/mcp-remote-deno/lib/name-rewrite";
+ *
+ * mcpProxy({
+ *   transportToClient: localTransport,
+ *   transportToServer: remoteTransport,
+ *   transforms: [createNameRewrite({ namespace: "linear", rename: { search: "find_issues" } })],
+ * });
+ * ```
+ *
+ * @module
+ */
+
+import type { JSONRPCRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { NameRewrite } from "./types.ts";
+import type { ProxyTransform } from "./utils.ts";
+
+/**
+ * Valid namespaces, they have to fit into tool names and URI schemes
+ */
+export const NAMESPACE_PATTERN = /^[A-Za-z][A-Za-z0-9-]*$/;
+
+/**
+ * A tool, prompt, resource or resource content in a result
+ */
+type Item = Record<string, unknown>;
+
+/**
+ * Creates the proxy transform renaming the tools, prompts and resources of the remote server
+ * @param rewrite The namespace and the new names
+ * @returns The transform for mcpProxy
+ */
+export function createNameRewrite(rewrite: NameRewrite): ProxyTransform {
+  const { namespace } = rewrite;
+  const renamed = new Map(Object.entries(rewrite.rename ?? {}));
+  const original = new Map(
+    [...renamed].map(([remote, local]) => [local, remote]),
+  );
+  const namePrefix = `${namespace}_`;
+  const uriPrefix = `${namespace}+`;
+
+  const toLocalName = (name: string) =>
+    renamed.get(name) ?? (namespace ? namePrefix + name : name);
+  const toRemoteName = (name: string) =>
+    original.get(name) ??
+      (namespace && name.startsWith(namePrefix)
+        ? name.slice(namePrefix.length)
+        : name);
+  const toLocalUri = (uri: string) => namespace ? uriPrefix + uri : uri;
+  const toRemoteUri = (uri: string) =>
+    namespace && uri.startsWith(uriPrefix) ? uri.slice(uriPrefix.length) : uri;
+
+  // Tells the model which server the item comes from
+  const describe = (item: Item): Item => {
+    if (!namespace) {
+      return item;
+    }
+    return {
+      ...item,
+      description: typeof item.description === "string"
+        ? `[${namespace}] ${item.description}`
+        : `[${namespace}]`,
+    };
+  };
+
+  const withParams = (
+    request: JSONRPCRequest,
+    params: Record<string, unknown>,
+  ): JSONRPCRequest => ({
+    ...request,
+    params: { ...request.params, ...params },
+  });
+
+  return {
+    request(request) {
+      const params = request.params;
+      switch (request.method) {
+        case "tools/call":
+        case "prompts/get":
+          if (typeof params?.name === "string") {
+            return withParams(request, { name: toRemoteName(params.name) });
+          }
+          break;
+        case "resources/read":
+        case "resources/subscribe":
+        case "resources/unsubscribe":
+          if (typeof params?.uri === "string") {
+            return withParams(request, { uri: toRemoteUri(params.uri) });
+          }
+          break;
+        case "completion/complete": {
+          const ref = params?.ref as Item | undefined;
+          if (ref?.type === "ref/prompt" && typeof ref.name === "string") {
+            return withParams(request, {
+              ref: { ...ref, name: toRemoteName(ref.name) },
+            });
+          }
+          if (ref?.type === "ref/resource" && typeof ref.uri === "string") {
+            return withParams(request, {
+              ref: { ...ref, uri: toRemoteUri(ref.uri) },
+            });
+          }
+          break;
+        }
+      }
+      return request;
+    },
+
+    result(method, result) {
+      const mapItems = (key: string, map: (item: Item) => Item) =>
+        Array.isArray(result[key])
+          ? { ...result, [key]: (result[key] as Item[]).map(map) }
+          : result;
+
+      switch (method) {
+        case "tools/list":
+          return mapItems(
+            "tools",
+            (tool) =>
+              describe({ ...tool, name: toLocalName(String(tool.name)) }),
+          );
+        case "prompts/list":
+          return mapItems(
+            "prompts",
+            (prompt) =>
+              describe({ ...prompt, name: toLocalName(String(prompt.name)) }),
+          );
+        case "resources/list":
+          return mapItems(
+            "resources",
+            (resource) =>
+              describe({ ...resource, uri: toLocalUri(String(resource.uri)) }),
+          );
+        case "resources/templates/list":
+          return mapItems("resourceTemplates", (template) =>
+            describe({
+              ...template,
+              uriTemplate: toLocalUri(String(template.uriTemplate)),
+            }));
+        case "resources/read":
+          return mapItems("contents", (content) => ({
+            ...content,
+            uri: toLocalUri(String(content.uri)),
+          }));
+      }
+      return result;
+    },
+
+    notification(notification) {
+      const uri = notification.params?.uri;
+      if (
+        notification.method === "notifications/resources/updated" &&
+        typeof uri === "string"
+      ) {
+        return {
+          ...notification,
+          params: { ...notification.params, uri: toLocalUri(uri) },
+        };
+      }
+      return notification;
+    },
+  };
+}
@@ -22,13 +22,19 @@
  *   authProvider,
  *   requestInit: { headers }
  * });
+ *
+ * // Pick up credentials stored by other instances while the transport is running
+ * await authProvider.watchCredentials();
+ * authProvider.onCredentialsChange((file) => console.log(`${file} changed`));
  * ```
  *
  * @module
  */
 
-import type { OAuthClientProvider } from "@modelcontextprotocol/sdk/client/auth.js";
-import "@modelcontextprotocol/sdk/client/auth.js";
+import {
+  discoverOAuthMetadata,
+  type OAuthClientProvider,
+} from "@modelcontextprotocol/sdk/client/auth.js";
 import {
   OAuthClientInformationSchema,
   OAuthTokensSchema,
@@ -39,10 +45,43 @@ import type {
   OAuthTokens,
 } from "@modelcontextprotocol/sdk/shared/auth.js";
 import type { OAuthProviderOptions } from "./types.ts";
+import path from "node:path";
 import * as mcpAuth from "./mcp-auth-config.ts";
+import {
+  addOAuthRequestParams,
+  exchangeAuthorization,
+  type OAuthRequestParams,
+} from "./oauth-requests.ts";
 import * as utils from "./utils.ts";
 import * as openModule from "./deno-open.ts";
 
+/**
+ * OAuth tokens as stored on disk, along with the time they were issued
+ */
+export type StoredOAuthTokens = OAuthTokens & {
+  /** Time the tokens were saved, in milliseconds since the epoch */
+  issued_at?: number;
+};
+
+/**
+ * Schema for tokens stored on disk, keeping the issue time that OAuthTokensSchema strips
+ */
+export const StoredOAuthTokensSchema = {
+  async parseAsync(data: unknown): Promise<StoredOAuthTokens> {
+    const tokens = await OAuthTokensSchema.parseAsync(data);
+    const issuedAt = (data as { issued_at?: unknown }).issued_at;
+    return {
+      ...tokens,
+      issued_at: typeof issuedAt === "number" ? issuedAt : undefined,
+    };
+  },
+};
+
+/**
+ * Credential files watched for changes made by other instances
+ */
+export type CredentialFile = "tokens.json" | "client_info.json";
+
 /**
  * Interface defining the dependencies for NodeOAuthClientProvider,
  * allowing for injection during testing.
@@ -53,6 +92,11 @@ export interface NodeOAuthClientProviderDeps {
   writeJsonFile: typeof mcpAuth.writeJsonFile;
   readTextFile: typeof mcpAuth.readTextFile;
   writeTextFile: typeof mcpAuth.writeTextFile;
+  getConfigFilePath: typeof mcpAuth.getConfigFilePath;
+  ensureConfigDir: typeof mcpAuth.ensureConfigDir;
+  watchFs: typeof Deno.watchFs;
+  discoverOAuthMetadata: typeof discoverOAuthMetadata;
+  exchangeAuthorization: typeof exchangeAuthorization;
   log: typeof utils.log;
   open: typeof openModule.default;
   mcpRemoteVersion: string;
@@ -65,8 +109,12 @@ export interface NodeOAuthClientProviderDeps {
  * - OAuth client registration with dynamic client metadata
  * - Secure storage of client information and tokens in the user's config directory
  * - PKCE code challenge and verification for enhanced security
- * - Token refresh and management
+ * - A random state per authorization request, checked by the callback server
+ * - Token refresh and management, recording when tokens were issued
+ * - Watching the stored credentials so that changes made by other instances take effect immediately
  * - Browser-based user authentication
+ * - Pre-registered static clients for servers without dynamic client registration
+ * - Requesting custom scopes and RFC 8707 resource indicators, and additional scopes on demand
  *
  * It follows OAuth 2.1 best practices including:
  * - Authorization Code flow with PKCE
@@ -80,9 +128,20 @@ export class NodeOAuthClientProvider implements OAuthClientProvider {
   private clientName: string;
   private clientUri: string;
   private softwareId: string;
+  private scope: string | undefined;
+  // Set while the stored tokens lack scopes the server asked for, until new tokens are saved
+  private scopeUpgradePending = false;
+  // Whether server.json was written, which maps the hash back to the URL for the auth command
+  private serverUrlSaved = false;
 
   // Store dependencies internally
-  private deps: NodeOAuthClientProviderDeps;
+  protected deps: NodeOAuthClientProviderDeps;
+
+  // In-memory copies of the credentials, only used while watching the files
+  private watcher: Deno.FsWatcher | undefined;
+  private cachedTokens: StoredOAuthTokens | undefined;
+  private cachedClientInformation: OAuthClientInformation | undefined;
+  private credentialListeners = new Set<(file: CredentialFile) => void>();
 
   /**
    * Creates a new NodeOAuthClientProvider
@@ -100,28 +159,44 @@ export class NodeOAuthClientProvider implements OAuthClientProvider {
       writeJsonFile: deps?.writeJsonFile ?? mcpAuth.writeJsonFile,
       readTextFile: deps?.readTextFile ?? mcpAuth.readTextFile,
       writeTextFile: deps?.writeTextFile ?? mcpAuth.writeTextFile,
+      getConfigFilePath: deps?.getConfigFilePath ?? mcpAuth.getConfigFilePath,
+      ensureConfigDir: deps?.ensureConfigDir ?? mcpAuth.ensureConfigDir,
+      watchFs: deps?.watchFs ?? Deno.watchFs,
+      discoverOAuthMetadata: deps?.discoverOAuthMetadata ??
+        discoverOAuthMetadata,
+      exchangeAuthorization: deps?.exchangeAuthorization ??
+        exchangeAuthorization,
       log: deps?.log ?? utils.log,
       open: deps?.open ?? openModule.default,
       mcpRemoteVersion: deps?.mcpRemoteVersion ?? utils.MCP_REMOTE_VERSION,
     };
 
-    this.serverUrlHash = this.deps.getServerUrlHash(options.serverUrl);
+    this.serverUrlHash = this.deps.getServerUrlHash(
+      options.serverUrl,
+      options.profile,
+    );
     this.callbackPath = options.callbackPath || "/oauth/callback";
     this.clientName = options.clientName || "MCP CLI Client";
     this.clientUri = options.clientUri ||
       "https://github.com/modelcontextprotocol/mcp-cli";
     this.softwareId = options.softwareId ||
       "2e6dc280-f3c3-4e01-99a7-8181dbd1d23d";
+    this.scope = options.scope;
   }
 
   get redirectUrl(): string {
-    return `http://127.0.0.1:${this.options.callbackPort}${this.callbackPath}`;
+    const host = utils.formatUrlHost(this.options.redirectHost ?? "127.0.0.1");
+    return this.options.staticClientInfo?.redirect_uri ??
+      `http://${host}:${this.options.callbackPort}${this.callbackPath}`;
   }
 
   get clientMetadata() {
+    const staticClientInfo = this.options.staticClientInfo;
     return {
       redirect_uris: [this.redirectUrl],
-      token_endpoint_auth_method: "none",
+      token_endpoint_auth_method:
+        staticClientInfo?.token_endpoint_auth_method ??
+          (staticClientInfo?.client_secret ? "client_secret_post" : "none"),
       grant_types: ["authorization_code", "refresh_token"],
       response_types: ["code"],
       client_name: this.clientName,
@@ -129,15 +204,38 @@ export class NodeOAuthClientProvider implements OAuthClientProvider {
       software_id: this.softwareId,
       software_version: this.options.softwareVersion ??
         this.deps.mcpRemoteVersion,
+      ...(this.scope ? { scope: this.scope } : {}),
     };
   }
 
   /**
-   * Gets the client information if it exists
+   * The scope and resource to include in authorization and token requests
+   */
+  get requestParams(): OAuthRequestParams {
+    return { scope: this.scope, resource: this.options.resource };
+  }
+
+  /**
+   * Gets the client information if it exists.
+   * A pre-registered static client takes precedence, so the SDK never registers a new one.
    * @returns The client information or undefined
    */
   clientInformation(): Promise<OAuthClientInformation | undefined> {
     // log('Reading client info')
+    const staticClientInfo = this.options.staticClientInfo;
+    if (staticClientInfo) {
+      const { client_id, client_secret, token_endpoint_auth_method } =
+        staticClientInfo;
+      // Public clients must not send the secret to the token endpoint
+      return Promise.resolve(
+        client_secret && token_endpoint_auth_method !== "none"
+          ? { client_id, client_secret }
+          : { client_id },
+      );
+    }
+    if (this.watcher) {
+      return Promise.resolve(this.cachedClientInformation);
+    }
     return this.deps.readJsonFile<OAuthClientInformation>(
       this.serverUrlHash,
       "client_info.json",
@@ -158,6 +256,9 @@ export class NodeOAuthClientProvider implements OAuthClientProvider {
       "client_info.json",
       clientInformation,
     );
+    if (this.watcher) {
+      this.cachedClientInformation = clientInformation;
+    }
   }
 
   /**
@@ -167,6 +268,13 @@ export class NodeOAuthClientProvider implements OAuthClientProvider {
   tokens(): Promise<OAuthTokens | undefined> {
     // log('Reading tokens')
     // console.log(new Error().stack)
+    if (this.scopeUpgradePending) {
+      // Pretend there are no tokens, so that the SDK starts a new authorization
+      return Promise.resolve(undefined);
+    }
+    if (this.watcher) {
+      return Promise.resolve(this.cachedTokens);
+    }
     return this.deps.readJsonFile<OAuthTokens>(
       this.serverUrlHash,
       "tokens.json",
@@ -175,12 +283,254 @@ export class NodeOAuthClientProvider implements OAuthClientProvider {
   }
 
   /**
-   * Saves OAuth tokens
+   * Saves OAuth tokens along with the time they were issued
    * @param tokens The tokens to save
    */
   async saveTokens(tokens: OAuthTokens): Promise<void> {
     // log('Saving tokens')
-    await this.deps.writeJsonFile(this.serverUrlHash, "tokens.json", tokens);
+    const storedTokens: StoredOAuthTokens = {
+      ...tokens,
+      issued_at: Date.now(),
+    };
+    await this.deps.writeJsonFile(
+      this.serverUrlHash,
+      "tokens.json",
+      storedTokens,
+    );
+    if (this.watcher) {
+      this.cachedTokens = storedTokens;
+    }
+    this.scopeUpgradePending = false;
+
+    if (!this.serverUrlSaved) {
+      await this.deps.writeJsonFile(this.serverUrlHash, "server.json", {
+        serverUrl: this.options.serverUrl,
+      });
+      this.serverUrlSaved = true;
+    }
+  }
+
+  /**
+   * Exchanges an authorization code for tokens and stores them.
+   * Used instead of the transport's finishAuth(), which can't send the resource indicator.
+   * @param authorizationCode The code received on the callback
+   */
+  async finishAuthorization(authorizationCode: string): Promise<void> {
+    const clientInformation = await this.clientInformation();
+    if (!clientInformation) {
+      throw new Error(
+        "Existing OAuth client information is required when exchanging an authorization code",
+      );
+    }
+
+    const serverUrl = this.options.serverUrl;
+    const metadata = await this.deps.discoverOAuthMetadata(serverUrl);
+    const tokens = await this.deps.exchangeAuthorization(serverUrl, {
+      metadata,
+      clientInformation,
+      authorizationCode,
+      codeVerifier: await this.codeVerifier(),
+      redirectUri: this.redirectUrl,
+      resource: this.options.resource,
+    });
+    await this.saveTokens(tokens);
+  }
+
+  /**
+   * Adds scopes the server asked for in an insufficient_scope error, so that the next
+   * authorization requests them. The stored tokens are ignored until new ones are saved.
+   * @param scope Space-separated scopes required by the server
+   * @returns True if any scope was added, false if all of them were already requested
+   */
+  requestAdditionalScopes(scope: string): boolean {
+    if (!scope.trim()) {
+      this.deps.log(
+        "Server requires additional scopes but didn't say which, use --scope to request them",
+      );
+      return false;
+    }
+
+    const current = new Set(this.scope?.split(" ").filter(Boolean));
+    const added = scope.split(" ").filter((s) => s && !current.has(s));
+    if (added.length === 0) {
+      return false;
+    }
+
+    this.scope = [...current, ...added].join(" ");
+    this.scopeUpgradePending = true;
+    this.deps.log(
+      `Server requires additional scopes (${added.join(" ")}), re-authorizing`,
+    );
+    return true;
+  }
+
+  /**
+   * Gets the time at which the stored access token expires
+   * @returns The expiry time in milliseconds since the epoch, or undefined if it is unknown
+   */
+  async tokensExpireAt(): Promise<number | undefined> {
+    const tokens = this.watcher
+      ? this.cachedTokens
+      : await this.deps.readJsonFile<StoredOAuthTokens>(
+        this.serverUrlHash,
+        "tokens.json",
+        StoredOAuthTokensSchema,
+      );
+    if (tokens?.issued_at === undefined || tokens.expires_in === undefined) {
+      return undefined;
+    }
+    return tokens.issued_at + tokens.expires_in * 1000;
+  }
+
+  /**
+   * Starts watching tokens.json and client_info.json for changes made by other instances.
+   *
+   * While watching, the credentials are served from memory and reloaded whenever the files
+   * change, so a live transport picks up tokens from a refresh or re-authentication in another
+   * instance with its next request.
+   */
+  async watchCredentials(): Promise<void> {
+    if (this.watcher) return;
+
+    const tokensPath = this.deps.getConfigFilePath(
+      this.serverUrlHash,
+      "tokens.json",
+    );
+    const clientInfoPath = this.deps.getConfigFilePath(
+      this.serverUrlHash,
+      "client_info.json",
+    );
+    // Watch the directory, since the files may not exist yet and are replaced on write
+    await this.deps.ensureConfigDir();
+    const watcher = this.deps.watchFs(path.dirname(tokensPath), {
+      recursive: false,
+    });
+
+    // Load the current state only once watching, so that no change falls in between
+    await this.reloadCredential("tokens.json");
+    await this.reloadCredential("client_info.json");
+    this.watcher = watcher;
+
+    (async () => {
+      for await (const event of watcher) {
+        for (const changedPath of event.paths) {
+          // Compare file names only, event paths may be resolved differently (e.g. symlinks)
+          const changedFile = path.basename(changedPath);
+          if (changedFile === path.basename(tokensPath)) {
+            await this.reloadCredential("tokens.json", event.kind);
+          } else if (changedFile === path.basename(clientInfoPath)) {
+            await this.reloadCredential("client_info.json", event.kind);
+          }
+        }
+      }
+    })().catch((error) => {
+      this.deps.log("Error watching credentials:", error);
+    });
+  }
+
+  /**
+   * Stops watching the credential files and goes back to reading them on every access
+   */
+  stopWatchingCredentials(): void {
+    try {
+      this.watcher?.close();
+    } catch {
+      // Already closed
+    }
+    this.watcher = undefined;
+    this.cachedTokens = undefined;
+    this.cachedClientInformation = undefined;
+  }
+
+  /**
+   * Registers a listener that is called when another process changes the stored credentials
+   * @param listener Called with the name of the changed file
+   * @returns A function that removes the listener
+   */
+  onCredentialsChange(listener: (file: CredentialFile) => void): () => void {
+    this.credentialListeners.add(listener);
+    return () => this.credentialListeners.delete(listener);
+  }
+
+  /**
+   * Waits until unexpired tokens are stored, e.g. by another instance completing authentication
+   * @param timeout How long to wait in milliseconds
+   * @returns True if valid tokens are available, false if the timeout elapsed first
+   */
+  async waitForValidTokens(timeout = 60_000): Promise<boolean> {
+    const hasValidTokens = async () => {
+      if (!(await this.tokens())) return false;
+      const expiresAt = await this.tokensExpireAt();
+      return expiresAt === undefined || expiresAt > Date.now();
+    };
+
+    const deadline = Date.now() + timeout;
+    while (!(await hasValidTokens())) {
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) return false;
+
+      // Wait for the next change to tokens.json, checking periodically in case no watcher runs
+      let removeListener = () => {};
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      await new Promise<void>((resolve) => {
+        removeListener = this.onCredentialsChange((file) => {
+          if (file === "tokens.json") resolve();
+        });
+        timer = setTimeout(resolve, Math.min(remaining, 1000));
+      });
+      removeListener();
+      clearTimeout(timer);
+    }
+    return true;
+  }
+
+  /**
+   * Reloads a credential file into memory and notifies listeners if it changed
+   * @param file The file to reload
+   * @param kind The kind of file system event that triggered the reload
+   */
+  private async reloadCredential(
+    file: CredentialFile,
+    kind?: Deno.FsEvent["kind"],
+  ): Promise<void> {
+    const current = file === "tokens.json"
+      ? this.cachedTokens
+      : this.cachedClientInformation;
+
+    let updated: StoredOAuthTokens | OAuthClientInformation | undefined;
+    if (kind !== "remove") {
+      updated = file === "tokens.json"
+        ? await this.deps.readJsonFile<StoredOAuthTokens>(
+          this.serverUrlHash,
+          file,
+          StoredOAuthTokensSchema,
+        )
+        : await this.deps.readJsonFile<OAuthClientInformation>(
+          this.serverUrlHash,
+          file,
+          OAuthClientInformationSchema,
+        );
+      // A file that exists but can't be read is most likely still being written
+      if (updated === undefined && kind !== undefined) return;
+    }
+
+    // Our own writes also trigger events, only report actual changes
+    if (JSON.stringify(updated) === JSON.stringify(current)) return;
+
+    if (file === "tokens.json") {
+      this.cachedTokens = updated as StoredOAuthTokens | undefined;
+    } else {
+      this.cachedClientInformation = updated as
+        | OAuthClientInformation
+        | undefined;
+    }
+
+    // The initial load is not a change
+    if (kind === undefined) return;
+    this.deps.log(`Reloaded ${file} after it was changed by another process`);
+    for (const listener of this.credentialListeners) {
+      listener(file);
+    }
   }
 
   /**
@@ -188,6 +538,14 @@ export class NodeOAuthClientProvider implements OAuthClientProvider {
    * @param authorizationUrl The URL to redirect to
    */
   async redirectToAuthorization(authorizationUrl: URL): Promise<void> {
+    // The SDK doesn't know about the scope and resource
+    addOAuthRequestParams(authorizationUrl.searchParams, this.requestParams);
+
+    // The callback server only accepts a response carrying this state
+    const state = crypto.randomUUID();
+    await this.deps.writeTextFile(this.serverUrlHash, "state.txt", state);
+    authorizationUrl.searchParams.set("state", state);
+
     this.deps.log(
       `\nPlease authorize this client by visiting:\n${authorizationUrl.toString()}\n`,
     );
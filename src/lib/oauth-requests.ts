@@ -0,0 +1,289 @@
+/**
+ * This module implements the OAuth token requests of the authorization code flow with support for
+ * requested scopes and RFC 8707 resource indicators, as well as RFC 7009 token revocation. The
+ * other grants send their token requests through the same requestTokens().
+ *
+ * The MCP SDK's exchangeAuthorization() and refreshAuthorization() only send the standard
+ * parameters, so there is no way to tell the authorization server which resource the tokens are
+ * meant for. These drop-in replacements accept an additional `scope` and `resource` and otherwise
+ * behave exactly like the SDK functions.
+ *
+ * @example
+ * ```ts
+ * import { refreshAuthorization } from "@mmizutani/mcp-remote-deno/lib/oauth-requests";
+ *
+ * const tokens = await refreshAuthorization(serverUrl, {
+ *   metadata,
+ *   clientInformation,
+ *   refreshToken,
+ *   resource: "https://remote.mcp.server.example.com/mcp",
+ * });
+ * ```
+ *
+ * @module
+ */
+
+import {
+  type OAuthClientInformation,
+  type OAuthMetadata,
+  type OAuthTokens,
+  OAuthTokensSchema,
+} from "@modelcontextprotocol/sdk/shared/auth.js";
+
+/**
+ * Additional parameters to include in authorization and token requests
+ */
+export interface OAuthRequestParams {
+  /** Space-separated scopes to request */
+  scope?: string;
+  /** RFC 8707 resource indicator of the MCP server the tokens are for */
+  resource?: string;
+}
+
+/**
+ * Error response of the token endpoint (RFC 6749 section 5.2)
+ */
+export class OAuthTokenError extends Error {
+  /**
+   * Creates a new OAuthTokenError
+   * @param message The error message
+   * @param status The HTTP status of the response
+   * @param code The OAuth error code, e.g. "invalid_grant", if the server sent one
+   * @param description The human-readable error description, if the server sent one
+   */
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code?: string,
+    readonly description?: string,
+  ) {
+    super(message);
+    this.name = "OAuthTokenError";
+  }
+}
+
+/**
+ * Adds the requested scope and resource to the parameters of a request, if they are set
+ * @param params The request parameters to extend
+ * @param requestParams The scope and resource to add
+ */
+export function addOAuthRequestParams(
+  params: URLSearchParams,
+  { scope, resource }: OAuthRequestParams,
+): void {
+  if (scope) {
+    params.set("scope", scope);
+  }
+  if (resource) {
+    params.set("resource", resource);
+  }
+}
+
+/**
+ * Exchanges an authorization code for tokens, like the SDK's exchangeAuthorization()
+ * @param serverUrl The URL of the MCP server
+ * @param options The authorization server metadata, the client, the code and the resource
+ * @returns The issued tokens
+ */
+export async function exchangeAuthorization(
+  serverUrl: string | URL,
+  {
+    metadata,
+    clientInformation,
+    authorizationCode,
+    codeVerifier,
+    redirectUri,
+    resource,
+  }: {
+    metadata?: OAuthMetadata;
+    clientInformation: OAuthClientInformation;
+    authorizationCode: string;
+    codeVerifier: string;
+    redirectUri: string | URL;
+    resource?: string;
+  },
+): Promise<OAuthTokens> {
+  const params = new URLSearchParams({
+    grant_type: "authorization_code",
+    client_id: clientInformation.client_id,
+    code: authorizationCode,
+    code_verifier: codeVerifier,
+    redirect_uri: String(redirectUri),
+  });
+  // The scope was already granted with the authorization request
+  addOAuthRequestParams(params, { resource });
+
+  return await requestTokens(
+    serverUrl,
+    metadata,
+    clientInformation,
+    params,
+    "Token exchange",
+  );
+}
+
+/**
+ * Exchanges a refresh token for new tokens, like the SDK's refreshAuthorization()
+ * @param serverUrl The URL of the MCP server
+ * @param options The authorization server metadata, the client, the refresh token, the scope and the resource
+ * @returns The issued tokens
+ */
+export async function refreshAuthorization(
+  serverUrl: string | URL,
+  { metadata, clientInformation, refreshToken, scope, resource }: {
+    metadata?: OAuthMetadata;
+    clientInformation: OAuthClientInformation;
+    refreshToken: string;
+    scope?: string;
+    resource?: string;
+  },
+): Promise<OAuthTokens> {
+  const params = new URLSearchParams({
+    grant_type: "refresh_token",
+    client_id: clientInformation.client_id,
+    refresh_token: refreshToken,
+  });
+  addOAuthRequestParams(params, { scope, resource });
+
+  return await requestTokens(
+    serverUrl,
+    metadata,
+    clientInformation,
+    params,
+    "Token refresh",
+  );
+}
+
+/**
+ * Revokes a token at the authorization server's revocation endpoint (RFC 7009)
+ * @param options The authorization server metadata, the client the token was issued to and the token
+ * @throws Error if the server doesn't support revocation or the request fails
+ */
+export async function revokeToken(
+  { metadata, clientInformation, token, tokenTypeHint }: {
+    metadata?: OAuthMetadata;
+    clientInformation: OAuthClientInformation;
+    token: string;
+    tokenTypeHint?: "access_token" | "refresh_token";
+  },
+): Promise<void> {
+  // Unlike the token endpoint there is no default location to fall back to
+  if (!metadata?.revocation_endpoint) {
+    throw new Error(
+      "The authorization server doesn't support token revocation",
+    );
+  }
+
+  const params = new URLSearchParams({
+    token,
+    client_id: clientInformation.client_id,
+  });
+  if (tokenTypeHint) {
+    params.set("token_type_hint", tokenTypeHint);
+  }
+  if (clientInformation.client_secret) {
+    params.set("client_secret", clientInformation.client_secret);
+  }
+
+  const response = await fetch(metadata.revocation_endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: params,
+  });
+  // Servers also answer 200 for tokens that were already invalid
+  if (!response.ok) {
+    throw new Error(`Token revocation failed: HTTP ${response.status}`);
+  }
+}
+
+/**
+ * Extracts the scope required by the server from an insufficient_scope error.
+ *
+ * The SDK transports only report the status and body of a failed request, so this looks for the
+ * error in the message they produce, e.g. a JSON body `{"error":"insufficient_scope","scope":"a b"}`
+ * or an echoed `WWW-Authenticate: Bearer error="insufficient_scope", scope="a b"` challenge.
+ * @param error The error thrown by the transport
+ * @returns The required scope, an empty string if the server didn't say which, or undefined for other errors
+ */
+export function parseInsufficientScopeError(
+  error: unknown,
+): string | undefined {
+  const message = error instanceof Error ? error.message : String(error);
+  if (!message.includes("insufficient_scope")) {
+    return undefined;
+  }
+
+  const jsonStart = message.indexOf("{");
+  if (jsonStart !== -1) {
+    try {
+      const body = JSON.parse(message.slice(jsonStart));
+      if (typeof body.scope === "string") {
+        return body.scope;
+      }
+    } catch {
+      // Not a JSON body
+    }
+  }
+  return message.match(/scope="([^"]*)"/)?.[1] ?? "";
+}
+
+/**
+ * Sends a token request to the token endpoint, for any grant type
+ * @param serverUrl The URL of the MCP server
+ * @param metadata The authorization server metadata
+ * @param clientInformation The client to authenticate as
+ * @param params The grant-specific request parameters
+ * @param description Description of the request for error messages
+ * @returns The issued tokens
+ * @throws OAuthTokenError if the token endpoint answered with an error
+ */
+export async function requestTokens(
+  serverUrl: string | URL,
+  metadata: OAuthMetadata | undefined,
+  clientInformation: OAuthClientInformation,
+  params: URLSearchParams,
+  description: string,
+): Promise<OAuthTokens> {
+  const grantType = params.get("grant_type")!;
+
+  let tokenUrl: URL;
+  if (metadata) {
+    tokenUrl = new URL(metadata.token_endpoint);
+    if (
+      metadata.grant_types_supported &&
+      !metadata.grant_types_supported.includes(grantType)
+    ) {
+      throw new Error(
+        `Incompatible auth server: does not support grant type ${grantType}`,
+      );
+    }
+  } else {
+    tokenUrl = new URL("/token", serverUrl);
+  }
+
+  if (clientInformation.client_secret) {
+    params.set("client_secret", clientInformation.client_secret);
+  }
+
+  const response = await fetch(tokenUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: params,
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new OAuthTokenError(
+      `${description} failed: HTTP ${response.status}`,
+      response.status,
+      typeof error.error === "string" ? error.error : undefined,
+      typeof error.error_description === "string"
+        ? error.error_description
+        : undefined,
+    );
+  }
+  return OAuthTokensSchema.parse(await response.json());
+}
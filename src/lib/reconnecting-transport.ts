@@ -0,0 +1,427 @@
+/**
+ * This module provides a transport wrapper that keeps a proxied session alive while the
+ * connection to the remote MCP server is interrupted.
+ *
+ * When the wrapped transport drops, the ReconnectingTransport reconnects with exponential
+ * backoff. Messages sent while the connection is down are buffered and replayed once it is back,
+ * and requests that were already in flight get a JSON-RPC error response since their responses
+ * were lost with the old connection. The session is re-initialized with the original
+ * `initialize` request before the buffer is replayed, so the remote server sees a regular session.
+ *
+ * @example
+ * ```ts
+ * import { ReconnectingTransport } from "@mmizutani/mcp-remote-deno/lib/reconnecting-transport";
+ *
+ * const remoteTransport = new ReconnectingTransport(
+ *   await connectToRemoteServer(serverUrl, authProvider, headers, waitForAuthCode),
+ *   () => connectToRemoteServer(serverUrl, authProvider, headers, waitForAuthCode),
+ * );
+ *
+ * mcpProxy({
+ *   transportToClient: localTransport,
+ *   transportToServer: remoteTransport,
+ * });
+ * ```
+ *
+ * @module
+ */
+
+import { SseError } from "@modelcontextprotocol/sdk/client/sse.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  ErrorCode,
+  isInitializedNotification,
+  isJSONRPCError,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  type JSONRPCMessage,
+  type JSONRPCRequest,
+  type RequestId,
+} from "@modelcontextprotocol/sdk/types.js";
+import { log } from "./utils.ts";
+
+/**
+ * Options controlling the reconnection behavior
+ */
+export interface ReconnectOptions {
+  /** Delay before the first reconnection attempt in milliseconds (default: 1000) */
+  initialDelay?: number;
+  /** Upper bound for the delay between attempts in milliseconds (default: 30000) */
+  maxDelay?: number;
+  /** Factor the delay grows by after each failed attempt (default: 2) */
+  backoffFactor?: number;
+  /** Number of attempts before giving up and closing the transport (default: 10) */
+  maxAttempts?: number;
+  /** Time to wait for the remote server to answer the replayed initialize request (default: 30000) */
+  initializeTimeout?: number;
+  /**
+   * Decides whether a failure to send a message calls for a new connection even though the server
+   * was reached, e.g. because new credentials are needed. Network failures always reconnect.
+   */
+  shouldReconnect?: (error: unknown) => boolean;
+}
+
+/**
+ * Transport that transparently reconnects to the remote server when the connection drops
+ */
+export class ReconnectingTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  private transport: Transport;
+  private connected = true;
+  private closed = false;
+  private buffer: JSONRPCMessage[] = [];
+  private inFlight = new Map<RequestId, JSONRPCRequest>();
+  private initializeRequest: JSONRPCRequest | undefined;
+  private initializedNotification: JSONRPCMessage | undefined;
+  private reinitializeCount = 0;
+  private pendingReinitialize:
+    | {
+      id: RequestId;
+      resolve: (message: JSONRPCMessage) => void;
+      forward: boolean;
+    }
+    | undefined;
+  private options: Required<ReconnectOptions>;
+
+  /**
+   * Creates a new ReconnectingTransport
+   * @param transport The already connected transport to the remote server
+   * @param connect Function creating a new connected transport to the remote server
+   * @param options Options controlling the reconnection behavior
+   */
+  constructor(
+    transport: Transport,
+    private connect: () => Promise<Transport>,
+    options: ReconnectOptions = {},
+  ) {
+    this.options = {
+      initialDelay: options.initialDelay ?? 1000,
+      maxDelay: options.maxDelay ?? 30000,
+      backoffFactor: options.backoffFactor ?? 2,
+      maxAttempts: options.maxAttempts ?? 10,
+      initializeTimeout: options.initializeTimeout ?? 30000,
+      shouldReconnect: options.shouldReconnect ?? (() => false),
+    };
+    this.transport = transport;
+    this.attach(transport);
+  }
+
+  /**
+   * Whether the transport is currently connected to the remote server
+   */
+  get isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * The wrapped transport is already started, so there is nothing to do here
+   */
+  start(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  /**
+   * Sends a message to the remote server, buffering it while the connection is down
+   * @param message The message to send
+   */
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (this.closed) {
+      throw new Error("Transport is closed");
+    }
+
+    // Remember how the session was initialized so that it can be replayed after reconnecting
+    if (isJSONRPCRequest(message) && message.method === "initialize") {
+      this.initializeRequest = message;
+    } else if (isInitializedNotification(message)) {
+      this.initializedNotification = message;
+    }
+
+    if (!this.connected) {
+      this.buffer.push(message);
+      return;
+    }
+
+    if (isJSONRPCRequest(message)) {
+      this.inFlight.set(message.id, message);
+    }
+
+    const transport = this.transport;
+    try {
+      await transport.send(message);
+    } catch (error) {
+      if (isJSONRPCRequest(message)) {
+        this.inFlight.delete(message.id);
+      }
+      if (this.connected && transport !== this.transport) {
+        // We already reconnected in the meantime
+        return this.send(message);
+      }
+      if (
+        this.connected && !isConnectionError(error) &&
+        !this.options.shouldReconnect(error)
+      ) {
+        throw error;
+      }
+      // The message was never processed by the server, so it is safe to replay
+      this.buffer.push(message);
+      this.handleDisconnect();
+    }
+  }
+
+  /**
+   * Closes the transport and stops reconnecting
+   */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+
+    if (this.connected) {
+      // The wrapped transport's onclose will notify our listeners
+      await this.transport.close();
+    } else {
+      this.onclose?.();
+    }
+  }
+
+  /**
+   * Attaches our handlers to a wrapped transport
+   * @param transport The wrapped transport
+   */
+  private attach(transport: Transport): void {
+    transport.onmessage = (message) => this.handleMessage(message);
+    transport.onerror = (error) => {
+      this.onerror?.(error);
+      // The SSE transport reports the loss of its stream here and never closes
+      if (error instanceof SseError && transport === this.transport) {
+        this.handleDisconnect();
+      }
+    };
+    transport.onclose = () => {
+      if (this.closed) {
+        this.onclose?.();
+        return;
+      }
+      if (transport === this.transport) {
+        this.handleDisconnect();
+      }
+    };
+  }
+
+  /**
+   * Handles a message from the remote server
+   * @param message The received message
+   */
+  private handleMessage(message: JSONRPCMessage): void {
+    if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+      if (this.pendingReinitialize?.id === message.id) {
+        const { resolve, forward } = this.pendingReinitialize;
+        resolve(message);
+        // Response to a copy of the initialize request, the client has seen the original one
+        if (!forward) return;
+      }
+      this.inFlight.delete(message.id);
+    }
+    this.onmessage?.(message);
+  }
+
+  /**
+   * Handles the loss of the connection to the remote server
+   */
+  private handleDisconnect(): void {
+    if (this.closed || !this.connected) return;
+    this.connected = false;
+    log("Connection to remote server lost, reconnecting...");
+
+    // Stop listening to the old transport and make sure it is torn down
+    const oldTransport = this.transport;
+    oldTransport.onmessage = undefined;
+    oldTransport.onerror = undefined;
+    oldTransport.onclose = undefined;
+    oldTransport.close().catch(() => {});
+
+    // Responses to requests already sent over the old connection are lost
+    this.failRequests(
+      [...this.inFlight.values()],
+      "Connection to remote server lost before the request completed",
+    );
+    this.inFlight.clear();
+
+    void this.reconnect();
+  }
+
+  /**
+   * Reconnects to the remote server with exponential backoff
+   */
+  private async reconnect(): Promise<void> {
+    const { initialDelay, maxDelay, backoffFactor, maxAttempts } = this.options;
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      const delay = Math.min(
+        initialDelay * Math.pow(backoffFactor, attempt),
+        maxDelay,
+      );
+      log(
+        `Reconnection attempt ${attempt + 1}/${maxAttempts} in ${delay}ms`,
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      if (this.closed) return;
+
+      let transport: Transport | undefined;
+      try {
+        transport = await this.connect();
+        if (this.closed) {
+          await transport.close();
+          return;
+        }
+        this.transport = transport;
+        this.attach(transport);
+        await this.reinitialize(transport);
+        await this.flush(transport);
+      } catch (error) {
+        log("Reconnection attempt failed:", error);
+        this.failRequests(
+          [...this.inFlight.values()],
+          "Connection to remote server lost before the request completed",
+        );
+        this.inFlight.clear();
+        if (transport) {
+          transport.onclose = undefined;
+          await transport.close().catch(() => {});
+        }
+        continue;
+      }
+
+      // Only now, so that new messages can't overtake the buffered ones
+      log("Reconnected to remote server");
+      this.connected = true;
+      return;
+    }
+
+    log(`Giving up after ${maxAttempts} reconnection attempts`);
+    this.closed = true;
+    this.failRequests(
+      this.buffer.filter(isJSONRPCRequest),
+      "Could not reconnect to remote server",
+    );
+    this.buffer = [];
+    this.onclose?.();
+  }
+
+  /**
+   * Replays the session initialization on a new connection
+   * @param transport The new transport
+   */
+  private async reinitialize(transport: Transport): Promise<void> {
+    if (!this.initializeRequest) return;
+
+    // The client's own initialize request may still be buffered. Then it is sent with its own ID
+    // and the response is forwarded, since the client is still waiting for it.
+    const forward = this.buffer.includes(this.initializeRequest);
+    const id = forward
+      ? this.initializeRequest.id
+      : `mcp-remote-reinitialize-${++this.reinitializeCount}`;
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const response = new Promise<JSONRPCMessage>((resolve, reject) => {
+      this.pendingReinitialize = { id, resolve, forward };
+      timeoutId = setTimeout(
+        () => reject(new Error("Timed out re-initializing session")),
+        this.options.initializeTimeout,
+      );
+    });
+
+    try {
+      await transport.send({ ...this.initializeRequest, id });
+      const result = await response;
+      if (forward) {
+        // The client sends its own initialized notification
+        return;
+      }
+      if (isJSONRPCError(result)) {
+        throw new Error(
+          `Remote server rejected re-initialization: ${result.error.message}`,
+        );
+      }
+    } finally {
+      clearTimeout(timeoutId);
+      this.pendingReinitialize = undefined;
+    }
+
+    if (this.initializedNotification) {
+      await transport.send(this.initializedNotification);
+    }
+  }
+
+  /**
+   * Replays messages buffered while the connection was down, including those the client sends
+   * while the buffer is being replayed
+   * @param transport The new transport
+   * @throws Error if the connection drops again, leaving the unsent messages in the buffer
+   */
+  private async flush(transport: Transport): Promise<void> {
+    if (this.buffer.length > 0) {
+      log(`Replaying ${this.buffer.length} buffered message(s)`);
+    }
+    while (this.buffer.length > 0) {
+      const message = this.buffer.shift()!;
+      // Session setup was already replayed by reinitialize()
+      if (
+        message === this.initializedNotification ||
+        message === this.initializeRequest
+      ) {
+        continue;
+      }
+
+      if (isJSONRPCRequest(message)) {
+        this.inFlight.set(message.id, message);
+      }
+      try {
+        await transport.send(message);
+      } catch (error) {
+        if (isJSONRPCRequest(message)) {
+          this.inFlight.delete(message.id);
+        }
+        if (!isConnectionError(error) && !this.options.shouldReconnect(error)) {
+          this.onerror?.(error as Error);
+          continue;
+        }
+        this.buffer.unshift(message);
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Answers requests that can't be completed with a JSON-RPC error
+   * @param requests The requests to fail
+   * @param reason The error message to send
+   */
+  private failRequests(requests: JSONRPCMessage[], reason: string): void {
+    for (const request of requests) {
+      if (!isJSONRPCRequest(request)) continue;
+      this.onmessage?.({
+        jsonrpc: "2.0",
+        id: request.id,
+        error: {
+          code: ErrorCode.ConnectionClosed,
+          message: reason,
+        },
+      });
+    }
+  }
+}
+
+/**
+ * Checks whether an error indicates that the remote server could not be reached
+ * @param error The error to check
+ * @returns True if the error is a network-level failure
+ */
+function isConnectionError(error: unknown): boolean {
+  // fetch() rejects with a TypeError when the connection fails, and a restarted server no longer
+  // knows the session the endpoint was issued for
+  return error instanceof TypeError ||
+    (error instanceof Error &&
+      /ECONNREFUSED|ECONNRESET|network|\(HTTP 404\)/i.test(error.message));
+}
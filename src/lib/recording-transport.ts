@@ -0,0 +1,159 @@
+/**
+ * This module provides a transport wrapper that records the traffic with the remote MCP server
+ * to a JSON Lines file, to debug misbehaving servers and to attach evidence to bug reports.
+ *
+ * Each line holds the direction of a message, when it passed and the message itself. Responses
+ * also hold the latency since the request they answer. The recording shows the messages as the
+ * remote server sees them, so requests rejected by the proxy itself are not in it. Recordings are
+ * appended to the file, and they can be played back with the ReplayTransport.
+ *
+ * @example
+ * ```ts
+ * import { RecordingTransport } from "@mmizutani/mcp-remote-deno/lib/recording-transport";
+ *
+ * mcpProxy({
+ *   transportToClient: localTransport,
+ *   transportToServer: new RecordingTransport(remoteTransport, "traffic.jsonl"),
+ * });
+ * ```
+ *
+ * @module
+ */
+
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  isJSONRPCError,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  type JSONRPCMessage,
+} from "@modelcontextprotocol/sdk/types.js";
+import { log } from "./utils.ts";
+
+/**
+ * Which way a recorded message went
+ */
+export type RecordedDirection = "client-to-server" | "server-to-client";
+
+/**
+ * A line of the recording
+ */
+export interface RecordedMessage {
+  /** Which way the message went */
+  direction: RecordedDirection;
+  /** When the message passed, as an ISO 8601 string */
+  timestamp: string;
+  /** The message */
+  message: JSONRPCMessage;
+  /** For responses, the milliseconds since the request they answer */
+  latencyMs?: number;
+}
+
+/**
+ * Interface defining the dependencies for RecordingTransport,
+ * allowing for injection during testing.
+ */
+export interface RecordingTransportDeps {
+  writeTextFile: typeof Deno.writeTextFile;
+  now: () => number;
+}
+
+/**
+ * Transport that records every message sent to and received from the remote server
+ */
+export class RecordingTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  // When the requests in flight were sent, by direction and ID
+  private requestTimes = new Map<string, number>();
+  private writing = Promise.resolve();
+  private deps: RecordingTransportDeps;
+
+  /**
+   * Creates a new RecordingTransport
+   * @param transport The transport to the remote server
+   * @param path The JSON Lines file to append the recording to
+   * @param deps Optional dependencies for testing
+   */
+  constructor(
+    private transport: Transport,
+    private path: string,
+    deps?: Partial<RecordingTransportDeps>,
+  ) {
+    this.deps = {
+      writeTextFile: deps?.writeTextFile ?? Deno.writeTextFile,
+      now: deps?.now ?? Date.now,
+    };
+
+    transport.onmessage = (message) => {
+      this.record("server-to-client", message);
+      this.onmessage?.(message);
+    };
+    transport.onclose = () => this.onclose?.();
+    transport.onerror = (error) => this.onerror?.(error);
+  }
+
+  /**
+   * Starts the wrapped transport
+   */
+  start(): Promise<void> {
+    return this.transport.start();
+  }
+
+  /**
+   * Records a message and sends it to the remote server
+   * @param message The message to send
+   */
+  send(message: JSONRPCMessage): Promise<void> {
+    this.record("client-to-server", message);
+    return this.transport.send(message);
+  }
+
+  /**
+   * Closes the wrapped transport and waits for the recording to be written
+   */
+  async close(): Promise<void> {
+    await this.transport.close();
+    await this.writing;
+  }
+
+  /**
+   * Appends a message to the recording, in the order the messages passed
+   * @param direction Which way the message went
+   * @param message The message
+   */
+  private record(direction: RecordedDirection, message: JSONRPCMessage) {
+    const now = this.deps.now();
+    const line: RecordedMessage = {
+      direction,
+      timestamp: new Date(now).toISOString(),
+      message,
+    };
+
+    if (isJSONRPCRequest(message)) {
+      this.requestTimes.set(`${direction}:${message.id}`, now);
+    } else if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+      // The request went the other way
+      const key = `${
+        direction === "client-to-server"
+          ? "server-to-client"
+          : "client-to-server"
+      }:${message.id}`;
+      const sentAt = this.requestTimes.get(key);
+      if (sentAt !== undefined) {
+        this.requestTimes.delete(key);
+        line.latencyMs = now - sentAt;
+      }
+    }
+
+    // A failing recording shouldn't interrupt the session
+    this.writing = this.writing
+      .then(() =>
+        this.deps.writeTextFile(this.path, JSON.stringify(line) + "\n", {
+          append: true,
+        })
+      )
+      .catch((error) => log(`Could not record to ${this.path}:`, error));
+  }
+}
@@ -0,0 +1,303 @@
+/**
+ * This module provides a transport that plays back traffic recorded with `--record` in place of
+ * the remote MCP server, to reproduce client bugs offline and to run tests without network access.
+ *
+ * Requests are answered with the recorded response to the first recorded request with the same
+ * method and params that hasn't been played back yet. Once all of them have been, the last one is
+ * played back again, so clients can e.g. list the tools as often as they like. The `_meta` of the
+ * params is left out of the comparison, since it holds values like progress tokens that differ
+ * between sessions, and `initialize` matches by method alone, since the client info does.
+ *
+ * The notifications and requests the server sent after a message of the client, up to the next
+ * one, are played back after that message. Progress notifications are played back with the
+ * request they report on, so the progress of a tool call arrives before its result. Requests
+ * without a recorded match are answered with an error.
+ *
+ * @example
+ * ```ts
+ * import { ReplayTransport } from "@mmizutani/mcp-remote-deno/lib/replay-transport";
+ *
+ * mcpProxy({
+ *   transportToClient: localTransport,
+ *   transportToServer: await ReplayTransport.fromFile("traffic.jsonl"),
+ * });
+ * ```
+ *
+ * @module
+ */
+
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  ErrorCode,
+  isJSONRPCError,
+  isJSONRPCNotification,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  type JSONRPCMessage,
+  type JSONRPCRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { RecordedMessage } from "./recording-transport.ts";
+import { log } from "./utils.ts";
+
+/**
+ * Interface defining the dependencies for ReplayTransport.fromFile,
+ * allowing for injection during testing.
+ */
+export interface ReplayTransportDeps {
+  readTextFile: (path: string) => Promise<string>;
+}
+
+/**
+ * A recorded request or notification of the client, with what the server sent for it
+ */
+interface RecordedExchange {
+  method: string;
+  params: string;
+  /** The messages of the server, in the recorded order */
+  replies: JSONRPCMessage[];
+  played: boolean;
+}
+
+/**
+ * Transport that answers requests with a recording of the remote server
+ */
+export class ReplayTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  private exchanges: RecordedExchange[] = [];
+  // Messages of the server sent before any message of the client
+  private greeting: JSONRPCMessage[] = [];
+  private closed = false;
+
+  /**
+   * Creates a new ReplayTransport
+   * @param recording The recorded messages, in the order they passed
+   */
+  constructor(recording: RecordedMessage[]) {
+    const requests = new Map<string, RecordedExchange>();
+    const progressTokens = new Map<string, RecordedExchange>();
+    let current: RecordedExchange | undefined;
+
+    for (const { direction, message } of recording) {
+      if (direction === "client-to-server") {
+        // Responses to requests of the server need no reply
+        if (isJSONRPCRequest(message) || isJSONRPCNotification(message)) {
+          current = {
+            method: message.method,
+            params: canonicalParams(message.params),
+            replies: [],
+            played: false,
+          };
+          this.exchanges.push(current);
+          if (isJSONRPCRequest(message)) {
+            requests.set(String(message.id), current);
+            const progressToken = message.params?._meta?.progressToken;
+            if (progressToken !== undefined) {
+              progressTokens.set(String(progressToken), current);
+            }
+          }
+        }
+      } else if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+        const exchange = requests.get(String(message.id));
+        requests.delete(String(message.id));
+        exchange?.replies.push(message);
+      } else if (
+        isJSONRPCNotification(message) &&
+        message.method === "notifications/progress" &&
+        progressTokens.has(String(message.params?.progressToken))
+      ) {
+        // Progress belongs to its request, even when other requests were sent in the meantime
+        progressTokens.get(String(message.params?.progressToken))!.replies
+          .push(message);
+      } else {
+        (current?.replies ?? this.greeting).push(message);
+      }
+    }
+  }
+
+  /**
+   * Loads a recording written with `--record`
+   * @param path The JSON Lines file
+   * @param deps Optional dependencies for testing
+   * @returns The transport playing back the recording
+   * @throws Error if the file can't be read or a line isn't a recorded message
+   */
+  static async fromFile(
+    path: string,
+    deps?: Partial<ReplayTransportDeps>,
+  ): Promise<ReplayTransport> {
+    const readTextFile = deps?.readTextFile ?? Deno.readTextFile;
+
+    const recording: RecordedMessage[] = [];
+    const lines = (await readTextFile(path)).split("\n");
+    for (const [index, line] of lines.entries()) {
+      if (line.trim() === "") {
+        continue;
+      }
+      let recorded: RecordedMessage;
+      try {
+        recorded = JSON.parse(line);
+      } catch (error) {
+        throw new Error(
+          `Invalid recording ${path}, line ${index + 1}: ${
+            (error as Error).message
+          }`,
+        );
+      }
+      if (
+        (recorded?.direction !== "client-to-server" &&
+          recorded?.direction !== "server-to-client") ||
+        typeof recorded.message !== "object" || recorded.message === null
+      ) {
+        throw new Error(
+          `Invalid recording ${path}, line ${
+            index + 1
+          }: expected a direction and a message`,
+        );
+      }
+      recording.push(recorded);
+    }
+
+    log(`Replaying ${recording.length} recorded messages from ${path}`);
+    return new ReplayTransport(recording);
+  }
+
+  /**
+   * Plays back the messages the server sent before the client sent anything
+   */
+  start(): Promise<void> {
+    this.play(this.greeting);
+    return Promise.resolve();
+  }
+
+  /**
+   * Plays back what the server sent for the recorded message matching this one
+   * @param message The message of the client
+   */
+  send(message: JSONRPCMessage): Promise<void> {
+    if (this.closed) {
+      return Promise.reject(new Error("Transport is closed"));
+    }
+    if (!isJSONRPCRequest(message) && !isJSONRPCNotification(message)) {
+      return Promise.resolve();
+    }
+
+    const exchange = this.match(message.method, message.params);
+    if (exchange) {
+      exchange.played = true;
+      this.play(
+        isJSONRPCRequest(message)
+          ? exchange.replies.map((reply) => answer(message, reply))
+          : exchange.replies,
+      );
+    } else if (isJSONRPCRequest(message)) {
+      const recorded = this.exchanges.some((other) =>
+        other.method === message.method
+      );
+      log(`No recorded response to ${message.method}`);
+      this.play([{
+        jsonrpc: "2.0",
+        id: message.id,
+        error: recorded
+          ? {
+            code: ErrorCode.InvalidParams,
+            message:
+              `No recorded response to ${message.method} with these params`,
+          }
+          : {
+            code: ErrorCode.MethodNotFound,
+            message: `No recorded response to ${message.method}`,
+          },
+      }]);
+    }
+    return Promise.resolve();
+  }
+
+  /**
+   * Stops playing back the recording
+   */
+  close(): Promise<void> {
+    if (!this.closed) {
+      this.closed = true;
+      this.onclose?.();
+    }
+    return Promise.resolve();
+  }
+
+  /**
+   * Finds the recorded message to play back for a message of the client
+   * @param method The method of the message
+   * @param params The params of the message
+   * @returns The first match that hasn't been played back yet, otherwise the last match
+   */
+  private match(
+    method: string,
+    params: unknown,
+  ): RecordedExchange | undefined {
+    const key = canonicalParams(params);
+    const matches = this.exchanges.filter((exchange) =>
+      exchange.method === method &&
+      (method === "initialize" || exchange.params === key)
+    );
+    return matches.find((exchange) => !exchange.played) ?? matches.at(-1);
+  }
+
+  /**
+   * Delivers messages of the server asynchronously, like a remote server would
+   * @param messages The messages
+   */
+  private play(messages: JSONRPCMessage[]) {
+    queueMicrotask(() => {
+      for (const message of messages) {
+        if (this.closed) {
+          return;
+        }
+        this.onmessage?.(message);
+      }
+    });
+  }
+}
+
+/**
+ * Adapts a recorded message of the server to the request being played back: the response takes
+ * the ID of the request and progress notifications take its progress token
+ * @param request The request of the client
+ * @param reply The recorded message
+ * @returns The message to deliver
+ */
+function answer(
+  request: JSONRPCRequest,
+  reply: JSONRPCMessage,
+): JSONRPCMessage {
+  if (isJSONRPCResponse(reply) || isJSONRPCError(reply)) {
+    return { ...reply, id: request.id };
+  }
+  const progressToken = request.params?._meta?.progressToken;
+  if (
+    isJSONRPCNotification(reply) &&
+    reply.method === "notifications/progress" && progressToken !== undefined
+  ) {
+    return { ...reply, params: { ...reply.params, progressToken } };
+  }
+  return reply;
+}
+
+/**
+ * Serializes params for comparison, with sorted keys and without `_meta`
+ * @param params The params of a message
+ * @returns The serialized params
+ */
+function canonicalParams(params: unknown): string {
+  const { _meta: _, ...rest } = (params ?? {}) as Record<string, unknown>;
+  return JSON.stringify(
+    rest,
+    (_key, value) =>
+      typeof value === "object" && value !== null && !Array.isArray(value)
+        ? Object.fromEntries(
+          Object.entries(value).sort(([a], [b]) => a.localeCompare(b)),
+        )
+        : value,
+  );
+}
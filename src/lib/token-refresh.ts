@@ -0,0 +1,219 @@
+/**
+ * This module refreshes OAuth access tokens proactively, shortly before they expire.
+ *
+ * Without it, tokens are only refreshed once a request fails with 401, which surfaces as an
+ * authentication failure in the middle of a proxied session. The scheduler uses the issue time
+ * that NodeOAuthClientProvider stores next to the tokens to work out when the access token
+ * expires, and uses the refresh_token grant a configurable margin before that. Refreshes are
+ * serialized across processes with the refresh lock from the coordination module, so only one
+ * proxy instance uses a given refresh token and the others pick up the result from tokens.json.
+ *
+ * @example
+ * ```ts
+ * import { TokenRefreshScheduler } from "@mmizutani/mcp-remote-deno/lib/token-refresh";
+ *
+ * const scheduler = new TokenRefreshScheduler(authProvider, serverUrl);
+ * await scheduler.start();
+ *
+ * // On shutdown
+ * scheduler.stop();
+ * ```
+ *
+ * @module
+ */
+
+import { discoverOAuthMetadata } from "@modelcontextprotocol/sdk/client/auth.js";
+import type { NodeOAuthClientProvider } from "./node-oauth-client-provider.ts";
+import { withRefreshLock } from "./coordination.ts";
+import { OAuthTokenError, refreshAuthorization } from "./oauth-requests.ts";
+import * as utils from "./utils.ts";
+
+/**
+ * Options for the token refresh scheduler
+ */
+export interface TokenRefreshSchedulerOptions {
+  /** How long before the access token expires to refresh it, in milliseconds (default: 60000) */
+  refreshMargin?: number;
+  /** How long to wait before retrying a failed refresh, in milliseconds (default: 30000) */
+  retryDelay?: number;
+}
+
+/**
+ * Interface defining the dependencies for TokenRefreshScheduler,
+ * allowing for injection during testing.
+ */
+export interface TokenRefreshSchedulerDeps {
+  discoverOAuthMetadata: typeof discoverOAuthMetadata;
+  refreshAuthorization: typeof refreshAuthorization;
+  withRefreshLock: typeof withRefreshLock;
+  getServerUrlHash: typeof utils.getServerUrlHash;
+  log: typeof utils.log;
+}
+
+/**
+ * Refreshes the access token of a NodeOAuthClientProvider in the background before it expires
+ */
+export class TokenRefreshScheduler {
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private stopped = true;
+  private refreshMargin: number;
+  private retryDelay: number;
+  private deps: TokenRefreshSchedulerDeps;
+  private serverUrlHash: string;
+
+  /**
+   * Creates a new TokenRefreshScheduler
+   * @param provider The provider whose tokens should be kept fresh
+   * @param serverUrl The URL of the MCP server the tokens are for
+   * @param options Options for the scheduler
+   * @param deps Optional dependencies for testing
+   */
+  constructor(
+    private provider: NodeOAuthClientProvider,
+    private serverUrl: string,
+    options: TokenRefreshSchedulerOptions = {},
+    deps?: Partial<TokenRefreshSchedulerDeps>,
+  ) {
+    this.refreshMargin = options.refreshMargin ?? 60_000;
+    this.retryDelay = options.retryDelay ?? 30_000;
+    this.deps = {
+      discoverOAuthMetadata: deps?.discoverOAuthMetadata ??
+        discoverOAuthMetadata,
+      refreshAuthorization: deps?.refreshAuthorization ??
+        refreshAuthorization,
+      withRefreshLock: deps?.withRefreshLock ?? withRefreshLock,
+      getServerUrlHash: deps?.getServerUrlHash ?? utils.getServerUrlHash,
+      log: deps?.log ?? utils.log,
+    };
+    this.serverUrlHash = this.deps.getServerUrlHash(
+      serverUrl,
+      provider.options.profile,
+    );
+  }
+
+  /**
+   * Starts scheduling refreshes based on the currently stored tokens
+   */
+  async start(): Promise<void> {
+    this.stopped = false;
+    await this.schedule();
+  }
+
+  /**
+   * Stops any scheduled refresh
+   */
+  stop(): void {
+    this.stopped = true;
+    this.clearTimer();
+  }
+
+  /**
+   * Refreshes the access token immediately using the refresh_token grant
+   * @returns True if new tokens were saved, false if there was nothing to refresh with
+   */
+  async refreshNow(): Promise<boolean> {
+    const staleTokens = await this.provider.tokens();
+    if (!staleTokens?.refresh_token) {
+      this.deps.log("No refresh token available, skipping proactive refresh");
+      return false;
+    }
+
+    // Other instances sharing these credentials may be refreshing at the same time, and servers
+    // that rotate refresh tokens only accept the first of those refreshes
+    return await this.deps.withRefreshLock(this.serverUrlHash, async () => {
+      const tokens = await this.provider.tokens();
+      if (!tokens?.refresh_token) {
+        this.deps.log(
+          "No refresh token available, skipping proactive refresh",
+        );
+        return false;
+      }
+      if (tokens.access_token !== staleTokens.access_token) {
+        this.deps.log("Tokens were already refreshed by another instance");
+        return true;
+      }
+
+      const clientInformation = await this.provider.clientInformation();
+      if (!clientInformation) {
+        this.deps.log(
+          "No client information available, skipping proactive refresh",
+        );
+        return false;
+      }
+
+      const metadata = await this.deps.discoverOAuthMetadata(this.serverUrl);
+      const newTokens = await this.deps.refreshAuthorization(this.serverUrl, {
+        metadata,
+        clientInformation,
+        refreshToken: tokens.refresh_token,
+        ...this.provider.requestParams,
+      });
+
+      // Servers that don't rotate refresh tokens leave them out of the response
+      await this.provider.saveTokens({
+        refresh_token: tokens.refresh_token,
+        ...newTokens,
+      });
+      return true;
+    });
+  }
+
+  /**
+   * Schedules the next refresh based on when the stored access token expires
+   */
+  private async schedule(): Promise<void> {
+    this.clearTimer();
+    if (this.stopped) return;
+
+    const expiresAt = await this.provider.tokensExpireAt();
+    if (expiresAt === undefined) {
+      this.deps.log("Token expiry unknown, proactive refresh not scheduled");
+      return;
+    }
+
+    const delay = Math.max(expiresAt - this.refreshMargin - Date.now(), 0);
+    this.deps.log(
+      `Scheduling token refresh in ${Math.round(delay / 1000)} seconds`,
+    );
+    this.setTimer(delay);
+  }
+
+  /**
+   * Performs a scheduled refresh and schedules the next one
+   */
+  private async run(): Promise<void> {
+    this.timer = undefined;
+    try {
+      if (!(await this.refreshNow())) return;
+      this.deps.log("Access token refreshed");
+      await this.schedule();
+    } catch (error) {
+      // A rejected refresh token stays rejected, so retrying would only flood the token endpoint
+      if (error instanceof OAuthTokenError && error.code === "invalid_grant") {
+        this.deps.log(
+          "Proactive refresh stopped, the refresh token was rejected and the server needs to be authorized again:",
+          error.description ?? error.message,
+        );
+        return;
+      }
+      this.deps.log("Token refresh failed:", error);
+      if (!this.stopped) {
+        this.setTimer(this.retryDelay);
+      }
+    }
+  }
+
+  private setTimer(delay: number): void {
+    const timer = setTimeout(() => this.run(), delay);
+    // Don't keep the process alive just for the refresh
+    Deno.unrefTimer(timer);
+    this.timer = timer;
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * This module hides tools of the remote server from the client, e.g. to keep destructive tools
+ * out of reach of the model. Hidden tools are removed from `tools/list` results, and calls to
+ * them are rejected by the proxy without reaching the server.
+ *
+ * @example
+ * ```ts
+ * import { createToolFilter } from "@mmizutani/mcp-remote-deno/lib/tool-filter";
+ *
+ * mcpProxy({
+ *   transportToClient: localTransport,
+ *   transportToServer: remoteTransport,
+ *   transforms: [createToolFilter({ allow: [], deny: ["delete_*", "admin_*"] })],
+ * });
+ * ```
+ *
+ * @module
+ */
+
+import { ErrorCode, type Tool } from "@modelcontextprotocol/sdk/types.js";
+import type { ToolFilter } from "./types.ts";
+import { log, type ProxyTransform } from "./utils.ts";
+
+/**
+ * Converts a glob pattern to a regular expression matching whole names
+ * @param glob The pattern, where `*` matches any characters and `?` a single one
+ * @returns The regular expression
+ */
+export function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*")
+    .replace(/\?/g, ".");
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Checks whether a tool is exposed to the client
+ * @param name The name of the tool
+ * @param filter The tools to expose
+ * @returns True if the tool is allowed and not denied
+ */
+export function isToolAllowed(name: string, filter: ToolFilter): boolean {
+  const matches = (globs: string[]) =>
+    globs.some((glob) => globToRegExp(glob).test(name));
+  return (filter.allow.length === 0 || matches(filter.allow)) &&
+    !matches(filter.deny);
+}
+
+/**
+ * Creates the proxy transform hiding the tools the filter doesn't expose
+ * @param filter The tools to expose
+ * @returns The transform for mcpProxy
+ */
+export function createToolFilter(filter: ToolFilter): ProxyTransform {
+  return {
+    request(request) {
+      if (request.method !== "tools/call") {
+        return request;
+      }
+      const name = request.params?.name;
+      if (typeof name === "string" && isToolAllowed(name, filter)) {
+        return request;
+      }
+
+      log(`Blocked call to tool ${name}`);
+      return {
+        jsonrpc: "2.0",
+        id: request.id,
+        error: {
+          code: ErrorCode.InvalidParams,
+          message: `Tool ${name} is not allowed`,
+        },
+      };
+    },
+
+    result(method, result) {
+      if (method !== "tools/list" || !Array.isArray(result.tools)) {
+        return result;
+      }
+      return {
+        ...result,
+        tools: (result.tools as Tool[]).filter((tool) =>
+          isToolAllowed(tool.name, filter)
+        ),
+      };
+    },
+  };
+}
@@ -10,6 +10,8 @@ export interface OAuthProviderOptions {
   callbackPort: number;
   /** Path for the OAuth callback endpoint */
   callbackPath?: string;
+  /** Host in the redirect URI, defaults to 127.0.0.1 */
+  redirectHost?: string;
   /** Directory to store OAuth credentials */
   configDir?: string;
   /** Client name to use for OAuth registration */
@@ -20,6 +22,39 @@ export interface OAuthProviderOptions {
   softwareId?: string;
   /** Software version to use for OAuth registration */
   softwareVersion?: string;
+  /** Pre-registered client to use instead of dynamic client registration */
+  staticClientInfo?: StaticOAuthClientInfo;
+  /** Space-separated scopes to request, the server's defaults are used if not set */
+  scope?: string;
+  /** RFC 8707 resource indicator of the MCP server the tokens are for */
+  resource?: string;
+  /** Named profile whose credentials to use, for holding several identities on the same server */
+  profile?: string;
+}
+
+/**
+ * A client registered with the authorization server ahead of time, for servers that don't
+ * support dynamic client registration. Field names follow the OAuth client metadata.
+ */
+export interface StaticOAuthClientInfo {
+  /** Client ID issued by the authorization server */
+  client_id: string;
+  /** Client secret issued by the authorization server, for confidential clients */
+  client_secret?: string;
+  /** How the client authenticates at the token endpoint */
+  token_endpoint_auth_method?: "none" | "client_secret_post";
+  /** Redirect URI registered for the client, used instead of the local callback URL */
+  redirect_uri?: string;
+}
+
+/**
+ * Pre-registered client credentials for the OAuth client credentials grant
+ */
+export interface ClientCredentials {
+  /** Client ID registered with the authorization server */
+  clientId: string;
+  /** Client secret registered with the authorization server */
+  clientSecret: string;
 }
 
 /**
@@ -28,8 +63,83 @@ export interface OAuthProviderOptions {
 export interface OAuthCallbackServerOptions {
   /** Port for the callback server */
   port: number;
+  /** Host or IP address to bind to, defaults to 127.0.0.1 */
+  host?: string;
   /** Path for the callback endpoint */
   path: string;
   /** Event emitter to signal when auth code is received */
   events: EventEmitter;
+  /** Reads the state of the pending authorization request, callbacks with another state are rejected */
+  expectedState: () => Promise<string | undefined>;
+}
+
+/**
+ * Transport used to talk to the remote MCP server
+ * - "sse": the legacy HTTP+SSE transport (GET for the event stream, POST to the announced endpoint)
+ * - "http": the Streamable HTTP transport (a single POST endpoint with optional SSE responses)
+ */
+export type TransportType = "sse" | "http";
+
+/**
+ * How to pick the transport for the remote MCP server
+ * - "auto": try Streamable HTTP first and fall back to HTTP+SSE for legacy servers
+ * - "sse" / "http": always use the given transport
+ */
+export type TransportStrategy = TransportType | "auto";
+
+/**
+ * How to authorize the user when no valid tokens are stored
+ * - "browser": open the authorization URL and receive the code on the local callback server
+ * - "device": show a code to enter on another device (OAuth device authorization grant)
+ * - "auto": use the device flow when no display is available (e.g. over SSH), the browser otherwise
+ */
+export type AuthFlowStrategy = "auto" | "browser" | "device";
+
+/**
+ * Where the user can paste the redirect URL or authorization code when the browser can't reach
+ * the local callback server, e.g. on a remote development machine
+ * - "tty": prompt on the controlling terminal
+ * - "file": wait for the input to be written to the file at path
+ */
+export type ManualAuthCodeSource =
+  | { type: "tty" }
+  | { type: "file"; path: string };
+
+/**
+ * Where the OAuth callback server listens and where the authorization server redirects the browser to.
+ * Unset fields use the defaults, see `resolveCallbackEndpoint`.
+ */
+export interface CallbackEndpoint {
+  /** Host or IP address the callback server binds to, e.g. "0.0.0.0" inside a container */
+  host?: string;
+  /** Host in the redirect URI, for when the browser reaches the callback server under another name */
+  redirectHost?: string;
+  /** Path of the callback endpoint */
+  path?: string;
+}
+
+/**
+ * Tools of the remote server to expose to the client, as glob patterns where `*` matches any
+ * characters and `?` a single one. A tool is exposed if it matches one of the allowed patterns,
+ * or there are none, and none of the denied ones.
+ */
+export interface ToolFilter {
+  /** Patterns of the tools to expose, all tools if empty */
+  allow: string[];
+  /** Patterns of the tools to hide */
+  deny: string[];
+}
+
+/**
+ * How the proxy renames the tools, prompts and resources of the remote server, so that clients
+ * connected to several servers can tell them apart
+ */
+export interface NameRewrite {
+  /**
+   * Prefixes tool and prompt names with `<namespace>_` and resource URIs with `<namespace>+`,
+   * and puts `[<namespace>]` in front of their descriptions
+   */
+  namespace?: string;
+  /** New names of tools and prompts by their name on the remote server, used instead of the namespace */
+  rename?: Record<string, string>;
 }
@@ -12,7 +12,7 @@
  * } from "@mmizutani/mcp-remote-deno/lib/utils";
  *
  * // Parse command line arguments
- * const { serverUrl, callbackPort, headers } = await parseCommandLineArgs(
+ * const { serverUrl, callbackPort, headers, transportStrategy } = await parseCommandLineArgs(
  *   process.argv.slice(2),
  *   3334,
  *   "Usage: <command> <server-url> [callback-port]"
@@ -23,7 +23,9 @@
  *   serverUrl,
  *   authProvider,
  *   headers,
- *   waitForAuthCode
+ *   waitForAuthCode,
+ *   false,
+ *   transportStrategy
  * );
  *
  * // Set up bidirectional proxy
@@ -37,15 +39,46 @@
  */
 
 import {
+  auth,
   type OAuthClientProvider,
   UnauthorizedError,
 } from "@modelcontextprotocol/sdk/client/auth.js";
 import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
 import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
-import type { OAuthCallbackServerOptions } from "./types.ts";
+import {
+  isJSONRPCError,
+  isJSONRPCNotification,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  type JSONRPCError,
+  type JSONRPCNotification,
+  type JSONRPCRequest,
+  type Result,
+} from "@modelcontextprotocol/sdk/types.js";
+import type {
+  AuthFlowStrategy,
+  CallbackEndpoint,
+  ClientCredentials,
+  ManualAuthCodeSource,
+  NameRewrite,
+  OAuthCallbackServerOptions,
+  StaticOAuthClientInfo,
+  ToolFilter,
+  TransportStrategy,
+  TransportType,
+} from "./types.ts";
 import net from "node:net";
 import crypto from "node:crypto";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
 import createServer from "./deno-http-server.ts";
+import { NodeOAuthClientProvider } from "./node-oauth-client-provider.ts";
+import { EncryptedFileStorage } from "./credential-storage.ts";
+import { getCredentialStorage, readActiveProfile } from "./mcp-auth-config.ts";
+import { resolveConfigArgs } from "./config-file.ts";
+import { NAMESPACE_PATTERN } from "./name-rewrite.ts";
+import { ReplayTransport } from "./replay-transport.ts";
 
 // Package version from deno.json (set a constant for now)
 /**
@@ -91,28 +124,128 @@ function getMessageIdentifier(message: unknown): string | number | undefined {
  */
 export const AVAILABLE_PORT_START = 3000;
 
+/**
+ * Rewrites the messages passing through mcpProxy, e.g. to hide tools of the remote server
+ */
+export interface ProxyTransform {
+  /**
+   * Rewrites a request from the client before it is forwarded to the server
+   * @returns The request to forward, or an error to answer the client with instead
+   */
+  request?: (request: JSONRPCRequest) => JSONRPCRequest | JSONRPCError;
+  /**
+   * Rewrites the result of a request from the client before it is returned to the client
+   * @param method The method of the request
+   */
+  result?: (method: string, result: Result) => Result;
+  /**
+   * Rewrites a notification from the server before it is forwarded to the client
+   */
+  notification?: (notification: JSONRPCNotification) => JSONRPCNotification;
+}
+
+/**
+ * Applies the request transforms in order
+ * @param transforms The transforms to apply
+ * @param request The request of the client
+ * @returns The request to forward, or the error the first transform rejecting it answered with
+ */
+export function applyRequestTransforms(
+  transforms: ProxyTransform[],
+  request: JSONRPCRequest,
+): JSONRPCRequest | JSONRPCError {
+  for (const transform of transforms) {
+    const rewritten = transform.request?.(request) ?? request;
+    if (isJSONRPCError(rewritten)) {
+      return rewritten;
+    }
+    request = rewritten;
+  }
+  return request;
+}
+
+/**
+ * Applies the result transforms in reverse order
+ * @param transforms The transforms to apply
+ * @param method The method of the request
+ * @param result The result of the server
+ * @returns The result to return to the client
+ */
+export function applyResultTransforms(
+  transforms: ProxyTransform[],
+  method: string,
+  result: Result,
+): Result {
+  for (const transform of [...transforms].reverse()) {
+    result = transform.result?.(method, result) ?? result;
+  }
+  return result;
+}
+
+/**
+ * Applies the notification transforms in reverse order
+ * @param transforms The transforms to apply
+ * @param notification The notification of the server
+ * @returns The notification to forward to the client
+ */
+export function applyNotificationTransforms(
+  transforms: ProxyTransform[],
+  notification: JSONRPCNotification,
+): JSONRPCNotification {
+  for (const transform of [...transforms].reverse()) {
+    notification = transform.notification?.(notification) ?? notification;
+  }
+  return notification;
+}
+
 /**
  * Creates a bidirectional proxy between two transports
  * @param params Object containing the transport connections to proxy between
  * @param params.transportToClient Transport connection to the client
  * @param params.transportToServer Transport connection to the server
+ * @param params.transforms Rewrite the requests of the client in order, and their results and the
+ *                          notifications of the server in reverse order
  */
 export function mcpProxy(
-  { transportToClient, transportToServer }: {
+  { transportToClient, transportToServer, transforms = [] }: {
     transportToClient: Transport;
     transportToServer: Transport;
+    transforms?: ProxyTransform[];
   },
 ) {
   let transportToClientClosed = false;
   let transportToServerClosed = false;
+  // Methods of the forwarded requests by ID, to transform their results
+  const pendingRequests = new Map<string | number, string>();
 
   transportToClient.onmessage = (message) => {
     log("[Local→Remote]", getMessageIdentifier(message));
+    if (transforms.length > 0 && isJSONRPCRequest(message)) {
+      const request = applyRequestTransforms(transforms, message);
+      if (isJSONRPCError(request)) {
+        transportToClient.send(request).catch(onClientError);
+        return;
+      }
+      pendingRequests.set(request.id, request.method);
+      message = request;
+    }
     transportToServer.send(message).catch(onServerError);
   };
 
   transportToServer.onmessage = (message) => {
     log("[Remote→Local]", getMessageIdentifier(message));
+    if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+      const method = pendingRequests.get(message.id);
+      pendingRequests.delete(message.id);
+      if (method !== undefined && isJSONRPCResponse(message)) {
+        message = {
+          ...message,
+          result: applyResultTransforms(transforms, method, message.result),
+        };
+      }
+    } else if (transforms.length > 0 && isJSONRPCNotification(message)) {
+      message = applyNotificationTransforms(transforms, message);
+    }
     transportToClient.send(message).catch(onClientError);
   };
 
@@ -146,23 +279,26 @@ export function mcpProxy(
 }
 
 /**
- * Creates and connects to a remote SSE server with OAuth authentication
- * @param serverUrl The URL of the remote server
+ * Creates a client transport of the requested type for the remote server
+ * @param url The URL of the remote server
+ * @param transportType The transport to use ("sse" or "http")
  * @param authProvider The OAuth client provider
- * @param headers Additional headers to send with the request
- * @param waitForAuthCode Function to wait for the auth code
- * @param skipBrowserAuth Whether to skip browser auth and use shared auth
- * @returns The connected SSE client transport
+ * @param headers Additional headers to send with every request
+ * @returns The (not yet started) client transport
  */
-export async function connectToRemoteServer(
-  serverUrl: string,
+function createRemoteTransport(
+  url: URL,
+  transportType: TransportType,
   authProvider: OAuthClientProvider,
   headers: Record<string, string>,
-  waitForAuthCode: () => Promise<string>,
-  skipBrowserAuth = false,
-): Promise<SSEClientTransport> {
-  log(`[${pid}] Connecting to remote server: ${serverUrl}`);
-  const url = new URL(serverUrl);
+): SSEClientTransport | StreamableHTTPClientTransport {
+  if (transportType === "http") {
+    // The Streamable HTTP transport adds the Authorization header from the auth provider itself
+    return new StreamableHTTPClientTransport(url, {
+      authProvider,
+      requestInit: { headers },
+    });
+  }
 
   // Create transport with eventSourceInit to pass Authorization header if present
   const eventSourceInit = {
@@ -183,14 +319,231 @@ export async function connectToRemoteServer(
     },
   };
 
-  const transport = new SSEClientTransport(url, {
+  return new SSEClientTransport(url, {
     authProvider,
     requestInit: { headers },
     eventSourceInit,
   });
+}
 
+/**
+ * Reads the name of the first event from a Server-Sent Events stream
+ * @param body The response body to read from
+ * @returns The event name ("message" if the event has no explicit name), or undefined if the stream ended first
+ */
+async function readFirstSseEventName(
+  body: ReadableStream<Uint8Array>,
+): Promise<string | undefined> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
   try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) return undefined;
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, "\n");
+
+      // Events are separated by a blank line
+      let separatorIndex: number;
+      while ((separatorIndex = buffer.indexOf("\n\n")) !== -1) {
+        const lines = buffer.slice(0, separatorIndex).split("\n");
+        buffer = buffer.slice(separatorIndex + 2);
+
+        // Skip blocks that only contain comments (e.g. keep-alives)
+        if (lines.every((line) => line === "" || line.startsWith(":"))) {
+          continue;
+        }
+        const eventLine = lines.find((line) => line.startsWith("event:"));
+        return eventLine ? eventLine.slice("event:".length).trim() : "message";
+      }
+    }
+  } finally {
+    await reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * POSTs a ping to the server URL, outside of any session
+ * @param url The URL of the remote server
+ * @param authProvider The OAuth client provider
+ * @param headers Additional headers to send with the request
+ * @returns The response of the server
+ */
+async function postSessionlessPing(
+  url: URL,
+  authProvider: OAuthClientProvider,
+  headers: Record<string, string>,
+): Promise<Response> {
+  const tokens = await authProvider.tokens();
+  return await fetch(url, {
+    method: "POST",
+    headers: {
+      ...headers,
+      ...(tokens?.access_token
+        ? { Authorization: `Bearer ${tokens.access_token}` }
+        : {}),
+      "Content-Type": "application/json",
+      Accept: "application/json, text/event-stream",
+    },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 0, method: "ping" }),
+  });
+}
+
+/**
+ * Detects which transport a remote server speaks
+ *
+ * Follows the backwards compatibility procedure from the MCP specification, except that a ping
+ * is POSTed instead of an initialize request: servers open a session for every initialize
+ * request, and the only one should be the local client's. Servers that answer with 404 or 405,
+ * or that open a legacy SSE stream starting with an `endpoint` event, only speak the HTTP+SSE
+ * transport. Everything else is treated as Streamable HTTP, including the 400 of servers that
+ * require a session and 401: that answer says nothing about the transport, so callers detect it
+ * again once they are authorized.
+ * @param url The URL of the remote server
+ * @param authProvider The OAuth client provider
+ * @param headers Additional headers to send with the request
+ * @returns The detected transport type
+ */
+export async function detectTransportType(
+  url: URL,
+  authProvider: OAuthClientProvider,
+  headers: Record<string, string>,
+): Promise<TransportType> {
+  const response = await postSessionlessPing(url, authProvider, headers);
+
+  if (response.status === 404 || response.status === 405) {
+    await response.body?.cancel();
+    log(
+      `Server answered with HTTP ${response.status}, falling back to the SSE transport`,
+    );
+    return "sse";
+  }
+
+  const contentType = response.headers.get("content-type") ?? "";
+  if (
+    response.ok && contentType.includes("text/event-stream") && response.body
+  ) {
+    const eventName = await readFirstSseEventName(response.body);
+    if (eventName === "endpoint") {
+      log(
+        "Server sent a legacy endpoint event, falling back to the SSE transport",
+      );
+      return "sse";
+    }
+  } else {
+    await response.body?.cancel();
+  }
+  return "http";
+}
+
+/**
+ * Checks that a Streamable HTTP server is reachable and that we are authorized to use it
+ *
+ * Starting a StreamableHTTPClientTransport does not send anything over the wire, so
+ * authorization errors would only show up once the local client sends its first message.
+ * This POSTs a ping outside of any session so that they surface here instead, without opening
+ * a session the local client doesn't use.
+ * @param url The URL of the remote server
+ * @param authProvider The OAuth client provider
+ * @param headers Additional headers to send with the request
+ * @throws UnauthorizedError if the authorization has to be completed in the browser
+ */
+async function probeStreamableHttpServer(
+  url: URL,
+  authProvider: OAuthClientProvider,
+  headers: Record<string, string>,
+): Promise<void> {
+  let response = await postSessionlessPing(url, authProvider, headers);
+  if (response.status === 401) {
+    await response.body?.cancel();
+    // Refreshes the tokens if possible, as the transport would, otherwise starts the authorization
+    if ((await auth(authProvider, { serverUrl: url })) !== "AUTHORIZED") {
+      throw new UnauthorizedError();
+    }
+    response = await postSessionlessPing(url, authProvider, headers);
+  }
+  await response.body?.cancel();
+
+  if (response.status === 401) {
+    throw new UnauthorizedError();
+  }
+  // Servers that require a session reject the ping with 400, but only after letting us in
+  if (!response.ok && response.status !== 400) {
+    throw new Error(
+      `Error POSTing to endpoint (HTTP ${response.status}): ${response.statusText}`,
+    );
+  }
+}
+
+/**
+ * Starts a remote transport, making sure the server has actually been reached
+ * @param transport The transport to start
+ * @param url The URL of the remote server
+ * @param authProvider The OAuth client provider
+ * @param headers Additional headers to send with the request
+ */
+async function startRemoteTransport(
+  transport: SSEClientTransport | StreamableHTTPClientTransport,
+  url: URL,
+  authProvider: OAuthClientProvider,
+  headers: Record<string, string>,
+): Promise<void> {
+  if (transport instanceof StreamableHTTPClientTransport) {
+    await probeStreamableHttpServer(url, authProvider, headers);
+  }
+  await transport.start();
+}
+
+/**
+ * Creates and connects to a remote MCP server with OAuth authentication
+ * @param serverUrl The URL of the remote server
+ * @param authProvider The OAuth client provider
+ * @param headers Additional headers to send with the request
+ * @param waitForAuthCode Function to wait for the auth code. Resolves to null for flows that store the
+ *                        tokens themselves instead of producing a code (e.g. the device authorization grant)
+ * @param skipBrowserAuth Whether to skip browser auth and use shared auth
+ * @param transportStrategy The transport to use ("sse" for HTTP+SSE, "http" for Streamable HTTP,
+ *                          "auto" to try Streamable HTTP first and fall back to HTTP+SSE)
+ * @param replayPath A recording made with `--record` to play back in place of the remote server.
+ *                   Nothing is sent to the server then, so no auth provider is needed.
+ * @returns The connected client transport
+ */
+export async function connectToRemoteServer(
+  serverUrl: string,
+  authProvider: OAuthClientProvider | undefined,
+  headers: Record<string, string>,
+  waitForAuthCode: () => Promise<string | null>,
+  skipBrowserAuth = false,
+  transportStrategy: TransportStrategy = "auto",
+  replayPath?: string,
+): Promise<
+  SSEClientTransport | StreamableHTTPClientTransport | ReplayTransport
+> {
+  if (replayPath) {
+    const transport = await ReplayTransport.fromFile(replayPath);
     await transport.start();
+    return transport;
+  }
+  if (!authProvider) {
+    throw new Error(`An auth provider is required to connect to ${serverUrl}`);
+  }
+
+  log(`Connecting to remote server: ${serverUrl} (${transportStrategy})`);
+  const url = new URL(serverUrl);
+
+  const transportType = transportStrategy === "auto"
+    ? await detectTransportType(url, authProvider, headers)
+    : transportStrategy;
+
+  const transport = createRemoteTransport(
+    url,
+    transportType,
+    authProvider,
+    headers,
+  );
+
+  try {
+    await startRemoteTransport(transport, url, authProvider, headers);
     log("Connected to remote server");
     return transport;
   } catch (error) {
@@ -210,14 +563,21 @@ export async function connectToRemoteServer(
       const code = await waitForAuthCode();
 
       try {
-        log("Completing authorization...");
-        await transport.finishAuth(code);
+        if (code !== null) {
+          log("Completing authorization...");
+          await finishAuthorization(transport, authProvider, code);
+        }
 
-        // Create a new transport after auth
-        const newTransport = new SSEClientTransport(url, {
+        // Create a new transport after auth. Servers requiring auth answer the unauthorized
+        // probe with 401 whatever transport they speak, so only now can it be detected.
+        const newTransport = createRemoteTransport(
+          url,
+          transportStrategy === "auto"
+            ? await detectTransportType(url, authProvider, headers)
+            : transportType,
           authProvider,
-          requestInit: { headers },
-        });
+          headers,
+        );
         await newTransport.start();
         log("Connected to remote server after authentication");
         return newTransport;
@@ -232,6 +592,25 @@ export async function connectToRemoteServer(
   }
 }
 
+/**
+ * Exchanges an authorization code for tokens
+ * @param transport The transport whose connection attempt required the authorization
+ * @param authProvider The OAuth client provider
+ * @param code The authorization code received on the callback
+ */
+export async function finishAuthorization(
+  transport: SSEClientTransport | StreamableHTTPClientTransport,
+  authProvider: OAuthClientProvider,
+  code: string,
+): Promise<void> {
+  if (authProvider instanceof NodeOAuthClientProvider) {
+    // Includes the resource indicator, which the SDK doesn't send
+    await authProvider.finishAuthorization(code);
+  } else {
+    await transport.finishAuth(code);
+  }
+}
+
 /**
  * Sets up an HTTP server to handle OAuth callbacks
  * @param options The server options
@@ -243,6 +622,21 @@ export function setupOAuthCallbackServer(options: OAuthCallbackServerOptions) {
   return { server, authCode, waitForAuthCode };
 }
 
+/**
+ * Creates the error for an error response to an authorization request
+ * @param error The error code, e.g. access_denied
+ * @param description The optional error_description
+ * @returns The error to report
+ */
+export function createAuthorizationError(
+  error: string,
+  description?: string,
+): Error {
+  return new Error(
+    `Authorization failed: ${error}${description ? ` (${description})` : ""}`,
+  );
+}
+
 /**
  * Sets up an HTTP server to handle OAuth callbacks with long polling support
  * @param options The server options including port, path, and event emitter
@@ -252,17 +646,40 @@ export function setupOAuthCallbackServerWithLongPoll(
   options: OAuthCallbackServerOptions,
 ) {
   let authCode: string | null = null;
+  let authError: Error | null = null;
+  const usedStates = new Set<string>();
   const app = createServer();
 
   // Create a promise to track when auth is completed
   let authCompletedResolve: (code: string) => void;
-  const authCompletedPromise = new Promise<string>((resolve) => {
+  let authCompletedReject: (error: Error) => void;
+  const authCompletedPromise = new Promise<string>((resolve, reject) => {
     authCompletedResolve = resolve;
+    authCompletedReject = reject;
+  });
+  // Failures are reported through waitForAuthCode, not every caller waits for this
+  authCompletedPromise.catch(() => {});
+
+  // Flows without a callback (e.g. the device authorization grant) report completion directly
+  let authCompletedWithoutCode = false;
+  options.events.once("auth-completed", () => {
+    authCompletedWithoutCode = true;
+    authCompletedResolve("");
+  });
+
+  // Codes and errors can also be reported by other sources, such as a code pasted by the user
+  options.events.on("auth-code-received", (code: string) => {
+    authCode = code;
+    authCompletedResolve(code);
+  });
+  options.events.on("auth-error", (error: Error) => {
+    authError = error;
+    authCompletedReject(error);
   });
 
   // Long-polling endpoint
   app.get("/wait-for-auth", (req, res) => {
-    if (authCode) {
+    if (authCode || authCompletedWithoutCode) {
       // Auth already completed - just return 200 without the actual code
       // Secondary instances will read tokens from disk
       log("Auth already completed, returning 200");
@@ -301,16 +718,41 @@ export function setupOAuthCallbackServerWithLongPoll(
   });
 
   // OAuth callback endpoint
-  app.get(options.path, (req, res) => {
+  app.get(options.path, async (req, res) => {
+    // Only accept the response to the authorization request we started, otherwise any local
+    // page could inject an authorization code
+    const state = req.query.state;
+    const expectedState = await options.expectedState().catch(() => undefined);
+    if (!state || state !== expectedState || usedStates.has(state)) {
+      log("Rejected OAuth callback with an invalid state parameter");
+      res.status(400).send("Error: Invalid state parameter");
+      return;
+    }
+    usedStates.add(state);
+
+    if (req.query.error) {
+      const error = createAuthorizationError(
+        req.query.error,
+        req.query.error_description,
+      );
+      log(error.message);
+
+      res.status(400).send(
+        `${error.message}. You may close this window and return to the CLI.`,
+      );
+
+      // Notify main flow that the authorization failed
+      options.events.emit("auth-error", error);
+      return;
+    }
+
     const code = req.query.code;
     if (!code) {
       res.status(400).send("Error: No authorization code received");
       return;
     }
 
-    authCode = code;
     log("Auth code received, resolving promise");
-    authCompletedResolve(code);
 
     res.send(
       "Authorization successful! You may close this window and return to the CLI.",
@@ -320,20 +762,42 @@ export function setupOAuthCallbackServerWithLongPoll(
     options.events.emit("auth-code-received", code);
   });
 
-  const server = app.listen(options.port, "127.0.0.1", () => {
-    log(`OAuth callback server running at http://127.0.0.1:${options.port}`);
+  const host = options.host ?? "127.0.0.1";
+  const server = app.listen(options.port, host, () => {
+    log(
+      `OAuth callback server running at http://${
+        formatUrlHost(host)
+      }:${options.port}`,
+    );
   });
 
+  // Each code can only be exchanged once, later authorizations have to wait for a new one
+  let consumedAuthCode: string | null = null;
   const waitForAuthCode = (): Promise<string> => {
-    return new Promise((resolve) => {
-      if (authCode) {
+    return new Promise((resolve, reject) => {
+      if (authError) {
+        reject(authError);
+        authError = null;
+        return;
+      }
+      if (authCode && authCode !== consumedAuthCode) {
+        consumedAuthCode = authCode;
         resolve(authCode);
         return;
       }
 
-      options.events.once("auth-code-received", (code) => {
+      const onCode = (code: string) => {
+        options.events.off("auth-error", onError);
+        consumedAuthCode = code;
         resolve(code);
-      });
+      };
+      const onError = (error: Error) => {
+        options.events.off("auth-code-received", onCode);
+        authError = null;
+        reject(error);
+      };
+      options.events.once("auth-code-received", onCode);
+      options.events.once("auth-error", onError);
     });
   };
 
@@ -343,10 +807,12 @@ export function setupOAuthCallbackServerWithLongPoll(
 /**
  * Finds an available port on the local machine
  * @param serverOrPort A server instance or preferred port number to try first
+ * @param host The host or IP address the port has to be available on
  * @returns A promise that resolves to an available port number
  */
 export function findAvailablePort(
   serverOrPort?: number | net.Server,
+  host = "127.0.0.1",
 ): Promise<number> {
   // Handle if server parameter is a number (preferred port)
   const preferredPort = typeof serverOrPort === "number"
@@ -400,7 +866,7 @@ export function findAvailablePort(
       portAttempts++;
 
       try {
-        serverToUse.listen({ port: currentPort, hostname: "127.0.0.1" });
+        serverToUse.listen({ port: currentPort, hostname: host });
       } catch (err) {
         // This catch block is mainly for tests since in real network operations,
         // errors are emitted as events
@@ -445,12 +911,60 @@ export function findAvailablePort(
   });
 }
 
+/**
+ * Formats a host for use in a URL, putting IPv6 addresses in brackets
+ * @param host A hostname or IP address
+ * @returns The host as it appears in a URL
+ */
+export function formatUrlHost(host: string): string {
+  return host.includes(":") && !host.startsWith("[") ? `[${host}]` : host;
+}
+
+/**
+ * Gets the address to connect to a local server bound to the given host
+ * @param host The host or IP address the server is bound to
+ * @returns The loopback address for servers bound to all interfaces, the host otherwise
+ */
+export function getReachableHost(host: string): string {
+  if (host === "0.0.0.0") {
+    return "127.0.0.1";
+  }
+  if (host === "::") {
+    return "::1";
+  }
+  return host;
+}
+
+/**
+ * Fills in the defaults of the callback endpoint: the server binds to 127.0.0.1, the redirect URI
+ * points at the address the server is reachable on and the path is /oauth/callback
+ * @param endpoint The configured host, redirect host and path
+ * @param redirectUri The redirect URI of a pre-registered client, which determines the path
+ * @returns The callback endpoint with all fields set
+ */
+export function resolveCallbackEndpoint(
+  endpoint: CallbackEndpoint = {},
+  redirectUri?: string,
+): Required<CallbackEndpoint> {
+  const host = endpoint.host ?? "127.0.0.1";
+  return {
+    host,
+    redirectHost: endpoint.redirectHost ?? getReachableHost(host),
+    path: endpoint.path ??
+      (redirectUri ? new URL(redirectUri).pathname : "/oauth/callback"),
+  };
+}
+
 /**
  * Parses command line arguments for MCP clients and proxies
  * @param args Command line arguments
  * @param defaultPort Default port for the callback server if specified port is unavailable
  * @param usage Usage message to show on error
- * @returns A promise that resolves to an object with parsed serverUrl, callbackPort and headers
+ * @returns A promise that resolves to an object with parsed serverUrl, callbackPort, headers, transportStrategy,
+ *          authFlow, clientCredentials, staticClientInfo, requestParams (scope and resource),
+ *          manualAuthCodeSource, callbackEndpoint (bind host, redirect host and path), profile,
+ *          toolFilter (the tools to expose), nameRewrite (the namespace and new names),
+ *          recordPath (the file to record the traffic to) and replayPath (the recording to play back)
  */
 export async function parseCommandLineArgs(
   args: string[],
@@ -463,24 +977,318 @@ export async function parseCommandLineArgs(
     Deno.exit(0);
   }
 
+  // Take the server and its options from the config file
+  try {
+    args = await resolveConfigArgs(args);
+  } catch (error) {
+    log(`Error: ${(error as Error).message}`);
+    log(usage);
+    throw new Error("Process exit called");
+  }
+
   // Process headers
   const headers: Record<string, string> = {};
-  args.forEach((arg, i) => {
-    if (arg === "--header" && i < args.length - 1) {
-      const value = args[i + 1];
-      const match = value.match(/^([A-Za-z0-9_-]+):(.*)$/);
-      if (match) {
-        headers[match[1]] = match[2];
-      } else {
-        log(`Warning: ignoring invalid header argument: ${value}`);
+  let headerIndex: number;
+  while (
+    (headerIndex = args.indexOf("--header")) !== -1 &&
+    headerIndex < args.length - 1
+  ) {
+    const value = args[headerIndex + 1];
+    const match = value.match(/^([A-Za-z0-9_-]+):(.*)$/);
+    if (match) {
+      headers[match[1]] = match[2];
+    } else {
+      log(`Warning: ignoring invalid header argument: ${value}`);
+    }
+    args.splice(headerIndex, 2);
+  }
+
+  // Process client credentials for the client_credentials grant
+  let clientId: string | undefined;
+  let clientSecret: string | undefined;
+  const clientIdIndex = args.indexOf("--client-id");
+  if (clientIdIndex !== -1 && clientIdIndex < args.length - 1) {
+    clientId = expandEnvVars(args[clientIdIndex + 1], "--client-id");
+    args.splice(clientIdIndex, 2);
+  }
+  const clientSecretIndex = args.indexOf("--client-secret");
+  if (clientSecretIndex !== -1 && clientSecretIndex < args.length - 1) {
+    clientSecret = expandEnvVars(
+      args[clientSecretIndex + 1],
+      "--client-secret",
+    );
+    args.splice(clientSecretIndex, 2);
+  }
+  if (clientSecret !== undefined && !clientId) {
+    log("Error: --client-secret requires --client-id");
+    log(usage);
+    throw new Error("Process exit called");
+  }
+  if (clientId !== undefined && !clientSecret) {
+    log("Error: --client-id requires --client-secret");
+    log(usage);
+    throw new Error("Process exit called");
+  }
+  const clientCredentials: ClientCredentials | undefined =
+    clientId && clientSecret ? { clientId, clientSecret } : undefined;
+
+  // Process a pre-registered client for servers without dynamic client registration
+  let staticClientInfo: StaticOAuthClientInfo | undefined;
+  const staticClientInfoIndex = args.indexOf("--static-oauth-client-info");
+  if (
+    staticClientInfoIndex !== -1 && staticClientInfoIndex < args.length - 1
+  ) {
+    try {
+      staticClientInfo = await parseStaticClientInfo(
+        args[staticClientInfoIndex + 1],
+      );
+    } catch (error) {
+      log(`Error: ${(error as Error).message}`);
+      log(usage);
+      throw new Error("Process exit called");
+    }
+    args.splice(staticClientInfoIndex, 2);
+  }
+  if (staticClientInfo && clientCredentials) {
+    log(
+      "Error: --static-oauth-client-info can't be combined with --client-id and --client-secret",
+    );
+    log(usage);
+    throw new Error("Process exit called");
+  }
+
+  // Process transport strategy
+  let transportStrategy: TransportStrategy = "auto";
+  const transportIndex = args.indexOf("--transport");
+  if (transportIndex !== -1) {
+    const value = args[transportIndex + 1];
+    if (value !== "auto" && value !== "sse" && value !== "http") {
+      log(
+        `Error: Invalid transport: ${value}. Expected "auto", "sse" or "http"`,
+      );
+      log(usage);
+      throw new Error("Process exit called");
+    }
+    transportStrategy = value;
+    args.splice(transportIndex, 2);
+  }
+
+  // Process the scope and RFC 8707 resource indicator to request
+  let scope: string | undefined;
+  const scopeIndex = args.indexOf("--scope");
+  if (scopeIndex !== -1 && scopeIndex < args.length - 1) {
+    scope = args[scopeIndex + 1].trim().split(/\s+/).join(" ") || undefined;
+    args.splice(scopeIndex, 2);
+  }
+  let resource: string | undefined;
+  const resourceIndex = args.indexOf("--resource");
+  if (resourceIndex !== -1 && resourceIndex < args.length - 1) {
+    resource = args[resourceIndex + 1];
+    let resourceUrl: URL | undefined;
+    try {
+      resourceUrl = new URL(resource);
+    } catch {
+      // Reported below
+    }
+    // Resource indicators are absolute URIs without a fragment
+    if (!resourceUrl || resourceUrl.hash) {
+      log(`Error: Invalid resource indicator: ${resource}`);
+      log(usage);
+      throw new Error("Process exit called");
+    }
+    args.splice(resourceIndex, 2);
+  }
+
+  // Process authorization flow
+  let authFlow: AuthFlowStrategy = "auto";
+  const authFlowIndex = args.indexOf("--auth-flow");
+  if (authFlowIndex !== -1) {
+    const value = args[authFlowIndex + 1];
+    if (value !== "auto" && value !== "browser" && value !== "device") {
+      log(
+        `Error: Invalid auth flow: ${value}. Expected "auto", "browser" or "device"`,
+      );
+      log(usage);
+      throw new Error("Process exit called");
+    }
+    authFlow = value;
+    args.splice(authFlowIndex, 2);
+  }
+
+  // Process where the user can paste the authorization code if the redirect can't reach us
+  let manualAuthCodeSource: ManualAuthCodeSource | undefined;
+  const authCodeInputIndex = args.indexOf("--auth-code-input");
+  if (authCodeInputIndex !== -1) {
+    const value = args[authCodeInputIndex + 1];
+    if (!value || value.startsWith("--")) {
+      log('Error: --auth-code-input requires "tty" or a file path');
+      log(usage);
+      throw new Error("Process exit called");
+    }
+    if (authFlow === "device") {
+      log("Error: --auth-code-input can't be used with the device flow");
+      log(usage);
+      throw new Error("Process exit called");
+    }
+    manualAuthCodeSource = value === "tty"
+      ? { type: "tty" }
+      : { type: "file", path: value };
+    args.splice(authCodeInputIndex, 2);
+  }
+
+  // Process the profile, for holding several identities on the same server
+  let profile: string | undefined;
+  const profileIndex = args.indexOf("--profile");
+  if (profileIndex !== -1) {
+    profile = args[profileIndex + 1];
+    if (!profile || !PROFILE_NAME_PATTERN.test(profile)) {
+      log(
+        `Error: Invalid profile name: ${profile}. Use letters, digits, "." and "-"`,
+      );
+      log(usage);
+      throw new Error("Process exit called");
+    }
+    args.splice(profileIndex, 2);
+  }
+
+  // Process the tools of the remote server to expose to the client
+  const toolFilter: ToolFilter = { allow: [], deny: [] };
+  const toolFlags: [string, string[]][] = [
+    ["--allow-tool", toolFilter.allow],
+    ["--deny-tool", toolFilter.deny],
+  ];
+  for (const [flag, globs] of toolFlags) {
+    let index: number;
+    while ((index = args.indexOf(flag)) !== -1) {
+      const value = args[index + 1];
+      if (!value || value.startsWith("--")) {
+        log(`Error: ${flag} requires a tool name or glob pattern`);
+        log(usage);
+        throw new Error("Process exit called");
       }
-      args.splice(i, 2);
+      globs.push(value);
+      args.splice(index, 2);
     }
-  });
+  }
+
+  // Process the namespace and new names of the remote tools, prompts and resources
+  const nameRewrite: NameRewrite = {};
+  const namespaceIndex = args.indexOf("--namespace");
+  if (namespaceIndex !== -1) {
+    const value = args[namespaceIndex + 1];
+    if (!value || !NAMESPACE_PATTERN.test(value)) {
+      log(
+        `Error: Invalid namespace: ${value}. Use letters, digits and "-", starting with a letter`,
+      );
+      log(usage);
+      throw new Error("Process exit called");
+    }
+    nameRewrite.namespace = value;
+    args.splice(namespaceIndex, 2);
+  }
+  let renameIndex: number;
+  while ((renameIndex = args.indexOf("--rename")) !== -1) {
+    const value = args[renameIndex + 1];
+    const match = value?.match(/^([^=]+)=(.+)$/);
+    if (!match) {
+      log(`Error: Invalid rename: ${value}. Expected <remote name>=<new name>`);
+      log(usage);
+      throw new Error("Process exit called");
+    }
+    if (Object.values(nameRewrite.rename ?? {}).includes(match[2])) {
+      log(`Error: More than one tool or prompt renamed to ${match[2]}`);
+      log(usage);
+      throw new Error("Process exit called");
+    }
+    nameRewrite.rename = { ...nameRewrite.rename, [match[1]]: match[2] };
+    args.splice(renameIndex, 2);
+  }
+
+  // Process the file to record the traffic with the remote server to
+  let recordPath: string | undefined;
+  const recordIndex = args.indexOf("--record");
+  if (recordIndex !== -1) {
+    recordPath = args[recordIndex + 1];
+    if (!recordPath || recordPath.startsWith("--")) {
+      log("Error: --record requires a file path");
+      log(usage);
+      throw new Error("Process exit called");
+    }
+    args.splice(recordIndex, 2);
+  }
 
-  const serverUrl = args[0];
-  const specifiedPort = args[1] ? Number.parseInt(args[1], 10) : undefined;
+  // Process the recording to play back instead of connecting to the remote server
+  let replayPath: string | undefined;
+  const replayIndex = args.indexOf("--replay");
+  if (replayIndex !== -1) {
+    replayPath = args[replayIndex + 1];
+    if (!replayPath || replayPath.startsWith("--")) {
+      log("Error: --replay requires a file path");
+      log(usage);
+      throw new Error("Process exit called");
+    }
+    if (recordPath) {
+      log("Error: --replay can't be combined with --record");
+      log(usage);
+      throw new Error("Process exit called");
+    }
+    args.splice(replayIndex, 2);
+  }
+
+  // Process where the callback server listens and where the browser is redirected to
+  const callbackEndpoint: CallbackEndpoint = {};
+  const callbackFlags = [
+    ["--callback-host", "host"],
+    ["--redirect-host", "redirectHost"],
+    ["--callback-path", "path"],
+  ] as const;
+  for (const [flag, key] of callbackFlags) {
+    const index = args.indexOf(flag);
+    if (index === -1) {
+      continue;
+    }
+    const value = args[index + 1];
+    if (!value || value.startsWith("--")) {
+      log(`Error: ${flag} requires a value`);
+      log(usage);
+      throw new Error("Process exit called");
+    }
+    // IPv6 addresses may be given in brackets, as in URLs
+    callbackEndpoint[key] = key === "path"
+      ? value
+      : value.replace(/^\[(.*)\]$/, "$1");
+    args.splice(index, 2);
+  }
+  if (
+    callbackEndpoint.path &&
+    (!callbackEndpoint.path.startsWith("/") ||
+      callbackEndpoint.path === "/wait-for-auth")
+  ) {
+    log(
+      `Error: Invalid callback path: ${callbackEndpoint.path}. Expected a path starting with "/", other than /wait-for-auth`,
+    );
+    log(usage);
+    throw new Error("Process exit called");
+  }
+  if (
+    staticClientInfo?.redirect_uri &&
+    (callbackEndpoint.redirectHost || callbackEndpoint.path)
+  ) {
+    log(
+      "Error: --redirect-host and --callback-path can't be combined with the redirect_uri of --static-oauth-client-info",
+    );
+    log(usage);
+    throw new Error("Process exit called");
+  }
+
+  // Process whether plain HTTP is allowed, before the positional arguments are read
   const allowHttp = args.includes("--allow-http");
+  args = args.filter((arg) => arg !== "--allow-http");
+
+  // A recording stands in for the remote server, so its URL is optional then
+  const serverUrl = args[0] ??
+    (replayPath ? pathToFileURL(path.resolve(replayPath)).href : undefined);
+  let specifiedPort = args[1] ? Number.parseInt(args[1], 10) : undefined;
 
   if (!serverUrl) {
     log("Error: Server URL is required");
@@ -494,7 +1302,11 @@ export async function parseCommandLineArgs(
       (url.hostname === "localhost" || url.hostname === "127.0.0.1") &&
       url.protocol === "http:";
 
-    if (!(url.protocol === "https:" || isLocalhost || allowHttp)) {
+    const isRecording = replayPath !== undefined && url.protocol === "file:";
+
+    if (
+      !(url.protocol === "https:" || isLocalhost || allowHttp || isRecording)
+    ) {
       log(
         "Error: Non-HTTPS URLs are only allowed for localhost or when --allow-http flag is provided",
       );
@@ -516,37 +1328,236 @@ export async function parseCommandLineArgs(
     throw new Error("Process exit called");
   }
 
-  // Use the specified port, or find an available one
-  const callbackPort = specifiedPort || await findAvailablePort(defaultPort);
+  // A fixed redirect URI pointing at this machine determines where the callback server listens
+  if (specifiedPort === undefined && staticClientInfo?.redirect_uri) {
+    const redirectUrl = new URL(staticClientInfo.redirect_uri);
+    if (
+      ["localhost", "127.0.0.1", "[::1]"].includes(redirectUrl.hostname) &&
+      redirectUrl.port
+    ) {
+      specifiedPort = Number.parseInt(redirectUrl.port, 10);
+    }
+  }
+
+  // Use the specified port, or find an available one. Playing back a recording needs no callback
+  // server, so there is no need to look for one then.
+  const callbackPort = specifiedPort ||
+    (replayPath
+      ? defaultPort
+      : await findAvailablePort(defaultPort, callbackEndpoint.host));
 
   if (specifiedPort) {
     log(`Using specified callback port: ${callbackPort}`);
-  } else {
+  } else if (!replayPath) {
     log(`Using automatically selected callback port: ${callbackPort}`);
   }
 
+  // Report a misconfigured credential storage now, rather than on the first token read
+  try {
+    if (await getCredentialStorage() instanceof EncryptedFileStorage) {
+      log("Encrypting stored credentials");
+    }
+  } catch (error) {
+    log(`Error: ${(error as Error).message}`);
+    throw new Error("Process exit called");
+  }
+
+  // Without --profile, use the profile selected with the auth command
+  if (profile === undefined) {
+    profile = await readActiveProfile(getServerUrlHash(serverUrl));
+    if (profile) {
+      log(`Using the active profile: ${profile}`);
+    }
+  } else {
+    log(`Using profile: ${profile}`);
+  }
+
   if (Object.keys(headers).length > 0) {
     log(`Using custom headers: ${JSON.stringify(headers)}`);
   }
   // Replace environment variables in headers
   // example `Authorization: Bearer ${TOKEN}` will read process.env.TOKEN
   for (const [key, value] of Object.entries(headers)) {
-    headers[key] = value.replace(/\$\{([^}]+)}/g, (match, envVarName) => {
-      const envVarValue = Deno.env.get(envVarName);
+    headers[key] = expandEnvVars(value, `header '${key}'`);
+  }
 
-      if (envVarValue !== undefined) {
-        log(`Replacing ${match} with environment value in header '${key}'`);
-        return envVarValue;
-      }
+  if (transportStrategy !== "auto") {
+    log(`Using transport: ${transportStrategy}`);
+  }
 
-      log(
-        `Warning: Environment variable '${envVarName}' not found for header '${key}'.`,
-      );
-      return "";
-    });
+  if (authFlow !== "auto") {
+    log(`Using auth flow: ${authFlow}`);
+  }
+
+  if (scope) {
+    log(`Requesting scope: ${scope}`);
+  }
+
+  if (resource) {
+    log(`Requesting tokens for resource: ${resource}`);
+  }
+
+  if (staticClientInfo) {
+    log(`Using pre-registered client ID: ${staticClientInfo.client_id}`);
+  }
+
+  if (manualAuthCodeSource) {
+    log(
+      manualAuthCodeSource.type === "tty"
+        ? "Accepting pasted authorization codes from the terminal"
+        : `Accepting redirect URLs from ${manualAuthCodeSource.path}`,
+    );
+  }
+
+  if (callbackEndpoint.host) {
+    log(`Binding the callback server to ${callbackEndpoint.host}`);
+  }
+
+  if (callbackEndpoint.redirectHost) {
+    log(`Using redirect host: ${callbackEndpoint.redirectHost}`);
+  }
+
+  if (callbackEndpoint.path) {
+    log(`Using callback path: ${callbackEndpoint.path}`);
+  }
+
+  if (clientCredentials) {
+    log(
+      `Using client credentials grant with client ID: ${clientCredentials.clientId}`,
+    );
+  }
+
+  if (toolFilter.allow.length > 0) {
+    log(`Exposing only the tools matching: ${toolFilter.allow.join(", ")}`);
+  }
+
+  if (toolFilter.deny.length > 0) {
+    log(`Hiding the tools matching: ${toolFilter.deny.join(", ")}`);
+  }
+
+  if (nameRewrite.namespace) {
+    log(`Using namespace: ${nameRewrite.namespace}`);
+  }
+
+  for (const [remote, local] of Object.entries(nameRewrite.rename ?? {})) {
+    log(`Renaming ${remote} to ${local}`);
+  }
+
+  if (recordPath) {
+    log(`Recording the traffic with the remote server to ${recordPath}`);
+  }
+
+  if (replayPath) {
+    log(
+      `Playing back ${replayPath} instead of connecting to the remote server`,
+    );
+  }
+
+  return {
+    serverUrl,
+    callbackPort,
+    headers,
+    transportStrategy,
+    authFlow,
+    clientCredentials,
+    staticClientInfo,
+    requestParams: { scope, resource },
+    manualAuthCodeSource,
+    callbackEndpoint,
+    profile,
+    toolFilter: toolFilter.allow.length > 0 || toolFilter.deny.length > 0
+      ? toolFilter
+      : undefined,
+    nameRewrite: nameRewrite.namespace || nameRewrite.rename
+      ? nameRewrite
+      : undefined,
+    recordPath,
+    replayPath,
+  };
+}
+
+/**
+ * Parses the pre-registered client given on the command line, either as JSON or as `@path` to a JSON file
+ * @param value The command line value
+ * @returns The validated client information
+ * @throws Error if the value can't be read or is not a valid client
+ */
+export async function parseStaticClientInfo(
+  value: string,
+): Promise<StaticOAuthClientInfo> {
+  const source = value.startsWith("@") ? value.slice(1) : undefined;
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(source ? await Deno.readTextFile(source) : value);
+  } catch (error) {
+    throw new Error(
+      `Invalid --static-oauth-client-info ${
+        source ? `file ${source}` : "JSON"
+      }: ${(error as Error).message}`,
+    );
+  }
+
+  if (typeof data?.client_id !== "string" || !data.client_id) {
+    throw new Error("--static-oauth-client-info requires a client_id");
+  }
+  for (const key of ["client_secret", "redirect_uri"]) {
+    if (data[key] !== undefined && typeof data[key] !== "string") {
+      throw new Error(`--static-oauth-client-info ${key} must be a string`);
+    }
+  }
+  const authMethod = data.token_endpoint_auth_method;
+  if (
+    authMethod !== undefined && authMethod !== "none" &&
+    authMethod !== "client_secret_post"
+  ) {
+    // The MCP SDK always sends the client credentials in the request body
+    throw new Error(
+      `Unsupported token_endpoint_auth_method: ${authMethod}. Expected "none" or "client_secret_post"`,
+    );
+  }
+  if (authMethod === "client_secret_post" && !data.client_secret) {
+    throw new Error(
+      "--static-oauth-client-info client_secret_post requires a client_secret",
+    );
+  }
+  if (typeof data.redirect_uri === "string") {
+    try {
+      new URL(data.redirect_uri);
+    } catch {
+      throw new Error(`Invalid redirect_uri: ${data.redirect_uri}`);
+    }
   }
 
-  return { serverUrl, callbackPort, headers };
+  return {
+    client_id: data.client_id,
+    client_secret: typeof data.client_secret === "string"
+      ? expandEnvVars(data.client_secret, "client_secret")
+      : undefined,
+    token_endpoint_auth_method: authMethod,
+    redirect_uri: data.redirect_uri as string | undefined,
+  };
+}
+
+/**
+ * Replaces `${VAR}` references in a command line value with environment variables
+ * @param value The value to expand
+ * @param context Description of where the value came from, for log messages
+ * @returns The value with all references replaced (missing variables become empty strings)
+ */
+export function expandEnvVars(value: string, context: string): string {
+  return value.replace(/\$\{([^}]+)}/g, (match, envVarName) => {
+    const envVarValue = Deno.env.get(envVarName);
+
+    if (envVarValue !== undefined) {
+      log(`Replacing ${match} with environment value in ${context}`);
+      return envVarValue;
+    }
+
+    log(
+      `Warning: Environment variable '${envVarName}' not found for ${context}.`,
+    );
+    return "";
+  });
 }
 
 /**
@@ -573,11 +1584,25 @@ export function setupSignalHandlers(cleanup: () => Promise<void>) {
   }
 }
 
+/**
+ * Name of the profile whose files are stored under the plain hash of the server URL
+ */
+export const DEFAULT_PROFILE = "default";
+
+/**
+ * Valid profile names. They follow the hash after an "@" in file names like `<hash>@<profile>_tokens.json`,
+ * so they can't contain the "@" or "_" separators
+ */
+export const PROFILE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9.-]*$/;
+
 /**
  * Generates a hash for the server URL to use in filenames
  * @param serverUrl The server URL to hash
- * @returns The hashed server URL
+ * @param profile Named profile, appended to the hash so that each profile has its own
+ *                credentials and lockfiles
+ * @returns The hashed server URL, followed by `@<profile>` for profiles other than the default
  */
-export function getServerUrlHash(serverUrl: string): string {
-  return crypto.createHash("md5").update(serverUrl).digest("hex");
+export function getServerUrlHash(serverUrl: string, profile?: string): string {
+  const hash = crypto.createHash("md5").update(serverUrl).digest("hex");
+  return profile && profile !== DEFAULT_PROFILE ? `${hash}@${profile}` : hash;
 }
@@ -1,7 +1,8 @@
 #!/usr/bin/env node
 
 /**
- * This module implements a bidirectional proxy between local STDIO-based MCP clients and remote HTTP+SSE MCP servers.
+ * This module implements a bidirectional proxy between local STDIO-based MCP clients and remote MCP servers
+ * using either the HTTP+SSE or the Streamable HTTP transport.
  * It handles the complete OAuth 2.1 authentication flow, including PKCE, token management, and secure credential storage.
  *
  * The proxy translates between different MCP transport protocols, allowing applications like Claude Desktop and Cursor
@@ -12,11 +13,11 @@
  * import { runProxy } from "@mmizutani/mcp-remote-deno";
  *
  * // Connect to a remote MCP server with optional headers
- * await runProxy(
- *   "https://remote.mcp.server.example.com/sse",
- *   3334,
- *   { "Authorization": "Bearer token" }
- * );
+ * await runProxy({
+ *   serverUrl: "https://remote.mcp.server.example.com/sse",
+ *   callbackPort: 3334,
+ *   headers: { "Authorization": "Bearer token" },
+ * });
  * ```
  *
  * @module
@@ -24,7 +25,7 @@
 
 /**
  * MCP Proxy with OAuth support
- * A bidirectional proxy between a local STDIO MCP server and a remote SSE server with OAuth authentication.
+ * A bidirectional proxy between a local STDIO MCP server and a remote SSE or Streamable HTTP server with OAuth authentication.
  *
  * Run with: deno run --allow-net --allow-env --allow-read --allow-run src/proxy.ts https://example.remote/server [callback-port]
  *
@@ -33,118 +34,361 @@
 
 import { EventEmitter } from "node:events";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
 import {
   connectToRemoteServer,
   getServerUrlHash,
   log,
   mcpProxy,
   parseCommandLineArgs,
+  type ProxyTransform,
+  resolveCallbackEndpoint,
   setupSignalHandlers,
 } from "./lib/utils.ts";
 import { NodeOAuthClientProvider } from "./lib/node-oauth-client-provider.ts";
 import { coordinateAuth } from "./lib/coordination.ts";
+import { ReconnectingTransport } from "./lib/reconnecting-transport.ts";
+import { RecordingTransport } from "./lib/recording-transport.ts";
+import { TokenRefreshScheduler } from "./lib/token-refresh.ts";
+import { ClientCredentialsProvider } from "./lib/client-credentials.ts";
+import {
+  DeviceAuthorizationProvider,
+  isDisplayAvailable,
+} from "./lib/device-flow.ts";
+import { withManualAuthCode } from "./lib/manual-auth-code.ts";
+import { createToolFilter } from "./lib/tool-filter.ts";
+import { createNameRewrite } from "./lib/name-rewrite.ts";
+import {
+  Aggregator,
+  type PendingUpstream,
+  type Upstream,
+} from "./lib/aggregator.ts";
+import { resolveAggregateArgs } from "./lib/config-file.ts";
+import { readTextFile } from "./lib/mcp-auth-config.ts";
+import {
+  type OAuthRequestParams,
+  parseInsufficientScopeError,
+} from "./lib/oauth-requests.ts";
+import type {
+  AuthFlowStrategy,
+  CallbackEndpoint,
+  ClientCredentials,
+  ManualAuthCodeSource,
+  NameRewrite,
+  StaticOAuthClientInfo,
+  ToolFilter,
+  TransportStrategy,
+} from "./lib/types.ts";
 
 /**
- * Runs the MCP proxy server that bridges local STDIO MCP clients to remote HTTP+SSE MCP servers
- *
- * This function sets up the complete bidirectional proxy, handling OAuth authentication, token management,
- * and the translation between different MCP transport protocols. It will automatically open a browser
- * for authentication if needed, or reuse existing credentials if available.
- *
- * @param serverUrl The URL of the remote MCP server to connect to (e.g., "https://example.com/sse")
- * @param callbackPort The local port to use for OAuth callback server (default: 3334). This port must be available
- *                     for the OAuth redirect URL during the authentication flow
- * @param headers Custom HTTP headers to send with requests to the remote server. This can be used to pass
- *                API keys or other authentication tokens when not using OAuth
- * @returns A Promise that resolves when the proxy is closed or rejects if an error occurs during setup
- *
- * @example
- * ```ts
- * // Basic usage with default settings
- * await runProxy("https://remote.mcp.server.example.com/sse", 3334, {});
- *
- * // With custom headers for API key authentication
- * await runProxy(
- *   "https://remote.mcp.server.example.com/sse",
- *   3334,
- *   { "X-Api-Key": "your-api-key" }
- * );
- * ```
+ * Options of the proxy, as parsed from the command line
  */
-async function runProxy(
+interface ProxyOptions {
+  /** The URL of the remote MCP server to connect to (e.g., "https://example.com/sse") */
+  serverUrl: string;
+  /** The local port of the OAuth callback server, which must be available for the redirect */
+  callbackPort: number;
+  /** Custom HTTP headers to send with requests to the remote server, e.g. API keys when not using OAuth */
+  headers: Record<string, string>;
+  /** "auto" (default) tries Streamable HTTP first and falls back to HTTP+SSE, "sse" and "http" force one of them */
+  transportStrategy?: TransportStrategy;
+  /** Client ID and secret for the client credentials grant, tokens are then fetched without a browser */
+  clientCredentials?: ClientCredentials;
+  /** "auto" (default) uses the device flow when no display is available, "browser" and "device" force one of them */
+  authFlow?: AuthFlowStrategy;
+  /** Pre-registered client for authorization servers that don't support dynamic client registration */
+  staticClientInfo?: StaticOAuthClientInfo;
+  /** Scopes to request instead of the server's defaults, and the RFC 8707 resource indicator */
+  requestParams?: OAuthRequestParams;
+  /** Where the user can paste the redirect URL when the browser can't reach the callback server */
+  manualAuthCodeSource?: ManualAuthCodeSource;
+  /** The host the callback server binds to, the host in the redirect URI and the callback path */
+  callbackEndpoint?: CallbackEndpoint;
+  /** The named profile whose credentials to use, for holding several identities on the same server */
+  profile?: string;
+  /** Glob patterns of the remote tools to expose to the client and of those to hide */
+  toolFilter?: ToolFilter;
+  /** A namespace for the names of the remote tools, prompts and resources, and new names for some of them */
+  nameRewrite?: NameRewrite;
+  /** A JSON Lines file to record every message exchanged with the remote server to */
+  recordPath?: string;
+  /** A recording to play back in place of the remote server, without authorizing */
+  replayPath?: string;
+}
+
+/**
+ * Sets up the interactive authorization, coordinating with other instances
+ * so that only one of them asks the user to authorize
+ * @param serverUrl The URL of the remote MCP server
+ * @param callbackPort The local port to use for the OAuth callback server
+ * @param authFlow Whether to authorize in the browser or with the device flow
+ * @param staticClientInfo Pre-registered client to use instead of dynamic client registration
+ * @param requestParams The scope and resource to request
+ * @param manualAuthCodeSource Where the user can paste the authorization code, if anywhere
+ * @param callbackEndpoint The host to bind to, the host in the redirect URI and the callback path
+ * @param profile The named profile whose credentials to use
+ * @returns The auth provider, the callback server and how to wait for the authorization to complete
+ */
+async function setupInteractiveAuth(
   serverUrl: string,
   callbackPort: number,
-  headers: Record<string, string>,
+  authFlow: AuthFlowStrategy,
+  staticClientInfo: StaticOAuthClientInfo | undefined,
+  requestParams: OAuthRequestParams,
+  manualAuthCodeSource: ManualAuthCodeSource | undefined,
+  callbackEndpoint: CallbackEndpoint,
+  profile: string | undefined,
 ) {
   // Set up event emitter for auth flow
   const events = new EventEmitter();
 
-  // Get the server URL hash for lockfile operations
-  const serverUrlHash = getServerUrlHash(serverUrl);
+  // Get the server URL hash for lockfile operations, each profile coordinates separately
+  const serverUrlHash = getServerUrlHash(serverUrl, profile);
+
+  // A fixed redirect URI determines the path the callback arrives on
+  const { host, redirectHost, path: callbackPath } = resolveCallbackEndpoint(
+    callbackEndpoint,
+    staticClientInfo?.redirect_uri,
+  );
 
   // Coordinate authentication with other instances
   const { server, waitForAuthCode, skipBrowserAuth } = await coordinateAuth(
     serverUrlHash,
     callbackPort,
     events,
+    callbackPath,
+    host,
   );
 
-  // Create the OAuth client provider
-  const authProvider = new NodeOAuthClientProvider({
+  // Create the OAuth client provider, without a display the user can't reach the callback server
+  const useDeviceFlow = authFlow === "device" ||
+    (authFlow === "auto" && !isDisplayAvailable());
+  const providerOptions = {
     serverUrl,
     callbackPort,
+    callbackPath,
+    redirectHost,
     clientName: "MCP CLI Proxy",
+    staticClientInfo,
+    profile,
+    ...requestParams,
+  };
+  const authProvider = useDeviceFlow
+    ? new DeviceAuthorizationProvider(providerOptions)
+    : new NodeOAuthClientProvider(providerOptions);
+
+  // Pick up tokens refreshed or re-authorized by other instances without restarting
+  await authProvider.watchCredentials();
+  authProvider.onCredentialsChange((file) => {
+    log(`Using updated ${file} from another instance`);
   });
 
-  // If auth was completed by another instance, just log that we'll use the auth from disk
+  // If auth was completed by another instance, wait for it to store the tokens
   if (skipBrowserAuth) {
     log(
       "Authentication was completed by another instance - will use tokens from disk",
     );
-    // TODO: remove, the callback is happening before the tokens are exchanged
-    //  so we're slightly too early
-    await new Promise((res) => setTimeout(res, 1_000));
+    // The callback reaches the other instance before it has exchanged the code for tokens
+    if (!(await authProvider.waitForValidTokens())) {
+      log("Timed out waiting for tokens from the other instance");
+    }
   }
 
-  // Create the STDIO transport for local connections
-  const localTransport = new StdioServerTransport();
+  if (authProvider instanceof DeviceAuthorizationProvider) {
+    log("Using the device authorization flow");
+    return {
+      authProvider,
+      server,
+      waitForAuthCode: async () => {
+        const code = await authProvider.waitForAuthorization();
+        // Let other instances waiting on our callback server know the tokens are stored
+        events.emit("auth-completed");
+        return code;
+      },
+      skipBrowserAuth,
+    };
+  }
 
-  try {
-    // Connect to remote server with authentication
-    const remoteTransport = await connectToRemoteServer(
-      serverUrl,
+  // Let the user paste the code in case the redirect can't reach the callback server
+  if (manualAuthCodeSource && !skipBrowserAuth) {
+    return {
       authProvider,
-      headers,
-      waitForAuthCode,
+      server,
+      waitForAuthCode: withManualAuthCode(
+        manualAuthCodeSource,
+        events,
+        () => readTextFile(serverUrlHash, "state.txt"),
+        waitForAuthCode,
+      ),
       skipBrowserAuth,
+    };
+  }
+
+  return { authProvider, server, waitForAuthCode, skipBrowserAuth };
+}
+
+/**
+ * Sets up the authorization with the remote server
+ * @param options The remote server and how to authorize with it
+ * @returns The auth provider, the callback server and how to wait for the authorization to complete
+ */
+async function setupAuth(
+  {
+    serverUrl,
+    callbackPort,
+    clientCredentials,
+    authFlow = "auto",
+    staticClientInfo,
+    requestParams = {},
+    manualAuthCodeSource,
+    callbackEndpoint = {},
+    profile,
+    replayPath,
+  }: ProxyOptions,
+) {
+  // A recording stands in for the remote server, so there is nothing to authorize
+  if (replayPath) {
+    return {
+      authProvider: undefined,
+      server: undefined,
+      waitForAuthCode: () =>
+        Promise.reject(
+          new Error(
+            "Interactive authorization is not available when replaying",
+          ),
+        ),
+      skipBrowserAuth: false,
+    };
+  }
+
+  // Machine-to-machine setups get their tokens straight from the token endpoint,
+  // so there is no browser, callback server or coordination with other instances
+  return clientCredentials
+    ? {
+      authProvider: new ClientCredentialsProvider({
+        serverUrl,
+        ...clientCredentials,
+        clientName: "MCP CLI Proxy",
+        ...requestParams,
+      }),
+      server: undefined,
+      waitForAuthCode: () =>
+        Promise.reject(
+          new Error(
+            "Interactive authorization is not available with client credentials",
+          ),
+        ),
+      skipBrowserAuth: false,
+    }
+    : await setupInteractiveAuth(
+      serverUrl,
+      callbackPort,
+      authFlow,
+      staticClientInfo,
+      requestParams,
+      manualAuthCodeSource,
+      callbackEndpoint,
+      profile,
     );
+}
 
-    // Set up bidirectional proxy between local and remote transports
-    mcpProxy({
-      transportToClient: localTransport,
-      transportToServer: remoteTransport,
-    });
+/**
+ * Connects to the remote server, reconnecting whenever the connection drops
+ * @param options The remote server, the transport to use and the files to record to or replay
+ * @param auth The authorization set up with setupAuth
+ * @returns The transport to the remote server and the type of transport that was negotiated
+ */
+async function connectRemote(
+  {
+    serverUrl,
+    headers,
+    transportStrategy = "auto",
+    recordPath,
+    replayPath,
+  }: ProxyOptions,
+  { authProvider, waitForAuthCode, skipBrowserAuth }:
+    & Pick<
+      Awaited<ReturnType<typeof setupAuth>>,
+      "authProvider" | "skipBrowserAuth"
+    >
+    & { waitForAuthCode: () => Promise<string | null> },
+) {
+  // Connect to remote server with authentication
+  const connectedTransport = await connectToRemoteServer(
+    serverUrl,
+    authProvider,
+    headers,
+    waitForAuthCode,
+    skipBrowserAuth,
+    transportStrategy,
+    replayPath,
+  );
+  const transportType = connectedTransport instanceof
+      StreamableHTTPClientTransport
+    ? "http"
+    : "sse";
 
-    // Start the local STDIO server
-    await localTransport.start();
-    log("Local STDIO server running");
-    log("Proxy established successfully between local STDIO and remote SSE");
-    log("Press Ctrl+C to exit");
+  // Keep the local session alive when the remote connection drops,
+  // reconnecting with the transport that was negotiated initially
+  const remoteTransport = new ReconnectingTransport(
+    connectedTransport,
+    () =>
+      connectToRemoteServer(
+        serverUrl,
+        authProvider,
+        headers,
+        waitForAuthCode,
+        skipBrowserAuth,
+        transportType,
+        replayPath,
+      ),
+    {
+      // A token lacking scopes the server needs takes a new authorization and connection
+      shouldReconnect: (error) => {
+        const scope = parseInsufficientScopeError(error);
+        return scope !== undefined &&
+          authProvider instanceof NodeOAuthClientProvider &&
+          authProvider.requestAdditionalScopes(scope);
+      },
+    },
+  );
 
-    // Setup cleanup handler
-    const cleanup = async () => {
-      await remoteTransport.close();
-      await localTransport.close();
-      server.close();
-    };
-    setupSignalHandlers(cleanup);
-  } catch (error) {
-    log("Fatal error:", error);
-    if (
-      error instanceof Error &&
-      error.message.includes("self-signed certificate in certificate chain")
-    ) {
-      log(`You may be behind a VPN!
+  return {
+    remoteTransport: recordPath
+      ? new RecordingTransport(remoteTransport, recordPath)
+      : remoteTransport,
+    transportType,
+  };
+}
+
+/**
+ * Creates the transforms renaming and hiding the tools of the remote server
+ * @param toolFilter The tools to expose, if not all
+ * @param nameRewrite The namespace and new names, if any
+ * @returns The transforms for mcpProxy
+ */
+function createTransforms(
+  toolFilter: ToolFilter | undefined,
+  nameRewrite: NameRewrite | undefined,
+): ProxyTransform[] {
+  // The tool filter is next to the server, so it matches the names the server uses
+  return [
+    ...(nameRewrite ? [createNameRewrite(nameRewrite)] : []),
+    ...(toolFilter ? [createToolFilter(toolFilter)] : []),
+  ];
+}
+
+/**
+ * Logs an error that keeps the proxy from starting, with a hint for TLS interception by VPNs
+ * @param error The error
+ */
+function logFatalError(error: unknown) {
+  log("Fatal error:", error);
+  if (
+    error instanceof Error &&
+    error.message.includes("self-signed certificate in certificate chain")
+  ) {
+    log(`You may be behind a VPN!
 
 If you are behind a VPN, you can try setting the DENO_CERT environment variable to point
 to the CA certificate file. If using claude_desktop_config.json, this might look like:
@@ -171,22 +415,249 @@ to the CA certificate file. If using claude_desktop_config.json, this might look
   }
 }
         `);
-    }
-    server.close();
+  }
+}
+
+/**
+ * Runs the MCP proxy server that bridges local STDIO MCP clients to remote HTTP+SSE MCP servers
+ *
+ * This function sets up the complete bidirectional proxy, handling OAuth authentication, token management,
+ * and the translation between different MCP transport protocols. It will automatically open a browser
+ * for authentication if needed, or reuse existing credentials if available.
+ *
+ * @param options The remote server, how to authorize with it and what to expose to the client
+ * @returns A Promise that resolves when the proxy is closed or rejects if an error occurs during setup
+ *
+ * @example
+ * ```ts
+ * // Basic usage with default settings
+ * await runProxy({
+ *   serverUrl: "https://remote.mcp.server.example.com/sse",
+ *   callbackPort: 3334,
+ *   headers: {},
+ * });
+ *
+ * // With custom headers for API key authentication
+ * await runProxy({
+ *   serverUrl: "https://remote.mcp.server.example.com/sse",
+ *   callbackPort: 3334,
+ *   headers: { "X-Api-Key": "your-api-key" },
+ * });
+ * ```
+ */
+async function runProxy(options: ProxyOptions) {
+  const { serverUrl, toolFilter, nameRewrite, replayPath } = options;
+  const auth = await setupAuth(options);
+  const { authProvider, server } = auth;
+
+  // Create the STDIO transport for local connections
+  const localTransport = new StdioServerTransport();
+
+  try {
+    const { remoteTransport, transportType } = await connectRemote(
+      options,
+      auth,
+    );
+
+    // Set up bidirectional proxy between local and remote transports
+    mcpProxy({
+      transportToClient: localTransport,
+      transportToServer: remoteTransport,
+      transforms: createTransforms(toolFilter, nameRewrite),
+    });
+
+    // Start the local STDIO server
+    await localTransport.start();
+    log("Local STDIO server running");
+    log(
+      `Proxy established successfully between local STDIO and ${
+        replayPath ??
+          `remote ${transportType === "http" ? "Streamable HTTP" : "SSE"}`
+      }`,
+    );
+    log("Press Ctrl+C to exit");
+
+    // Refresh the access token before it expires so that proxied requests don't hit a 401
+    // (the client credentials provider requests new tokens on its own)
+    const tokenRefreshScheduler =
+      authProvider instanceof NodeOAuthClientProvider
+        ? new TokenRefreshScheduler(authProvider, serverUrl)
+        : undefined;
+    await tokenRefreshScheduler?.start();
+
+    // Setup cleanup handler
+    const cleanup = async () => {
+      tokenRefreshScheduler?.stop();
+      if (authProvider instanceof NodeOAuthClientProvider) {
+        authProvider.stopWatchingCredentials();
+      }
+      await remoteTransport.close();
+      await localTransport.close();
+      server?.close();
+    };
+    setupSignalHandlers(cleanup);
+  } catch (error) {
+    logFatalError(error);
+    server?.close();
     Deno.exit(1);
   }
 }
 
-// Parse command-line arguments and run the proxy
-parseCommandLineArgs(
-  Deno.args,
-  3334,
-  "Usage: deno run src/proxy.ts <https://server-url> [callback-port]",
-)
-  .then(({ serverUrl, callbackPort, headers }) => {
-    return runProxy(serverUrl, callbackPort, headers);
-  })
-  .catch((error) => {
-    log("Fatal error:", error);
+/**
+ * Runs the MCP proxy for several remote servers of the config file behind one STDIO transport
+ *
+ * The servers are authorized and connected in parallel, each with its own auth provider and
+ * callback port, and the aggregator merges their tools, prompts and resources for the local
+ * client. The client is served as soon as every server is connected or waiting for the user to
+ * authorize, so browser flows don't hold up its initialize request. Those servers join later.
+ *
+ * @param args Command line arguments, without `--aggregate`
+ * @param usage The usage message to show for invalid arguments
+ * @returns A Promise that resolves when the proxy is running or rejects if the arguments are invalid
+ */
+async function runAggregator(args: string[], usage: string) {
+  if (args.includes("--help") || args.includes("-h")) {
+    log(usage);
+    Deno.exit(0);
+  }
+
+  let servers: Awaited<ReturnType<typeof resolveAggregateArgs>>;
+  try {
+    servers = await resolveAggregateArgs(args);
+  } catch (error) {
+    log(`Error: ${(error as Error).message}`);
+    log(usage);
+    throw new Error("Process exit called");
+  }
+
+  const localTransport = new StdioServerTransport();
+  const cleanups: (() => Promise<void>)[] = [];
+  const callbackServers: { close: () => void }[] = [];
+
+  try {
+    // Servers without a callback port get the next free one after that of the previous server
+    const serverOptions: { name: string; options: ProxyOptions }[] = [];
+    let defaultPort = 3334;
+    for (const { name, args } of servers) {
+      const options = await parseCommandLineArgs(args, defaultPort, usage);
+      defaultPort = options.callbackPort + 1;
+      serverOptions.push({ name, options });
+    }
+
+    // Codes are collected one server at a time, so that a code typed into the terminal reaches
+    // the server it is for. Callback servers keep the codes that arrive in the meantime.
+    let authorizations = Promise.resolve();
+
+    // Connects to a server, reporting when it has to wait for the user to authorize
+    const connectServer = async (
+      options: ProxyOptions,
+      onAuthorizing: () => void,
+    ) => {
+      const auth = await setupAuth(options);
+      const { authProvider, server } = auth;
+      if (server) {
+        callbackServers.push(server);
+      }
+
+      const { remoteTransport } = await connectRemote(options, {
+        ...auth,
+        waitForAuthCode: () => {
+          onAuthorizing();
+          const code = authorizations.then(() => auth.waitForAuthCode());
+          authorizations = code.then(() => {}, () => {});
+          return code;
+        },
+      });
+
+      // Refresh the access token before it expires so that proxied requests don't hit a 401
+      const tokenRefreshScheduler =
+        authProvider instanceof NodeOAuthClientProvider
+          ? new TokenRefreshScheduler(authProvider, options.serverUrl)
+          : undefined;
+      await tokenRefreshScheduler?.start();
+      cleanups.push(() => {
+        tokenRefreshScheduler?.stop();
+        if (authProvider instanceof NodeOAuthClientProvider) {
+          authProvider.stopWatchingCredentials();
+        }
+        return remoteTransport.close();
+      });
+      return remoteTransport;
+    };
+
+    const connections = serverOptions.map(({ name, options }) => {
+      let authorizing: () => void;
+      const waiting = new Promise<void>((resolve) => authorizing = resolve);
+      const transport = connectServer(options, () => authorizing());
+      return {
+        upstream: {
+          name,
+          transforms: createTransforms(options.toolFilter, options.nameRewrite),
+          transport,
+        },
+        // Servers that fail before the client is served keep the proxy from starting
+        ready: Promise.race([
+          transport.then(() => true),
+          waiting.then(() => false),
+        ]),
+      };
+    });
+    const ready = await Promise.all(
+      connections.map((connection) => connection.ready),
+    );
+
+    const upstreams: Upstream[] = [];
+    const pending: PendingUpstream[] = [];
+    for (const [i, { upstream }] of connections.entries()) {
+      if (ready[i]) {
+        upstreams.push({ ...upstream, transport: await upstream.transport });
+      } else {
+        log(`Serving without ${upstream.name} until it is authorized`);
+        pending.push(upstream);
+      }
+    }
+
+    const aggregator = new Aggregator();
+    await aggregator.connect(upstreams, localTransport, pending);
+    log("Local STDIO server running");
+    log(
+      `Aggregating ${servers.length} remote servers: ${
+        servers.map(({ name }) => name).join(", ")
+      }`,
+    );
+    log("Press Ctrl+C to exit");
+
+    // Setup cleanup handler
+    const cleanup = async () => {
+      await aggregator.close();
+      await Promise.all(cleanups.map((cleanup) => cleanup()));
+      callbackServers.forEach((server) => server.close());
+    };
+    setupSignalHandlers(cleanup);
+  } catch (error) {
+    logFatalError(error);
+    callbackServers.forEach((server) => server.close());
     Deno.exit(1);
-  });
+  }
+}
+
+const usage =
+  "Usage: deno run src/proxy.ts <https://server-url>|--server <name> [callback-port] [--config <file>] [--profile <name>] [--transport auto|sse|http] [--auth-flow auto|browser|device] [--auth-code-input tty|<file>] [--callback-host <host>] [--redirect-host <host>] [--callback-path <path>] [--static-oauth-client-info <json|@file>] [--scope <scopes>] [--resource <uri>] [--client-id <id> --client-secret <secret>] [--allow-tool <glob>]... [--deny-tool <glob>]... [--namespace <name>] [--rename <tool>=<new name>]... [--record <file>|--replay <file>]\n" +
+  "       deno run src/proxy.ts --aggregate [--config <file>] [--server <name>]... [options]";
+
+// Several servers of the config file share one STDIO transport with --aggregate
+if (Deno.args.includes("--aggregate")) {
+  runAggregator(Deno.args.filter((arg) => arg !== "--aggregate"), usage)
+    .catch((error) => {
+      log("Fatal error:", error);
+      Deno.exit(1);
+    });
+} else {
+  // Parse command-line arguments and run the proxy
+  parseCommandLineArgs(Deno.args, 3334, usage)
+    .then(runProxy)
+    .catch((error) => {
+      log("Fatal error:", error);
+      Deno.exit(1);
+    });
+}
@@ -0,0 +1,329 @@
+#!/usr/bin/env node
+
+/**
+ * This module implements the reverse of the proxy: it exposes a local STDIO-based MCP server as a
+ * remote MCP server that speaks both the HTTP+SSE and the Streamable HTTP transport.
+ *
+ * Every remote session gets its own instance of the local server, since STDIO servers can only
+ * serve a single client. Requests from web pages of foreign origins are rejected and the number
+ * of sessions is capped, so a page open in the user's browser can't start or drive the server.
+ * Messages are relayed with the same bidirectional proxy that the STDIO proxy uses, with the
+ * HTTP session acting as the client side and the spawned process as the server side.
+ *
+ * @example
+ * ```sh
+ * # Share a local STDIO server on the LAN
+ * deno run --allow-net --allow-env --allow-read --allow-run src/serve.ts --host 0.0.0.0 \
+ *   --port 8080 npx -y @modelcontextprotocol/server-everything
+ * ```
+ *
+ * @module
+ */
+
+/**
+ * MCP Server with HTTP transports
+ * Publishes a local STDIO MCP server over HTTP+SSE (GET /sse, POST /messages) and
+ * Streamable HTTP (/mcp).
+ *
+ * Run with: deno run --allow-net --allow-env --allow-read --allow-run src/serve.ts [--host <host>] [--port <port>] [--allow-origin <origin>] [--max-sessions <n>] <command> [args...]
+ */
+
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import createServer, { type RawRouteHandler } from "./lib/deno-http-server.ts";
+import {
+  SSEServerSessionTransport,
+  StreamableHTTPServerSessionTransport,
+  validateRequestOrigin,
+} from "./lib/http-server-transports.ts";
+import { log, mcpProxy, setupSignalHandlers } from "./lib/utils.ts";
+
+/**
+ * Default port for the HTTP server
+ */
+const DEFAULT_SERVE_PORT = 8080;
+
+/**
+ * Default limit for the number of concurrent sessions, each running its own local server
+ */
+const DEFAULT_MAX_SESSIONS = 16;
+
+/**
+ * Addresses that only accept connections from this machine
+ */
+const LOOPBACK_ADDRESSES = ["127.0.0.1", "::1", "localhost"];
+
+/**
+ * Options for the HTTP server
+ */
+interface ServeOptions {
+  /** Browser origins allowed in addition to the loopback ones */
+  allowedOrigins: string[];
+  /** The maximum number of concurrent sessions */
+  maxSessions: number;
+}
+
+/**
+ * Runs an HTTP server that exposes a local STDIO MCP server to remote clients
+ *
+ * @param host The hostname or IP address to bind to (use "0.0.0.0" to share the server on the LAN)
+ * @param port The port to listen on
+ * @param command The command that starts the local STDIO MCP server
+ * @param args Arguments to pass to the command
+ * @param options The allowed origins and the session limit
+ *
+ * @example
+ * ```ts
+ * // Only reachable from this machine
+ * runServe("127.0.0.1", 8080, "deno", ["run", "my-server.ts"]);
+ * ```
+ */
+function runServe(
+  host: string,
+  port: number,
+  command: string,
+  args: string[],
+  {
+    allowedOrigins = [],
+    maxSessions = DEFAULT_MAX_SESSIONS,
+  }: Partial<ServeOptions> = {},
+) {
+  const app = createServer();
+  const sessions = new Map<string, Transport>();
+  const childTransports = new Set<StdioClientTransport>();
+  const originPolicy = {
+    allowedOrigins,
+    loopbackHostOnly: LOOPBACK_ADDRESSES.includes(host),
+  };
+
+  // Registers a route that only serves requests from allowed origins
+  const route = (method: string, path: string, handler: RawRouteHandler) => {
+    app.route(method, path, (req) => {
+      const rejection = validateRequestOrigin(req, originPolicy);
+      if (rejection) {
+        log(
+          `Rejected ${method} ${path} for origin ${
+            req.headers.get("origin")
+          } and host ${req.headers.get("host")}`,
+        );
+        return rejection;
+      }
+      return handler(req);
+    });
+  };
+
+  // Every session runs a process, so the sessions a client can open are limited
+  const tooManySessions = () => {
+    if (sessions.size < maxSessions) {
+      return undefined;
+    }
+    log(`Rejected new session, ${maxSessions} sessions are already open`);
+    return new Response("Too many sessions", { status: 503 });
+  };
+
+  // Spawns a new instance of the local server and connects it to the remote session
+  const startSession = async (
+    sessionId: string,
+    sessionTransport: Transport,
+  ) => {
+    const childTransport = new StdioClientTransport({
+      command,
+      args,
+      stderr: "inherit",
+    });
+    childTransports.add(childTransport);
+
+    mcpProxy({
+      transportToClient: sessionTransport,
+      transportToServer: childTransport,
+    });
+
+    // Forget the session once either side goes away
+    const proxyOnClose = sessionTransport.onclose;
+    sessionTransport.onclose = () => {
+      sessions.delete(sessionId);
+      childTransports.delete(childTransport);
+      log(`Session ${sessionId} closed`);
+      proxyOnClose?.();
+    };
+
+    sessions.set(sessionId, sessionTransport);
+    try {
+      await childTransport.start();
+    } catch (error) {
+      sessions.delete(sessionId);
+      childTransports.delete(childTransport);
+      throw error;
+    }
+    log(`Session ${sessionId} started: ${command} ${args.join(" ")}`);
+  };
+
+  // HTTP+SSE transport: GET opens the event stream, POST delivers client messages
+  route("GET", "/sse", async () => {
+    const rejection = tooManySessions();
+    if (rejection) {
+      return rejection;
+    }
+    const transport = new SSEServerSessionTransport("/messages");
+    try {
+      await startSession(transport.sessionId, transport);
+    } catch (error) {
+      log("Failed to start local server:", error);
+      return new Response("Failed to start local server", { status: 500 });
+    }
+    return transport.createResponse();
+  });
+
+  route("POST", "/messages", (req) => {
+    const sessionId = new URL(req.url).searchParams.get("sessionId") ?? "";
+    const transport = sessions.get(sessionId);
+    if (!(transport instanceof SSEServerSessionTransport)) {
+      return new Response("Session not found", { status: 404 });
+    }
+    return transport.handlePostMessage(req);
+  });
+
+  // Streamable HTTP transport: a single endpoint for everything
+  const handleStreamableHttp = async (req: Request) => {
+    const sessionId = req.headers.get("mcp-session-id");
+    if (sessionId) {
+      const transport = sessions.get(sessionId);
+      if (!(transport instanceof StreamableHTTPServerSessionTransport)) {
+        return new Response("Session not found", { status: 404 });
+      }
+      return await transport.handleRequest(req);
+    }
+
+    // Only an initialize request may create a new session
+    let body: unknown;
+    try {
+      body = req.method === "POST" ? await req.json() : undefined;
+    } catch {
+      return new Response("Invalid JSON", { status: 400 });
+    }
+    if (!isInitializeRequest(body)) {
+      return new Response("Bad Request: No valid session ID provided", {
+        status: 400,
+      });
+    }
+
+    const rejection = tooManySessions();
+    if (rejection) {
+      return rejection;
+    }
+    const transport = new StreamableHTTPServerSessionTransport();
+    try {
+      await startSession(transport.sessionId, transport);
+    } catch (error) {
+      log("Failed to start local server:", error);
+      return new Response("Failed to start local server", { status: 500 });
+    }
+    return await transport.handleRequest(req, body);
+  };
+  route("POST", "/mcp", handleStreamableHttp);
+  route("GET", "/mcp", handleStreamableHttp);
+  route("DELETE", "/mcp", handleStreamableHttp);
+
+  const server = app.listen(port, host, () => {
+    log(`MCP server running at http://${host}:${port}`);
+    log(`  Streamable HTTP: http://${host}:${port}/mcp`);
+    log(`  HTTP+SSE:        http://${host}:${port}/sse`);
+  });
+
+  // Setup cleanup handler
+  const cleanup = async () => {
+    for (const transport of sessions.values()) {
+      await transport.close().catch(() => {});
+    }
+    for (const childTransport of childTransports) {
+      await childTransport.close().catch(() => {});
+    }
+    server.close();
+  };
+  setupSignalHandlers(cleanup);
+}
+
+/**
+ * Parses command line arguments for the serve entrypoint
+ * @param args Command line arguments
+ * @param usage Usage message to show on error
+ * @returns The host, port, server options and the command (with its arguments) to run
+ */
+function parseServeArgs(args: string[], usage: string) {
+  if (args.length === 0 || args[0] === "--help" || args[0] === "-h") {
+    log(usage);
+    Deno.exit(args.length === 0 ? 1 : 0);
+  }
+
+  let host = "127.0.0.1";
+  let port = DEFAULT_SERVE_PORT;
+  const allowedOrigins: string[] = [];
+  let maxSessions = DEFAULT_MAX_SESSIONS;
+
+  // Options come before the command, everything after belongs to the command
+  let i = 0;
+  while (i < args.length && args[i].startsWith("--")) {
+    const flag = args[i];
+    if (flag === "--") {
+      i++;
+      break;
+    }
+    const value = args[i + 1];
+    if (flag === "--host" && value) {
+      host = value;
+    } else if (flag === "--port" && value) {
+      port = Number.parseInt(value, 10);
+      if (Number.isNaN(port)) {
+        log(`Error: Invalid port number: ${value}`);
+        log(usage);
+        throw new Error("Process exit called");
+      }
+    } else if (flag === "--allow-origin" && value) {
+      allowedOrigins.push(value);
+    } else if (flag === "--max-sessions" && value) {
+      maxSessions = Number.parseInt(value, 10);
+      if (Number.isNaN(maxSessions) || maxSessions < 1) {
+        log(`Error: Invalid session limit: ${value}`);
+        log(usage);
+        throw new Error("Process exit called");
+      }
+    } else {
+      log(`Error: Unknown option: ${flag}`);
+      log(usage);
+      throw new Error("Process exit called");
+    }
+    i += 2;
+  }
+
+  const [command, ...commandArgs] = args.slice(i);
+  if (!command) {
+    log("Error: Command is required");
+    log(usage);
+    throw new Error("Process exit called");
+  }
+
+  return {
+    host,
+    port,
+    command,
+    commandArgs,
+    options: { allowedOrigins, maxSessions },
+  };
+}
+
+// Parse command-line arguments and run the server
+Promise.resolve()
+  .then(() =>
+    parseServeArgs(
+      Deno.args,
+      "Usage: deno run src/serve.ts [--host <host>] [--port <port>] [--allow-origin <origin>] [--max-sessions <n>] <command> [args...]",
+    )
+  )
+  .then(({ host, port, command, commandArgs, options }) => {
+    return runServe(host, port, command, commandArgs, options);
+  })
+  .catch((error) => {
+    log("Fatal error:", error);
+    Deno.exit(1);
+  });
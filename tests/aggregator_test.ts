@@ -0,0 +1,292 @@
+import { assertEquals, assertRejects } from "std/assert/mod.ts";
+import { afterEach, beforeEach, describe, it } from "std/testing/bdd.ts";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  CallToolResultSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListRootsRequestSchema,
+  ListRootsResultSchema,
+  ListToolsRequestSchema,
+  LoggingMessageNotificationSchema,
+  ReadResourceRequestSchema,
+  ToolListChangedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  Aggregator,
+  type PendingUpstream,
+  type Upstream,
+} from "../src/lib/aggregator.ts";
+import { createNameRewrite } from "../src/lib/name-rewrite.ts";
+
+// Creates a remote server with tools answering with the name of the server
+function createToolServer(name: string, tools: string[]) {
+  const server = new Server(
+    { name, version: "1.0.0" },
+    { capabilities: { tools: {}, logging: {} } },
+  );
+  server.setRequestHandler(ListToolsRequestSchema, () => ({
+    tools: tools.map((tool) => ({
+      name: tool,
+      inputSchema: { type: "object" as const },
+    })),
+  }));
+  server.setRequestHandler(CallToolRequestSchema, (request) => ({
+    content: [{ type: "text", text: `${name}: ${request.params.name}` }],
+  }));
+  return server;
+}
+
+// Creates a remote server with a resource and a resource template
+function createResourceServer(name: string) {
+  const server = new Server(
+    { name, version: "1.0.0" },
+    { capabilities: { resources: {} } },
+  );
+  server.setRequestHandler(ListResourcesRequestSchema, () => ({
+    resources: [{ uri: `${name}://readme`, name: "README" }],
+  }));
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, () => ({
+    resourceTemplates: [{
+      uriTemplate: `${name}://issues/{id}`,
+      name: "Issue",
+    }],
+  }));
+  server.setRequestHandler(ReadResourceRequestSchema, (request) => ({
+    contents: [{ uri: request.params.uri, text: name }],
+  }));
+  return server;
+}
+
+describe("aggregator", () => {
+  let servers: Server[];
+  let aggregator: Aggregator;
+  let client: Client;
+
+  // Connects the servers to the aggregator and a client to the aggregator
+  async function connect(
+    remotes: { server: Server; name: string; upstream?: Partial<Upstream> }[],
+    pending: PendingUpstream[] = [],
+  ) {
+    servers = remotes.map(({ server }) => server);
+    const upstreams = await Promise.all(
+      remotes.map(async ({ server, name, upstream }) => {
+        const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+        await server.connect(serverSide);
+        return { name, transport: clientSide, ...upstream };
+      }),
+    );
+
+    const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+    aggregator = new Aggregator();
+    await aggregator.connect(upstreams, serverSide, pending);
+    client = new Client(
+      { name: "test-client", version: "1.0.0" },
+      { capabilities: { roots: {} } },
+    );
+    await client.connect(clientSide);
+  }
+
+  beforeEach(() => {
+    servers = [];
+  });
+
+  afterEach(async () => {
+    await client?.close();
+    await aggregator?.close();
+    await Promise.all(servers.map((server) => server.close()));
+  });
+
+  it("merges the tools of the servers and routes calls to their owner", async () => {
+    await connect([
+      { server: createToolServer("linear", ["create_issue"]), name: "linear" },
+      { server: createToolServer("github", ["create_pr"]), name: "github" },
+    ]);
+
+    const { tools } = await client.listTools();
+    assertEquals(tools.map((tool) => tool.name), ["create_issue", "create_pr"]);
+
+    const result = await client.callTool({ name: "create_pr" });
+    assertEquals(result.content, [{ type: "text", text: "github: create_pr" }]);
+  });
+
+  it("keeps the first of two tools with the same name", async () => {
+    await connect([
+      { server: createToolServer("linear", ["search"]), name: "linear" },
+      { server: createToolServer("github", ["search"]), name: "github" },
+    ]);
+
+    const { tools } = await client.listTools();
+    assertEquals(tools.map((tool) => tool.name), ["search"]);
+
+    const result = await client.callTool({ name: "search" });
+    assertEquals(result.content, [{ type: "text", text: "linear: search" }]);
+  });
+
+  it("applies the transforms of each server", async () => {
+    await connect([
+      { server: createToolServer("linear", ["search"]), name: "linear" },
+      {
+        server: createToolServer("github", ["search"]),
+        name: "github",
+        upstream: { transforms: [createNameRewrite({ namespace: "gh" })] },
+      },
+    ]);
+
+    const { tools } = await client.listTools();
+    assertEquals(tools.map((tool) => tool.name), ["search", "gh_search"]);
+
+    const result = await client.callTool({ name: "gh_search" });
+    assertEquals(result.content, [{ type: "text", text: "github: search" }]);
+  });
+
+  it("routes calls before the tools are listed", async () => {
+    await connect([
+      { server: createToolServer("linear", ["create_issue"]), name: "linear" },
+      { server: createToolServer("github", ["create_pr"]), name: "github" },
+    ]);
+
+    const result = await client.request(
+      { method: "tools/call", params: { name: "create_pr" } },
+      CallToolResultSchema,
+    );
+    assertEquals(result.content, [{ type: "text", text: "github: create_pr" }]);
+    await assertRejects(
+      () => client.callTool({ name: "delete_repo" }),
+      Error,
+      "Unknown tool: delete_repo",
+    );
+  });
+
+  it("routes resources by URI and by resource template", async () => {
+    await connect([
+      { server: createResourceServer("linear"), name: "linear" },
+      { server: createResourceServer("github"), name: "github" },
+    ]);
+
+    const { resources } = await client.listResources();
+    assertEquals(resources.map((resource) => resource.uri), [
+      "linear://readme",
+      "github://readme",
+    ]);
+
+    const readme = await client.readResource({ uri: "github://readme" });
+    assertEquals(readme.contents, [{ uri: "github://readme", text: "github" }]);
+    const issue = await client.readResource({ uri: "linear://issues/42" });
+    assertEquals(issue.contents, [{
+      uri: "linear://issues/42",
+      text: "linear",
+    }]);
+  });
+
+  it("only declares the capabilities of the servers", async () => {
+    await connect([
+      { server: createToolServer("linear", []), name: "linear" },
+    ]);
+
+    assertEquals(client.getServerCapabilities(), {
+      tools: { listChanged: true },
+      logging: {},
+    });
+  });
+
+  it("forwards notifications of the servers, labeling log messages", async () => {
+    const linear = createToolServer("linear", []);
+    await connect([{ server: linear, name: "linear" }]);
+
+    const notifications: string[] = [];
+    let logged: () => void;
+    const received = new Promise<void>((resolve) => logged = resolve);
+    client.setNotificationHandler(ToolListChangedNotificationSchema, () => {
+      notifications.push("tools/list_changed");
+    });
+    client.setNotificationHandler(
+      LoggingMessageNotificationSchema,
+      (notification) => {
+        notifications.push(
+          `${notification.params.logger}: ${notification.params.data}`,
+        );
+        if (notification.params.data === "Synced") {
+          logged();
+        }
+      },
+    );
+
+    await linear.sendToolListChanged();
+    await linear.sendLoggingMessage({
+      level: "info",
+      logger: "github",
+      data: "Spoofed",
+    });
+    await linear.sendLoggingMessage({ level: "info", data: "Synced" });
+    await received;
+
+    assertEquals(notifications, [
+      "tools/list_changed",
+      "linear/github: Spoofed",
+      "linear: Synced",
+    ]);
+  });
+
+  it("passes requests of the servers on to the client", async () => {
+    const linear = createToolServer("linear", []);
+    await connect([{ server: linear, name: "linear" }]);
+    client.setRequestHandler(
+      ListRootsRequestSchema,
+      () => ({ roots: [{ uri: "file:///project" }] }),
+    );
+
+    const result = await linear.request(
+      { method: "roots/list" },
+      ListRootsResultSchema,
+    );
+    assertEquals(result.roots, [{ uri: "file:///project" }]);
+  });
+
+  it("serves the client before a pending server joins", async () => {
+    const github = createToolServer("github", ["create_pr"]);
+    let authorized: () => void;
+    const authorization = new Promise<void>((resolve) => authorized = resolve);
+    const [githubClientSide, githubServerSide] = InMemoryTransport
+      .createLinkedPair();
+    await connect([
+      { server: createToolServer("linear", ["create_issue"]), name: "linear" },
+    ], [{
+      name: "github",
+      transport: authorization.then(async () => {
+        await github.connect(githubServerSide);
+        return githubClientSide;
+      }),
+    }]);
+    servers.push(github);
+
+    assertEquals(client.getServerCapabilities(), {
+      tools: { listChanged: true },
+      prompts: { listChanged: true },
+      resources: { listChanged: true, subscribe: false },
+      completions: {},
+      logging: {},
+    });
+    assertEquals(
+      (await client.listTools()).tools.map((tool) => tool.name),
+      ["create_issue"],
+    );
+
+    const listChanged = new Promise<void>((resolve) =>
+      client.setNotificationHandler(
+        ToolListChangedNotificationSchema,
+        () => resolve(),
+      )
+    );
+    authorized!();
+    await listChanged;
+
+    assertEquals(
+      (await client.listTools()).tools.map((tool) => tool.name),
+      ["create_issue", "create_pr"],
+    );
+  });
+});
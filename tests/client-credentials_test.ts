@@ -0,0 +1,177 @@
+import { assertEquals, assertRejects, assertThrows } from "std/assert/mod.ts";
+import { afterEach, beforeEach, describe, it } from "std/testing/bdd.ts";
+import { stub } from "std/testing/mock.ts";
+import type {
+  OAuthMetadata,
+  OAuthTokens,
+} from "@modelcontextprotocol/sdk/shared/auth.js";
+import {
+  ClientCredentialsProvider,
+  requestClientCredentialsTokens,
+} from "../src/lib/client-credentials.ts";
+
+const metadata = {
+  issuer: "https://auth.example.com",
+  authorization_endpoint: "https://auth.example.com/authorize",
+  token_endpoint: "https://auth.example.com/token",
+  response_types_supported: ["code"],
+  grant_types_supported: ["client_credentials"],
+} as OAuthMetadata;
+
+describe("client-credentials", () => {
+  describe("requestClientCredentialsTokens", () => {
+    let fetchStub: ReturnType<typeof stub>;
+
+    afterEach(() => {
+      fetchStub?.restore();
+    });
+
+    it("requests tokens from the token endpoint", async () => {
+      let request: { url: string; body: string } | undefined;
+      // @ts-ignore - Required for testing
+      fetchStub = stub(
+        globalThis,
+        "fetch",
+        (url: string | URL | Request, init?: RequestInit) => {
+          request = { url: url.toString(), body: init?.body?.toString() ?? "" };
+          return Promise.resolve(
+            Response.json({
+              access_token: "test-access-token",
+              token_type: "Bearer",
+              expires_in: 3600,
+            }),
+          );
+        },
+      );
+
+      const tokens = await requestClientCredentialsTokens(
+        "https://mcp.example.com",
+        {
+          metadata,
+          clientInformation: {
+            client_id: "test-client",
+            client_secret: "test-secret",
+          },
+        },
+      );
+
+      assertEquals(tokens.access_token, "test-access-token");
+      assertEquals(request?.url, "https://auth.example.com/token");
+      const params = new URLSearchParams(request?.body);
+      assertEquals(params.get("grant_type"), "client_credentials");
+      assertEquals(params.get("client_id"), "test-client");
+      assertEquals(params.get("client_secret"), "test-secret");
+    });
+
+    it("rejects servers that don't support the grant", async () => {
+      await assertRejects(
+        () =>
+          requestClientCredentialsTokens("https://mcp.example.com", {
+            metadata: {
+              ...metadata,
+              grant_types_supported: ["authorization_code"],
+            },
+            clientInformation: { client_id: "test-client" },
+          }),
+        Error,
+        "does not support grant type client_credentials",
+      );
+    });
+
+    it("throws when the token request fails", async () => {
+      // @ts-ignore - Required for testing
+      fetchStub = stub(
+        globalThis,
+        "fetch",
+        () => Promise.resolve(new Response("Forbidden", { status: 401 })),
+      );
+
+      await assertRejects(
+        () =>
+          requestClientCredentialsTokens("https://mcp.example.com", {
+            clientInformation: { client_id: "test-client" },
+          }),
+        Error,
+        "HTTP 401",
+      );
+    });
+  });
+
+  describe("ClientCredentialsProvider", () => {
+    let issued: number;
+    let expiresIn: number;
+
+    const deps = {
+      discoverOAuthMetadata: () => Promise.resolve(metadata),
+      requestTokens: (): Promise<OAuthTokens> => {
+        issued++;
+        return Promise.resolve({
+          access_token: `access-${issued}`,
+          token_type: "Bearer",
+          expires_in: expiresIn,
+        });
+      },
+      log: () => {},
+    };
+
+    const options = {
+      serverUrl: "https://mcp.example.com",
+      clientId: "test-client",
+      clientSecret: "test-secret",
+    };
+
+    beforeEach(() => {
+      issued = 0;
+      expiresIn = 3600;
+    });
+
+    it("returns the pre-registered client information", () => {
+      const provider = new ClientCredentialsProvider(options, deps);
+
+      assertEquals(provider.clientInformation(), {
+        client_id: "test-client",
+        client_secret: "test-secret",
+      });
+      assertEquals(provider.clientMetadata.grant_types, ["client_credentials"]);
+    });
+
+    it("requests a token on first use and reuses it while valid", async () => {
+      const provider = new ClientCredentialsProvider(options, deps);
+
+      const [first, second] = await Promise.all([
+        provider.tokens(),
+        provider.tokens(),
+      ]);
+      const third = await provider.tokens();
+
+      assertEquals(issued, 1);
+      assertEquals(first?.access_token, "access-1");
+      assertEquals(second?.access_token, "access-1");
+      assertEquals(third?.access_token, "access-1");
+    });
+
+    it("requests a new token when the current one is about to expire", async () => {
+      expiresIn = 30;
+      const provider = new ClientCredentialsProvider(options, deps);
+
+      await provider.tokens();
+      const renewed = await provider.tokens();
+
+      assertEquals(issued, 2);
+      assertEquals(renewed?.access_token, "access-2");
+    });
+
+    it("discards the token and fails instead of redirecting to a browser", async () => {
+      const provider = new ClientCredentialsProvider(options, deps);
+      await provider.tokens();
+
+      assertThrows(
+        () => provider.redirectToAuthorization(),
+        Error,
+        "rejected the access token",
+      );
+
+      assertEquals((await provider.tokens())?.access_token, "access-2");
+    });
+  });
+});
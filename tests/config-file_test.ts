@@ -0,0 +1,381 @@
+import { assertEquals, assertRejects, assertThrows } from "std/assert/mod.ts";
+import { describe, it } from "std/testing/bdd.ts";
+import { stub } from "std/testing/mock.ts";
+import {
+  type ConfigFileDeps,
+  parseJsonc,
+  resolveAggregateArgs,
+  resolveConfigArgs,
+  serverConfigToArgs,
+  validateConfigFile,
+} from "../src/lib/config-file.ts";
+import { parseCommandLineArgs } from "../src/lib/utils.ts";
+
+describe("config-file", () => {
+  const config = `{
+    "servers": {
+      "linear": { "url": "https://mcp.linear.app/sse", "transport": "sse" },
+      "github": { "url": "https://api.github.com/mcp", "callbackPort": 4000 },
+    },
+  }`;
+  const files = new Map([["/project/mcp-remote.jsonc", config]]);
+  const deps: ConfigFileDeps = {
+    readTextFile: (path) => {
+      const content = files.get(path);
+      return content === undefined
+        ? Promise.reject(new Deno.errors.NotFound(path))
+        : Promise.resolve(content);
+    },
+    cwd: () => "/project",
+  };
+
+  describe("parseJsonc", () => {
+    it("ignores comments and trailing commas", () => {
+      assertEquals(
+        parseJsonc(`{
+          // Line comment
+          "url": "https://example.com/sse", /* block comment */
+          "scope": ["read", "write",],
+        }`),
+        { url: "https://example.com/sse", scope: ["read", "write"] },
+      );
+    });
+
+    it("keeps comment markers and commas inside strings", () => {
+      assertEquals(
+        parseJsonc(`{ "a": "https://example.com/*x*/", "b": "// ,}", }`),
+        { a: "https://example.com/*x*/", b: "// ,}" },
+      );
+    });
+
+    it("rejects invalid JSON", () => {
+      assertThrows(() => parseJsonc(`{ "a": }`), SyntaxError);
+      assertThrows(() => parseJsonc(`{ /* "a": 1 }`), SyntaxError);
+    });
+  });
+
+  describe("validateConfigFile", () => {
+    const validate = (server: unknown) =>
+      validateConfigFile({ servers: { linear: server } });
+
+    it("accepts a server with all options", () => {
+      validate({
+        url: "https://mcp.linear.app/sse",
+        callbackPort: 3334,
+        headers: { "X-Api-Key": "${LINEAR_API_KEY}" },
+        transport: "sse",
+        authFlow: "browser",
+        scope: ["read", "write"],
+        staticOAuthClientInfo: { client_id: "my-client" },
+        allowHttp: false,
+      });
+    });
+
+    it("names the invalid option", () => {
+      const cases: [unknown, string][] = [
+        [{}, "servers.linear.url is required"],
+        [
+          { url: "https://example.com", callbackPort: 70000 },
+          "servers.linear.callbackPort must be a port number",
+        ],
+        [
+          { url: "https://example.com", transport: "websocket" },
+          'servers.linear.transport must be one of "auto", "sse", "http", got "websocket"',
+        ],
+        [
+          { url: "https://example.com", headers: { "X-Key": 1 } },
+          "servers.linear.headers must map header names to strings",
+        ],
+        [
+          { url: "https://example.com", denyTools: "delete_*" },
+          "servers.linear.denyTools must be a list of tool names or patterns",
+        ],
+        [
+          { url: "https://example.com", callbackPrt: 3334 },
+          'servers.linear has an unknown option "callbackPrt"',
+        ],
+      ];
+      for (const [server, message] of cases) {
+        assertThrows(() => validate(server), Error, message);
+      }
+    });
+
+    it("requires at least one server", () => {
+      assertThrows(
+        () => validateConfigFile({ servers: {} }),
+        Error,
+        "at least one server",
+      );
+    });
+  });
+
+  describe("serverConfigToArgs", () => {
+    it("turns the options into command line flags", () => {
+      assertEquals(
+        serverConfigToArgs({
+          url: "https://example.com/mcp",
+          callbackPort: 8080,
+          headers: { Authorization: "Bearer ${TOKEN}" },
+          transport: "http",
+          authCodeInput: "code.txt",
+          scope: ["read", "write"],
+          staticOAuthClientInfo: "@client.json",
+          namespace: "linear",
+          rename: { search: "find_issues" },
+          denyTools: ["delete_*", "admin_*"],
+          record: "traffic.jsonl",
+          replay: "/recordings/linear.jsonl",
+          allowHttp: true,
+        }, "/project"),
+        [
+          "https://example.com/mcp",
+          "8080",
+          "--header",
+          "Authorization:Bearer ${TOKEN}",
+          "--transport",
+          "http",
+          "--auth-code-input",
+          "/project/code.txt",
+          "--namespace",
+          "linear",
+          "--record",
+          "/project/traffic.jsonl",
+          "--replay",
+          "/recordings/linear.jsonl",
+          "--scope",
+          "read write",
+          "--static-oauth-client-info",
+          "@/project/client.json",
+          "--rename",
+          "search=find_issues",
+          "--deny-tool",
+          "delete_*",
+          "--deny-tool",
+          "admin_*",
+          "--allow-http",
+        ],
+      );
+    });
+  });
+
+  describe("resolveConfigArgs", () => {
+    it("leaves arguments without --config or --server alone", async () => {
+      const args = ["https://example.com", "8080"];
+      assertEquals(await resolveConfigArgs(args, deps), args);
+    });
+
+    it("leaves out the options given on the command line", async () => {
+      assertEquals(
+        await resolveConfigArgs(
+          ["--server", "linear", "--transport", "http"],
+          deps,
+        ),
+        ["https://mcp.linear.app/sse", "--transport", "http"],
+      );
+    });
+
+    it("overrides headers by name and adds up tool filters", async () => {
+      files.set(
+        "/project/filters.json",
+        JSON.stringify({
+          servers: {
+            jira: {
+              url: "https://jira.example.com/mcp",
+              headers: { Authorization: "Bearer a", "X-Team": "core" },
+              allowTools: ["search_*"],
+            },
+          },
+        }),
+      );
+      assertEquals(
+        await resolveConfigArgs(
+          [
+            "--config",
+            "/project/filters.json",
+            "--header",
+            "authorization:Bearer b",
+            "--allow-tool",
+            "get_issue",
+          ],
+          deps,
+        ),
+        [
+          "https://jira.example.com/mcp",
+          "--header",
+          "authorization:Bearer b",
+          "--allow-tool",
+          "get_issue",
+          "--header",
+          "X-Team:core",
+          "--allow-tool",
+          "search_*",
+        ],
+      );
+    });
+
+    it("lets the command line override the callback port", async () => {
+      assertEquals(
+        await resolveConfigArgs(["--server", "github", "5000"], deps),
+        ["https://api.github.com/mcp", "5000"],
+      );
+    });
+
+    it("reports unknown servers with the available ones", async () => {
+      await assertRejects(
+        () => resolveConfigArgs(["--server", "gitlab"], deps),
+        Error,
+        'Unknown server "gitlab" in /project/mcp-remote.jsonc, expected one of: linear, github',
+      );
+    });
+
+    it("requires --server when the file defines several servers", async () => {
+      await assertRejects(
+        () =>
+          resolveConfigArgs(["--config", "/project/mcp-remote.jsonc"], deps),
+        Error,
+        "select one with --server",
+      );
+    });
+
+    it("reports a missing config file", async () => {
+      await assertRejects(
+        () => resolveConfigArgs(["--config", "other.json"], deps),
+        Error,
+        "Could not read config file /project/other.json",
+      );
+      await assertRejects(
+        () =>
+          resolveConfigArgs(["--server", "linear"], {
+            ...deps,
+            cwd: () => "/elsewhere",
+          }),
+        Error,
+        "No config file found",
+      );
+    });
+  });
+
+  describe("parseCommandLineArgs", () => {
+    const servers = JSON.stringify({
+      servers: {
+        a: { url: "http://intranet.example.com/mcp", allowHttp: true },
+        b: { url: "https://b.example.com/mcp", transport: "http" },
+      },
+    });
+
+    // Parses the arguments with the config file above in the working directory
+    async function parse(args: string[]) {
+      const readTextFileStub = stub(
+        Deno,
+        "readTextFile",
+        (path: string | URL) =>
+          String(path).endsWith("mcp-remote.json")
+            ? Promise.resolve(servers)
+            : Promise.reject(new Deno.errors.NotFound(String(path))),
+      );
+      try {
+        return await parseCommandLineArgs(args, 3000, "Usage");
+      } finally {
+        readTextFileStub.restore();
+      }
+    }
+
+    it("allows HTTP for a server without a callback port", async () => {
+      const result = await parse(["--server", "a"]);
+
+      assertEquals(result.serverUrl, "http://intranet.example.com/mcp");
+    });
+
+    it("lets a command line flag override the same option", async () => {
+      const result = await parse(["--server", "b", "--transport", "sse"]);
+
+      assertEquals(result.serverUrl, "https://b.example.com/mcp");
+      assertEquals(result.transportStrategy, "sse");
+    });
+
+    it("applies the shared flags of --aggregate to every server", async () => {
+      const readTextFileStub = stub(
+        Deno,
+        "readTextFile",
+        () => Promise.resolve(servers),
+      );
+      let aggregated;
+      try {
+        aggregated = await resolveAggregateArgs(["--transport", "sse"]);
+      } finally {
+        readTextFileStub.restore();
+      }
+
+      const results = [];
+      for (const { args } of aggregated) {
+        results.push(await parse(args));
+      }
+      assertEquals(
+        results.map(({ serverUrl, transportStrategy }) => ({
+          serverUrl,
+          transportStrategy,
+        })),
+        [
+          {
+            serverUrl: "http://intranet.example.com/mcp",
+            transportStrategy: "sse",
+          },
+          { serverUrl: "https://b.example.com/mcp", transportStrategy: "sse" },
+        ],
+      );
+    });
+  });
+
+  describe("resolveAggregateArgs", () => {
+    it("aggregates all servers of the config file", async () => {
+      assertEquals(
+        await resolveAggregateArgs(["--auth-flow", "device"], deps),
+        [
+          {
+            name: "linear",
+            args: [
+              "--config",
+              "/project/mcp-remote.jsonc",
+              "--server",
+              "linear",
+              "--auth-flow",
+              "device",
+            ],
+          },
+          {
+            name: "github",
+            args: [
+              "--config",
+              "/project/mcp-remote.jsonc",
+              "--server",
+              "github",
+              "--auth-flow",
+              "device",
+            ],
+          },
+        ],
+      );
+    });
+
+    it("aggregates the selected servers in the given order", async () => {
+      const servers = await resolveAggregateArgs(
+        ["--server", "github", "--server", "linear", "--server", "github"],
+        deps,
+      );
+      assertEquals(servers.map(({ name }) => name), ["github", "linear"]);
+    });
+
+    it("rejects unknown servers and server URLs", async () => {
+      await assertRejects(
+        () => resolveAggregateArgs(["--server", "jira"], deps),
+        Error,
+        'Unknown server "jira" in /project/mcp-remote.jsonc',
+      );
+      await assertRejects(
+        () => resolveAggregateArgs(["https://example.com"], deps),
+        Error,
+        "--aggregate takes the servers from the config file",
+      );
+    });
+  });
+});
@@ -1,76 +1,134 @@
-import { assertEquals } from "std/assert/mod.ts";
+import { assertEquals, assertRejects } from "std/assert/mod.ts";
 import { afterEach, beforeEach, describe, it } from "std/testing/bdd.ts";
 import { stub } from "std/testing/mock.ts";
+import type { LockfileData } from "../src/lib/mcp-auth-config.ts";
 import {
+  acquireAuthLock,
   isLockValid,
-  isPidRunning,
+  startLockHeartbeat,
   waitForAuthentication,
+  withRefreshLock,
 } from "../src/lib/coordination.ts";
+import { getConfigFilePath } from "../src/lib/mcp-auth-config.ts";
 
 /**
- * Basic tests for the coordination module
+ * Replaces the file system with an in-memory one honoring createNew, so that lockfiles behave
+ * as on disk
  */
-describe("coordination", () => {
-  describe("isPidRunning", () => {
-    it("returns false when Deno.Command throws an error", async () => {
-      const originalCommand = Deno.Command;
-      try {
-        // @ts-ignore - Replace Deno.Command with a function that throws
-        Deno.Command = () => {
-          throw new Error("Test error");
-        };
+function useInMemoryFiles(): Map<string, string> {
+  const files = new Map<string, string>();
 
-        const result = await isPidRunning(1234);
-        assertEquals(result, false);
-      } finally {
-        // Restore original Command
-        Deno.Command = originalCommand;
+  const originalWriteTextFile = Deno.writeTextFile;
+  const originalReadTextFile = Deno.readTextFile;
+  const originalRemove = Deno.remove;
+  const originalMkdir = Deno.mkdir;
+  const originalRename = Deno.rename;
+
+  beforeEach(() => {
+    files.clear();
+    Deno.mkdir = (() => Promise.resolve()) as typeof Deno.mkdir;
+    Deno.writeTextFile = ((
+      path: string | URL,
+      data: string,
+      options?: Deno.WriteFileOptions,
+    ) => {
+      if (options?.createNew && files.has(path.toString())) {
+        return Promise.reject(new Deno.errors.AlreadyExists());
       }
-    });
+      files.set(path.toString(), data);
+      return Promise.resolve();
+    }) as typeof Deno.writeTextFile;
+    Deno.readTextFile = ((path: string | URL) => {
+      const content = files.get(path.toString());
+      return content === undefined
+        ? Promise.reject(new Deno.errors.NotFound())
+        : Promise.resolve(content);
+    }) as typeof Deno.readTextFile;
+    Deno.remove = ((path: string | URL) => {
+      if (!files.delete(path.toString())) {
+        return Promise.reject(new Deno.errors.NotFound());
+      }
+      return Promise.resolve();
+    }) as typeof Deno.remove;
+    Deno.rename = ((oldPath: string | URL, newPath: string | URL) => {
+      const content = files.get(oldPath.toString());
+      if (content === undefined) {
+        return Promise.reject(new Deno.errors.NotFound());
+      }
+      files.delete(oldPath.toString());
+      files.set(newPath.toString(), content);
+      return Promise.resolve();
+    }) as typeof Deno.rename;
+  });
 
-    if (Deno.build.os === "linux" || Deno.build.os === "darwin") {
-      it("checks if a process is running on non-Windows by using kill command", async () => {
-        // Just verify it runs without error - actual functionality depends on the OS
-        const result = await isPidRunning(Deno.pid);
-        // Our own process should be running
-        assertEquals(typeof result, "boolean");
-      });
-    } else if (Deno.build.os === "windows") {
-      it("checks if a process is running on Windows by using tasklist command", async () => {
-        // Just verify it runs without error - actual functionality depends on the OS
-        const result = await isPidRunning(Deno.pid);
-        // Our own process should be running
-        assertEquals(typeof result, "boolean");
-      });
-    }
+  afterEach(() => {
+    Deno.mkdir = originalMkdir;
+    Deno.writeTextFile = originalWriteTextFile;
+    Deno.readTextFile = originalReadTextFile;
+    Deno.remove = originalRemove;
+    Deno.rename = originalRename;
   });
 
+  return files;
+}
+
+/**
+ * Basic tests for the coordination module
+ */
+describe("coordination", () => {
   describe("isLockValid", () => {
-    const mockLockData = {
-      pid: 1234, // A likely non-existent PID
-      port: 8000,
-      timestamp: Date.now() - (31 * 60 * 1000), // Expired (31 minutes old)
+    let fetchStub: ReturnType<typeof stub> | undefined;
+
+    afterEach(() => {
+      fetchStub?.restore();
+      fetchStub = undefined;
+    });
+
+    const stubFetch = (response: () => Promise<Response>) => {
+      // @ts-ignore - Required for testing
+      fetchStub = stub(globalThis, "fetch", response);
     };
 
-    it("returns false for expired lockfile", async () => {
-      const result = await isLockValid(mockLockData);
+    it("accepts a recent heartbeat of a responding callback server", async () => {
+      stubFetch(() => Promise.resolve(new Response("", { status: 202 })));
+
+      const result = await isLockValid({
+        pid: 999999,
+        port: 8000,
+        timestamp: Date.now() - 60 * 60 * 1000,
+        heartbeat: Date.now(),
+      });
+
+      assertEquals(result, true);
+      assertEquals(
+        fetchStub?.calls[0].args[0],
+        "http://127.0.0.1:8000/wait-for-auth?poll=false",
+      );
+    });
+
+    it("returns false for an old heartbeat", async () => {
+      stubFetch(() => Promise.resolve(new Response("", { status: 202 })));
+
+      const result = await isLockValid({
+        pid: Deno.pid,
+        port: 8000,
+        timestamp: Date.now() - 60 * 60 * 1000,
+        heartbeat: Date.now() - 60_000,
+      });
+
       assertEquals(result, false);
+      assertEquals(fetchStub?.calls.length, 0);
     });
 
-    it("returns false for non-existent process", async () => {
-      // Find a PID that's unlikely to exist
-      let testPid = 999999;
-      while (await isPidRunning(testPid)) {
-        testPid += 1000;
-      }
+    it("returns false when the callback server doesn't answer", async () => {
+      stubFetch(() => Promise.reject(new Error("Connection refused")));
 
-      const validTimestampData = {
-        ...mockLockData,
-        pid: testPid,
-        timestamp: Date.now(), // Not expired
-      };
+      const result = await isLockValid({
+        pid: Deno.pid,
+        port: 8000,
+        timestamp: Date.now(),
+      });
 
-      const result = await isLockValid(validTimestampData);
       assertEquals(result, false);
     });
   });
@@ -112,6 +170,21 @@ describe("coordination", () => {
       assertEquals(result, true);
     });
 
+    it("connects to the host the other instance is reachable on", async () => {
+      // @ts-ignore - Required for testing
+      fetchStub = stub(
+        globalThis,
+        "fetch",
+        () => Promise.resolve(new Response("Auth completed", { status: 200 })),
+      );
+
+      await waitForAuthentication(8000, "192.168.1.5");
+      assertEquals(
+        fetchStub.calls[0].args[0],
+        "http://192.168.1.5:8000/wait-for-auth",
+      );
+    });
+
     it("returns false for unexpected status", async () => {
       // Mock fetch to simulate an error response
       // @ts-ignore - Required for testing
@@ -138,4 +211,236 @@ describe("coordination", () => {
       assertEquals(result, false);
     });
   });
+
+  describe("withRefreshLock", () => {
+    const testHash = "testhash123";
+    const lockPath = getConfigFilePath(testHash, "refresh_lock.json");
+
+    const files = useInMemoryFiles();
+
+    it("runs the refresh while holding the lock and releases it afterwards", async () => {
+      const result = await withRefreshLock(testHash, () => {
+        assertEquals(files.has(lockPath), true);
+        return Promise.resolve("refreshed");
+      });
+
+      assertEquals(result, "refreshed");
+      assertEquals(files.has(lockPath), false);
+    });
+
+    it("releases the lock when the refresh fails", async () => {
+      await assertRejects(() =>
+        withRefreshLock(testHash, () => Promise.reject(new Error("failed")))
+      );
+      assertEquals(files.has(lockPath), false);
+    });
+
+    it("lets only one concurrent caller refresh at a time", async () => {
+      let active = 0;
+      let maxActive = 0;
+      let storedToken = "token-0";
+      let refreshes = 0;
+
+      // Each caller refreshes only if nobody else did while it was waiting
+      const refreshIfStale = async (seenToken: string) => {
+        await withRefreshLock(testHash, async () => {
+          active++;
+          maxActive = Math.max(maxActive, active);
+          if (storedToken === seenToken) {
+            await new Promise((resolve) => setTimeout(resolve, 20));
+            storedToken = `token-${++refreshes}`;
+          }
+          active--;
+        }, { pollInterval: 5 });
+      };
+
+      const seenToken = storedToken;
+      await Promise.all(
+        Array.from({ length: 5 }, () => refreshIfStale(seenToken)),
+      );
+
+      assertEquals(maxActive, 1);
+      assertEquals(refreshes, 1);
+      assertEquals(files.has(lockPath), false);
+    });
+
+    it("takes over a lock abandoned by a crashed process", async () => {
+      files.set(
+        lockPath,
+        JSON.stringify({ pid: 999999, timestamp: Date.now() - 60_000 }),
+      );
+
+      const result = await withRefreshLock(
+        testHash,
+        () => Promise.resolve(true),
+        { staleAfter: 30_000 },
+      );
+
+      assertEquals(result, true);
+      assertEquals(files.has(lockPath), false);
+    });
+
+    it("lets only one of two waiters take over an abandoned lock", async () => {
+      files.set(
+        lockPath,
+        JSON.stringify({ pid: 999999, timestamp: Date.now() - 60_000 }),
+      );
+      // Removals after the first one take a moment, so a waiter that confirmed the abandoned lock
+      // would remove the lock of the waiter that already took it over
+      const remove = Deno.remove;
+      let removals = 0;
+      Deno.remove = (async (path: string | URL) => {
+        if (removals++ > 0) {
+          await new Promise((resolve) => setTimeout(resolve, 5));
+        }
+        await remove(path);
+      }) as typeof Deno.remove;
+      let active = 0;
+      let maxActive = 0;
+
+      try {
+        await Promise.all(
+          Array.from(
+            { length: 2 },
+            () =>
+              withRefreshLock(testHash, async () => {
+                active++;
+                maxActive = Math.max(maxActive, active);
+                await new Promise((resolve) => setTimeout(resolve, 20));
+                active--;
+              }, { pollInterval: 5, staleAfter: 30_000 }),
+          ),
+        );
+      } finally {
+        Deno.remove = remove;
+      }
+
+      assertEquals(maxActive, 1);
+      assertEquals(files.has(lockPath), false);
+    });
+
+    it("keeps the lock of another process after a refresh outlasting it", async () => {
+      const otherLock = JSON.stringify({ pid: 999999, timestamp: Date.now() });
+
+      await withRefreshLock(testHash, () => {
+        // Another process took the lock over while this refresh was running
+        files.set(lockPath, otherLock);
+        return Promise.resolve();
+      });
+
+      assertEquals(files.get(lockPath), otherLock);
+    });
+  });
+
+  describe("acquireAuthLock", () => {
+    const testHash = "testhash123";
+    const lockPath = getConfigFilePath(testHash, "lock.json");
+    const files = useInMemoryFiles();
+
+    const readLock = () => JSON.parse(files.get(lockPath)!) as LockfileData;
+
+    // Starts instances with callback ports 4000, 4001, ... at the same time
+    const startInstances = (
+      count: number,
+      isLockValid: (lockData: LockfileData) => Promise<boolean>,
+    ) =>
+      Promise.all(
+        Array.from(
+          { length: count },
+          (_, i) =>
+            acquireAuthLock(testHash, 4000 + i, undefined, {
+              pollInterval: 1,
+              isLockValid,
+            }),
+        ),
+      );
+
+    it("makes exactly one of several concurrent instances the leader", async () => {
+      const results = await startInstances(8, () => Promise.resolve(true));
+
+      assertEquals(results.filter((lock) => lock === null).length, 1);
+      const leaderPort = 4000 + results.indexOf(null);
+      assertEquals(readLock().port, leaderPort);
+      for (const lock of results.filter((lock) => lock !== null)) {
+        assertEquals(lock?.port, leaderPort);
+      }
+    });
+
+    it("lets exactly one instance take over a stale lock", async () => {
+      files.set(
+        lockPath,
+        JSON.stringify({
+          pid: 999999,
+          port: 3000,
+          timestamp: Date.now() - 60_000,
+        }),
+      );
+
+      const results = await startInstances(
+        8,
+        (lockData) => Promise.resolve(lockData.port !== 3000),
+      );
+
+      assertEquals(results.filter((lock) => lock === null).length, 1);
+      assertEquals(readLock().port, 4000 + results.indexOf(null));
+      assertEquals(
+        files.has(getConfigFilePath(testHash, "takeover_lock.json")),
+        false,
+      );
+    });
+
+    it("waits for the callback server of a new lock to start", async () => {
+      files.set(
+        lockPath,
+        JSON.stringify({ pid: 999999, port: 3000, timestamp: Date.now() }),
+      );
+      let checks = 0;
+
+      const lock = await acquireAuthLock(testHash, 4000, undefined, {
+        pollInterval: 1,
+        isLockValid: () => Promise.resolve(++checks === 3),
+      });
+
+      assertEquals(lock?.port, 3000);
+      assertEquals(readLock().port, 3000);
+    });
+  });
+
+  describe("startLockHeartbeat", () => {
+    const testHash = "testhash123";
+    const lockPath = getConfigFilePath(testHash, "lock.json");
+    const files = useInMemoryFiles();
+
+    const readLock = () => JSON.parse(files.get(lockPath)!) as LockfileData;
+    const sleep = (ms: number) =>
+      new Promise((resolve) => setTimeout(resolve, ms));
+
+    it("refreshes the heartbeat of the lock held by this instance", async () => {
+      const timestamp = Date.now() - 60_000;
+      files.set(
+        lockPath,
+        JSON.stringify({ pid: Deno.pid, port: 4000, timestamp }),
+      );
+
+      const stop = startLockHeartbeat(testHash, 4000, 1);
+      await sleep(20);
+      stop();
+
+      const lock = readLock();
+      assertEquals(lock.timestamp, timestamp);
+      assertEquals(Date.now() - lock.heartbeat! < 1000, true);
+      assertEquals(files.size, 1);
+    });
+
+    it("leaves a lock taken over by another instance alone", async () => {
+      const otherLock = { pid: Deno.pid, port: 4001, timestamp: Date.now() };
+      files.set(lockPath, JSON.stringify(otherLock));
+
+      const stop = startLockHeartbeat(testHash, 4000, 1);
+      await sleep(20);
+      stop();
+
+      assertEquals(readLock(), otherLock);
+    });
+  });
 });
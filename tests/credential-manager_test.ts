@@ -0,0 +1,193 @@
+import { assertEquals, assertRejects, assertThrows } from "std/assert/mod.ts";
+import { beforeEach, describe, it } from "std/testing/bdd.ts";
+import { assertSpyCalls, spy } from "std/testing/mock.ts";
+import type { OAuthMetadata } from "@modelcontextprotocol/sdk/shared/auth.js";
+import {
+  CredentialManager,
+  type CredentialManagerDeps,
+  resolveServerUrlHash,
+} from "../src/lib/credential-manager.ts";
+import { getServerUrlHash } from "../src/lib/utils.ts";
+
+const serverUrl = "https://mcp.example.com/sse";
+const serverUrlHash = getServerUrlHash(serverUrl);
+const lockedHash = "0123456789abcdef0123456789abcdef";
+
+const metadata = {
+  issuer: "https://auth.example.com",
+  authorization_endpoint: "https://auth.example.com/authorize",
+  token_endpoint: "https://auth.example.com/token",
+  revocation_endpoint: "https://auth.example.com/revoke",
+  response_types_supported: ["code"],
+} as OAuthMetadata;
+
+describe("credential-manager", () => {
+  let files: Map<string, unknown>;
+  let revokedTokens: string[];
+  let activeProfile: string | undefined;
+  let deps: Partial<CredentialManagerDeps>;
+
+  beforeEach(() => {
+    files = new Map<string, unknown>([
+      [`${serverUrlHash}_server.json`, { serverUrl }],
+      [`${serverUrlHash}_client_info.json`, { client_id: "test-client" }],
+      [`${serverUrlHash}_tokens.json`, {
+        access_token: "access",
+        token_type: "Bearer",
+        refresh_token: "refresh",
+        expires_in: 3600,
+        scope: "read write",
+        issued_at: 1_000_000,
+      }],
+    ]);
+    revokedTokens = [];
+    activeProfile = undefined;
+    deps = {
+      listServerUrlHashes: () =>
+        Promise.resolve([lockedHash, serverUrlHash, `${serverUrlHash}@work`]),
+      readJsonFile: async (hash, filename, schema) => {
+        const data = files.get(`${hash}_${filename}`);
+        return data === undefined
+          ? undefined
+          : (await schema.parseAsync(data)) ?? undefined;
+      },
+      readActiveProfile: () => Promise.resolve(activeProfile),
+      writeActiveProfile: (_hash, profile) => {
+        activeProfile = profile;
+        return Promise.resolve();
+      },
+      deleteCredentialFiles: spy((hash: string) => {
+        for (const key of [...files.keys()]) {
+          if (key.startsWith(`${hash}_`)) {
+            files.delete(key);
+          }
+        }
+        return Promise.resolve();
+      }),
+      discoverOAuthMetadata: () => Promise.resolve(metadata),
+      revokeToken: ({ token }) => {
+        revokedTokens.push(token);
+        return Promise.resolve();
+      },
+    };
+  });
+
+  it("lists the servers with stored credentials", async () => {
+    const servers = await new CredentialManager(deps).list();
+
+    // The hash with only a lockfile is left out
+    assertEquals(servers.map((server) => server.serverUrl), [serverUrl]);
+  });
+
+  it("lists the profiles of a server", async () => {
+    files.set(`${serverUrlHash}@work_server.json`, { serverUrl });
+
+    const manager = new CredentialManager(deps);
+    const profiles = await manager.listProfiles(serverUrlHash);
+
+    assertEquals(profiles.map((server) => server.profile), [undefined, "work"]);
+    assertEquals((await manager.list()).length, 2);
+  });
+
+  it("switches the active profile", async () => {
+    const manager = new CredentialManager(deps);
+
+    await manager.useProfile(`${serverUrlHash}@work`, "work");
+    assertEquals(activeProfile, "work");
+    assertEquals(await manager.getActiveProfile(serverUrlHash), "work");
+
+    await manager.useProfile(serverUrlHash, "default");
+    assertEquals(activeProfile, undefined);
+    assertEquals(await manager.getActiveProfile(serverUrlHash), "default");
+  });
+
+  it("shows when the access token expires and its scopes", async () => {
+    const server = await new CredentialManager(deps).inspect(serverUrlHash);
+
+    assertEquals(server.clientInformation?.client_id, "test-client");
+    assertEquals(server.tokens?.scope, "read write");
+    assertEquals(server.expiresAt, 1_000_000 + 3600 * 1000);
+  });
+
+  it("revokes the refresh and access token before deleting them", async () => {
+    await new CredentialManager(deps).revoke(serverUrlHash);
+
+    assertEquals(revokedTokens, ["refresh", "access"]);
+    assertSpyCalls(deps.deleteCredentialFiles as ReturnType<typeof spy>, 1);
+    assertEquals(files.size, 0);
+  });
+
+  it("keeps the credentials when the revocation fails", async () => {
+    deps.revokeToken = () =>
+      Promise.reject(new Error("Token revocation failed: HTTP 503"));
+
+    await assertRejects(
+      () => new CredentialManager(deps).revoke(serverUrlHash),
+      Error,
+      "HTTP 503",
+    );
+    assertEquals(files.size, 3);
+  });
+
+  it("revokes tokens of a pre-registered client with the given client", async () => {
+    files.delete(`${serverUrlHash}_client_info.json`);
+    const manager = new CredentialManager(deps);
+
+    await assertRejects(
+      () => manager.revoke(serverUrlHash),
+      Error,
+      "--static-oauth-client-info",
+    );
+    assertEquals(revokedTokens, []);
+
+    await manager.revoke(serverUrlHash, { client_id: "static-client" });
+    assertEquals(revokedTokens, ["refresh", "access"]);
+    assertEquals(files.size, 0);
+  });
+
+  it("can't revoke tokens of an unknown server", async () => {
+    files.delete(`${serverUrlHash}_server.json`);
+
+    await assertRejects(
+      () => new CredentialManager(deps).revoke(serverUrlHash),
+      Error,
+      "only be deleted with logout",
+    );
+    assertEquals(revokedTokens, []);
+  });
+
+  describe("resolveServerUrlHash", () => {
+    it("accepts a server URL or a hash", () => {
+      assertEquals(resolveServerUrlHash(serverUrl), serverUrlHash);
+      assertEquals(resolveServerUrlHash(serverUrlHash), serverUrlHash);
+    });
+
+    it("selects a profile", () => {
+      assertEquals(
+        resolveServerUrlHash(serverUrl, "work"),
+        `${serverUrlHash}@work`,
+      );
+      assertEquals(
+        resolveServerUrlHash(`${serverUrlHash}@work`),
+        `${serverUrlHash}@work`,
+      );
+      assertEquals(
+        resolveServerUrlHash(`${serverUrlHash}@work`, "default"),
+        serverUrlHash,
+      );
+      assertThrows(
+        () => resolveServerUrlHash(serverUrl, "a_b"),
+        Error,
+        "Invalid profile name",
+      );
+    });
+
+    it("rejects anything else", () => {
+      assertThrows(
+        () => resolveServerUrlHash("mcp.example.com"),
+        Error,
+        "Expected a server URL or hash",
+      );
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import {
+  assert,
+  assertEquals,
+  assertInstanceOf,
+  assertRejects,
+  assertStringIncludes,
+} from "std/assert/mod.ts";
+import { afterEach, describe, it } from "std/testing/bdd.ts";
+import {
+  createCredentialStorage,
+  type CredentialStorage,
+  EncryptedFileStorage,
+  PlaintextFileStorage,
+} from "../src/lib/credential-storage.ts";
+
+// Keeps the files in memory, the tests don't have write access to the file system
+class MemoryStorage implements CredentialStorage {
+  files = new Map<string, string>();
+
+  read(filePath: string): Promise<string> {
+    const content = this.files.get(filePath);
+    return content === undefined
+      ? Promise.reject(new Deno.errors.NotFound(filePath))
+      : Promise.resolve(content);
+  }
+
+  write(filePath: string, content: string): Promise<void> {
+    this.files.set(filePath, content);
+    return Promise.resolve();
+  }
+}
+
+// Keep the tests fast, the default is far more expensive on purpose
+const iterations = 1000;
+
+describe("credential-storage", () => {
+  describe("EncryptedFileStorage", () => {
+    const tokens = JSON.stringify({ refresh_token: "secret-refresh-token" });
+
+    it("encrypts files and decrypts them again", async () => {
+      const files = new MemoryStorage();
+      const storage = new EncryptedFileStorage("passphrase", files, iterations);
+
+      await storage.write("/config/hash_tokens.json", tokens);
+
+      const stored = files.files.get("/config/hash_tokens.json")!;
+      assert(!stored.includes("secret-refresh-token"));
+      assertEquals(JSON.parse(stored).encrypted, "AES-GCM");
+      assertEquals(await storage.read("/config/hash_tokens.json"), tokens);
+    });
+
+    it("decrypts files written by another instance with the same key", async () => {
+      const files = new MemoryStorage();
+      const key = new TextEncoder().encode("key-file-content");
+      await new EncryptedFileStorage(key, files, iterations).write(
+        "/config/hash_tokens.json",
+        tokens,
+      );
+
+      const storage = new EncryptedFileStorage(key, files, iterations);
+      assertEquals(await storage.read("/config/hash_tokens.json"), tokens);
+    });
+
+    it("fails to read files encrypted with a different key", async () => {
+      const files = new MemoryStorage();
+      await new EncryptedFileStorage("passphrase", files, iterations).write(
+        "/config/hash_tokens.json",
+        tokens,
+      );
+
+      const storage = new EncryptedFileStorage("other", files, iterations);
+      await assertRejects(
+        () => storage.read("/config/hash_tokens.json"),
+        Error,
+        "Could not decrypt hash_tokens.json",
+      );
+    });
+
+    it("fails to read files swapped for another encrypted file", async () => {
+      const files = new MemoryStorage();
+      const storage = new EncryptedFileStorage("passphrase", files, iterations);
+      await storage.write("/config/hash_tokens.json", tokens);
+
+      files.files.set(
+        "/config/hash_client_info.json",
+        files.files.get("/config/hash_tokens.json")!,
+      );
+      await assertRejects(
+        () => storage.read("/config/hash_client_info.json"),
+        Error,
+        "Could not decrypt hash_client_info.json",
+      );
+    });
+
+    it("reads and encrypts files written before encryption was enabled", async () => {
+      const files = new MemoryStorage();
+      files.files.set("/config/hash_code_verifier.txt", "verifier");
+      const storage = new EncryptedFileStorage("passphrase", files, iterations);
+
+      assertEquals(
+        await storage.read("/config/hash_code_verifier.txt"),
+        "verifier",
+      );
+      const stored = files.files.get("/config/hash_code_verifier.txt")!;
+      assertEquals(JSON.parse(stored).encrypted, "AES-GCM");
+      assertEquals(
+        await storage.read("/config/hash_code_verifier.txt"),
+        "verifier",
+      );
+    });
+
+    it("passes on missing files", async () => {
+      const storage = new EncryptedFileStorage(
+        "passphrase",
+        new MemoryStorage(),
+        iterations,
+      );
+
+      await assertRejects(
+        () => storage.read("/config/hash_tokens.json"),
+        Deno.errors.NotFound,
+      );
+    });
+  });
+
+  describe("createCredentialStorage", () => {
+    const variables = [
+      "MCP_REMOTE_STORAGE_PASSPHRASE",
+      "MCP_REMOTE_STORAGE_KEY_FILE",
+    ];
+    const originalEnv = Object.fromEntries(
+      variables.map((variable) => [variable, Deno.env.get(variable)]),
+    );
+
+    afterEach(() => {
+      for (const [variable, value] of Object.entries(originalEnv)) {
+        if (value === undefined) {
+          Deno.env.delete(variable);
+        } else {
+          Deno.env.set(variable, value);
+        }
+      }
+    });
+
+    it("stores plain text without a passphrase or key file", async () => {
+      variables.forEach((variable) => Deno.env.delete(variable));
+
+      assertInstanceOf(await createCredentialStorage(), PlaintextFileStorage);
+    });
+
+    it("encrypts with the passphrase", async () => {
+      Deno.env.delete("MCP_REMOTE_STORAGE_KEY_FILE");
+      Deno.env.set("MCP_REMOTE_STORAGE_PASSPHRASE", "passphrase");
+
+      assertInstanceOf(await createCredentialStorage(), EncryptedFileStorage);
+    });
+
+    it("rejects a passphrase combined with a key file", async () => {
+      Deno.env.set("MCP_REMOTE_STORAGE_PASSPHRASE", "passphrase");
+      Deno.env.set("MCP_REMOTE_STORAGE_KEY_FILE", "/path/to/key");
+
+      await assertRejects(
+        () => createCredentialStorage(),
+        Error,
+        "not both",
+      );
+    });
+
+    it("reports a key file that can't be read", async () => {
+      Deno.env.delete("MCP_REMOTE_STORAGE_PASSPHRASE");
+      Deno.env.set("MCP_REMOTE_STORAGE_KEY_FILE", "/nonexistent/mcp-key");
+
+      const error = await assertRejects(() => createCredentialStorage());
+      assertStringIncludes(
+        (error as Error).message,
+        "Could not read MCP_REMOTE_STORAGE_KEY_FILE /nonexistent/mcp-key",
+      );
+    });
+  });
+});
@@ -52,6 +52,29 @@ describe("DenoHttpServer", () => {
     assertEquals(reqQuery.param, "value");
   });
 
+  it("registers and handles routes for other HTTP methods", async () => {
+    let receivedBody = "";
+
+    server.route("POST", "/raw", async (req) => {
+      receivedBody = await req.text();
+      return new Response("Created", { status: 201 });
+    });
+
+    const response = await fetch(`http://localhost:${testPort}/raw`, {
+      method: "POST",
+      body: "payload",
+    });
+
+    assertEquals(response.status, 201);
+    assertEquals(await response.text(), "Created");
+    assertEquals(receivedBody, "payload");
+
+    // Other methods are not routed to the handler
+    const getResponse = await fetch(`http://localhost:${testPort}/raw`);
+    assertEquals(getResponse.status, 404);
+    await getResponse.body?.cancel();
+  });
+
   it("should handle 404 for non-existent routes", async () => {
     const server = new DenoHttpServer();
     const localTestPort = 9877;
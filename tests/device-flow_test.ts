@@ -0,0 +1,269 @@
+import { assertEquals, assertRejects } from "std/assert/mod.ts";
+import { afterEach, describe, it } from "std/testing/bdd.ts";
+import { stub } from "std/testing/mock.ts";
+import type {
+  OAuthMetadata,
+  OAuthTokens,
+} from "@modelcontextprotocol/sdk/shared/auth.js";
+import {
+  DEVICE_CODE_GRANT_TYPE,
+  DeviceAuthorizationProvider,
+  pollDeviceToken,
+  requestDeviceAuthorization,
+} from "../src/lib/device-flow.ts";
+
+const metadata = {
+  issuer: "https://auth.example.com",
+  authorization_endpoint: "https://auth.example.com/authorize",
+  token_endpoint: "https://auth.example.com/token",
+  device_authorization_endpoint: "https://auth.example.com/device",
+  response_types_supported: ["code"],
+} as OAuthMetadata;
+
+const deviceAuthorization = {
+  device_code: "test-device-code",
+  user_code: "ABCD-EFGH",
+  verification_uri: "https://auth.example.com/activate",
+  expires_in: 600,
+  interval: 1,
+};
+
+describe("device-flow", () => {
+  let fetchStub: ReturnType<typeof stub>;
+
+  afterEach(() => {
+    fetchStub?.restore();
+  });
+
+  describe("requestDeviceAuthorization", () => {
+    it("requests a user code from the device authorization endpoint", async () => {
+      let request: { url: string; body: string } | undefined;
+      // @ts-ignore - Required for testing
+      fetchStub = stub(
+        globalThis,
+        "fetch",
+        (url: string | URL | Request, init?: RequestInit) => {
+          request = { url: url.toString(), body: init?.body?.toString() ?? "" };
+          return Promise.resolve(Response.json(deviceAuthorization));
+        },
+      );
+
+      const response = await requestDeviceAuthorization(
+        "https://mcp.example.com",
+        { metadata, clientInformation: { client_id: "test-client" } },
+      );
+
+      assertEquals(response.user_code, "ABCD-EFGH");
+      assertEquals(response.interval, 1);
+      assertEquals(request?.url, "https://auth.example.com/device");
+      assertEquals(
+        new URLSearchParams(request?.body).get("client_id"),
+        "test-client",
+      );
+    });
+
+    it("rejects incomplete responses", async () => {
+      // @ts-ignore - Required for testing
+      fetchStub = stub(
+        globalThis,
+        "fetch",
+        () => Promise.resolve(Response.json({ device_code: "code" })),
+      );
+
+      await assertRejects(
+        () =>
+          requestDeviceAuthorization("https://mcp.example.com", {
+            metadata,
+            clientInformation: { client_id: "test-client" },
+          }),
+        Error,
+        "Invalid device authorization response",
+      );
+    });
+
+    it("fails when the server doesn't advertise a device authorization endpoint", async () => {
+      const { device_authorization_endpoint: _, ...withoutEndpoint } = metadata;
+
+      await assertRejects(
+        () =>
+          requestDeviceAuthorization("https://mcp.example.com", {
+            metadata: withoutEndpoint as OAuthMetadata,
+            clientInformation: { client_id: "test-client" },
+          }),
+        Error,
+        "doesn't support the device authorization grant",
+      );
+    });
+  });
+
+  describe("pollDeviceToken", () => {
+    const stubTokenResponses = (responses: Response[]) => {
+      const bodies: string[] = [];
+      // @ts-ignore - Required for testing
+      fetchStub = stub(
+        globalThis,
+        "fetch",
+        (_url: string | URL | Request, init?: RequestInit) => {
+          bodies.push(init?.body?.toString() ?? "");
+          return Promise.resolve(responses.shift()!);
+        },
+      );
+      return bodies;
+    };
+
+    const pending = (error: string) =>
+      Response.json({ error }, { status: 400 });
+
+    it("polls until the user approved the request", async () => {
+      const delays: number[] = [];
+      const bodies = stubTokenResponses([
+        pending("authorization_pending"),
+        pending("slow_down"),
+        Response.json({ access_token: "access", token_type: "Bearer" }),
+      ]);
+
+      const tokens = await pollDeviceToken(
+        "https://mcp.example.com",
+        {
+          metadata,
+          clientInformation: { client_id: "test-client" },
+          deviceAuthorization,
+        },
+        (ms) => {
+          delays.push(ms);
+          return Promise.resolve();
+        },
+      );
+
+      assertEquals(tokens.access_token, "access");
+      // slow_down increases the interval by 5 seconds
+      assertEquals(delays, [1000, 1000, 6000]);
+      const params = new URLSearchParams(bodies[0]);
+      assertEquals(params.get("grant_type"), DEVICE_CODE_GRANT_TYPE);
+      assertEquals(params.get("device_code"), "test-device-code");
+    });
+
+    it("fails when the user denied the request", async () => {
+      stubTokenResponses([pending("access_denied")]);
+
+      await assertRejects(
+        () =>
+          pollDeviceToken("https://mcp.example.com", {
+            metadata,
+            clientInformation: { client_id: "test-client" },
+            deviceAuthorization,
+          }, () => Promise.resolve()),
+        Error,
+        "denied by the user",
+      );
+    });
+
+    it("reports other errors of the token endpoint", async () => {
+      stubTokenResponses([
+        Response.json({
+          error: "invalid_client",
+          error_description: "Unknown client",
+        }, { status: 401 }),
+      ]);
+
+      await assertRejects(
+        () =>
+          pollDeviceToken("https://mcp.example.com", {
+            metadata,
+            clientInformation: { client_id: "test-client" },
+            deviceAuthorization,
+          }, () => Promise.resolve()),
+        Error,
+        "Device token request failed: Unknown client",
+      );
+    });
+
+    it("fails when the device code expired", async () => {
+      stubTokenResponses([pending("expired_token")]);
+
+      await assertRejects(
+        () =>
+          pollDeviceToken("https://mcp.example.com", {
+            metadata,
+            clientInformation: { client_id: "test-client" },
+            deviceAuthorization,
+          }, () => Promise.resolve()),
+        Error,
+        "Device code expired",
+      );
+    });
+  });
+
+  describe("DeviceAuthorizationProvider", () => {
+    const createProvider = (
+      pollDeviceToken: () => Promise<OAuthTokens>,
+    ) => {
+      const files = new Map<string, unknown>([
+        ["client_info.json", { client_id: "test-client" }],
+      ]);
+      const logs: string[] = [];
+      const provider = new DeviceAuthorizationProvider({
+        serverUrl: "https://mcp.example.com",
+        callbackPort: 3334,
+      }, {
+        getServerUrlHash: () => "test-hash",
+        readJsonFile: <T>(_hash: string, filename: string) =>
+          Promise.resolve(files.get(filename) as T | undefined),
+        writeJsonFile: (_hash, filename, data) => {
+          files.set(filename, data);
+          return Promise.resolve();
+        },
+        log: (...args: unknown[]) => {
+          logs.push(args.join(" "));
+        },
+        discoverOAuthMetadata: () => Promise.resolve(metadata),
+        requestDeviceAuthorization: () => Promise.resolve(deviceAuthorization),
+        pollDeviceToken,
+      });
+      return { provider, files, logs };
+    };
+
+    it("registers for the device code grant", () => {
+      const { provider } = createProvider(() => new Promise(() => {}));
+
+      assertEquals(
+        provider.clientMetadata.grant_types.includes(DEVICE_CODE_GRANT_TYPE),
+        true,
+      );
+    });
+
+    it("shows the user code and stores the tokens once approved", async () => {
+      const { provider, files, logs } = createProvider(() =>
+        Promise.resolve({ access_token: "access", token_type: "Bearer" })
+      );
+
+      await provider.redirectToAuthorization();
+      assertEquals(await provider.waitForAuthorization(), null);
+
+      assertEquals(
+        logs.some((line) =>
+          line.includes("https://auth.example.com/activate") &&
+          line.includes("ABCD-EFGH")
+        ),
+        true,
+      );
+      assertEquals(
+        (files.get("tokens.json") as OAuthTokens).access_token,
+        "access",
+      );
+    });
+
+    it("reports a failed authorization when waiting", async () => {
+      const { provider } = createProvider(() =>
+        Promise.reject(new Error("Device authorization was denied by the user"))
+      );
+
+      await provider.redirectToAuthorization();
+      await assertRejects(
+        () => provider.waitForAuthorization(),
+        Error,
+        "denied by the user",
+      );
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { assertEquals, assertMatch } from "std/assert/mod.ts";
+import { describe, it } from "std/testing/bdd.ts";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import {
+  SSEServerSessionTransport,
+  StreamableHTTPServerSessionTransport,
+  validateRequestOrigin,
+} from "../src/lib/http-server-transports.ts";
+
+const postRequest = (body: unknown, headers: Record<string, string> = {}) =>
+  new Request("http://localhost/mcp", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  });
+
+describe("SSEServerSessionTransport", () => {
+  it("announces the message endpoint and streams messages", async () => {
+    const transport = new SSEServerSessionTransport("/messages");
+    const response = transport.createResponse();
+    assertEquals(response.headers.get("content-type"), "text/event-stream");
+
+    await transport.send({ jsonrpc: "2.0", id: 1, result: {} });
+    await transport.close();
+
+    const text = await response.text();
+    assertMatch(
+      text,
+      new RegExp(
+        `^event: endpoint\\ndata: /messages\\?sessionId=${transport.sessionId}\\n\\n`,
+      ),
+    );
+    assertMatch(
+      text,
+      /event: message\ndata: {"jsonrpc":"2.0","id":1,"result":{}}/,
+    );
+  });
+
+  it("delivers POSTed messages to onmessage", async () => {
+    const transport = new SSEServerSessionTransport("/messages");
+    const received: JSONRPCMessage[] = [];
+    transport.onmessage = (message) => received.push(message);
+
+    const response = await transport.handlePostMessage(
+      postRequest({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    );
+
+    assertEquals(response.status, 202);
+    assertEquals(received, [{ jsonrpc: "2.0", id: 1, method: "tools/list" }]);
+  });
+
+  it("rejects invalid messages", async () => {
+    const transport = new SSEServerSessionTransport("/messages");
+    transport.onerror = () => {};
+
+    const response = await transport.handlePostMessage(
+      postRequest({ not: "json-rpc" }),
+    );
+
+    assertEquals(response.status, 400);
+    await response.body?.cancel();
+  });
+});
+
+describe("StreamableHTTPServerSessionTransport", () => {
+  it("answers POSTed requests with the matching responses", async () => {
+    const transport = new StreamableHTTPServerSessionTransport();
+    transport.onmessage = (message) => {
+      if ("id" in message && "method" in message) {
+        transport.send({ jsonrpc: "2.0", id: message.id, result: {} });
+      }
+    };
+
+    const response = await transport.handleRequest(
+      postRequest({ jsonrpc: "2.0", id: 7, method: "tools/list" }),
+    );
+
+    assertEquals(response.status, 200);
+    assertEquals(response.headers.get("mcp-session-id"), transport.sessionId);
+    assertEquals(await response.json(), { jsonrpc: "2.0", id: 7, result: {} });
+  });
+
+  it("accepts notifications without a response body", async () => {
+    const transport = new StreamableHTTPServerSessionTransport();
+    const received: JSONRPCMessage[] = [];
+    transport.onmessage = (message) => received.push(message);
+
+    const response = await transport.handleRequest(
+      postRequest({ jsonrpc: "2.0", method: "notifications/initialized" }),
+    );
+
+    assertEquals(response.status, 202);
+    assertEquals(received.length, 1);
+  });
+
+  it("ends the session on DELETE", async () => {
+    const transport = new StreamableHTTPServerSessionTransport();
+    let closed = false;
+    transport.onclose = () => {
+      closed = true;
+    };
+
+    const response = await transport.handleRequest(
+      new Request("http://localhost/mcp", { method: "DELETE" }),
+    );
+    assertEquals(response.status, 200);
+    assertEquals(closed, true);
+
+    const afterClose = await transport.handleRequest(
+      postRequest({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    );
+    assertEquals(afterClose.status, 404);
+    await afterClose.body?.cancel();
+  });
+});
+
+describe("validateRequestOrigin", () => {
+  const policy = {
+    allowedOrigins: ["https://app.example.com"],
+    loopbackHostOnly: true,
+  };
+  const request = (headers: Record<string, string>) =>
+    new Request("http://localhost:8080/mcp", { method: "POST", headers });
+
+  it("accepts requests without an origin and from loopback origins", () => {
+    assertEquals(validateRequestOrigin(request({}), policy), undefined);
+    assertEquals(
+      validateRequestOrigin(
+        request({ origin: "http://127.0.0.1:3000", host: "localhost:8080" }),
+        policy,
+      ),
+      undefined,
+    );
+  });
+
+  it("accepts allowed origins", () => {
+    assertEquals(
+      validateRequestOrigin(
+        request({ origin: "https://app.example.com" }),
+        policy,
+      ),
+      undefined,
+    );
+  });
+
+  it("rejects foreign origins", () => {
+    for (
+      const origin of [
+        "https://evil.example.com",
+        "http://localhost.evil.com",
+        "null",
+      ]
+    ) {
+      assertEquals(
+        validateRequestOrigin(request({ origin }), policy)?.status,
+        403,
+      );
+    }
+  });
+
+  it("rejects foreign host names on loopback servers", () => {
+    const rebound = request({ host: "evil.example.com:8080" });
+    assertEquals(validateRequestOrigin(rebound, policy)?.status, 403);
+    assertEquals(
+      validateRequestOrigin(rebound, { ...policy, loopbackHostOnly: false }),
+      undefined,
+    );
+  });
+});
@@ -1,7 +1,16 @@
 import { assertEquals, assertExists } from "std/assert/mod.ts";
 import { beforeEach, describe, it } from "std/testing/bdd.ts";
 import { mcpProxy } from "../src/lib/utils.ts";
+import { RecordingTransport } from "../src/lib/recording-transport.ts";
+import { ReplayTransport } from "../src/lib/replay-transport.ts";
 import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
 
 // Mock Transport implementation for testing
 class MockTransport implements Transport {
@@ -133,4 +142,57 @@ describe("MCP Proxy Integration", () => {
     // Check that client transport was closed
     assertEquals(clientTransport.closed, true);
   });
+
+  it("replays a recorded session without the remote server", async () => {
+    // Record a session with a remote server
+    const server = new Server(
+      { name: "remote", version: "1.0.0" },
+      { capabilities: { tools: {} } },
+    );
+    server.setRequestHandler(ListToolsRequestSchema, () => ({
+      tools: [{ name: "echo", inputSchema: { type: "object" } }],
+    }));
+    server.setRequestHandler(CallToolRequestSchema, (request) => ({
+      content: [{ type: "text", text: String(request.params.arguments?.text) }],
+    }));
+
+    let recording = "";
+    const session = async (remote: Transport) => {
+      const [localClient, localServer] = InMemoryTransport.createLinkedPair();
+      mcpProxy({ transportToClient: localServer, transportToServer: remote });
+      const client = new Client(
+        { name: "test-client", version: "1.0.0" },
+        { capabilities: {} },
+      );
+      await client.connect(localClient);
+      const tools = await client.listTools();
+      const result = await client.callTool({
+        name: "echo",
+        arguments: { text: "hello" },
+      });
+      await client.close();
+      return { tools: tools.tools, content: result.content };
+    };
+
+    const [remoteClient, remoteServer] = InMemoryTransport.createLinkedPair();
+    await server.connect(remoteServer);
+    const recorded = await session(
+      new RecordingTransport(remoteClient, "traffic.jsonl", {
+        writeTextFile: (_path, data) => {
+          recording += data;
+          return Promise.resolve();
+        },
+      }),
+    );
+
+    // Play it back to a new client
+    const replayed = await session(
+      await ReplayTransport.fromFile("traffic.jsonl", {
+        readTextFile: () => Promise.resolve(recording),
+      }),
+    );
+
+    assertEquals(recorded.content, [{ type: "text", text: "hello" }]);
+    assertEquals(replayed, recorded);
+  });
 });
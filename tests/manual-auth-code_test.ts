@@ -0,0 +1,244 @@
+import {
+  assertEquals,
+  assertInstanceOf,
+  assertStringIncludes,
+} from "std/assert/mod.ts";
+import { beforeEach, describe, it } from "std/testing/bdd.ts";
+import { EventEmitter } from "node:events";
+import {
+  type ManualAuthCodeDeps,
+  parseAuthorizationResponse,
+  readManualAuthCode,
+  withManualAuthCode,
+} from "../src/lib/manual-auth-code.ts";
+
+// Resolves with the first auth-code-received or auth-error event
+function nextResult(events: EventEmitter): Promise<string | Error> {
+  return new Promise((resolve) => {
+    events.once("auth-code-received", resolve);
+    events.once("auth-error", resolve);
+  });
+}
+
+describe("manual-auth-code", () => {
+  describe("parseAuthorizationResponse", () => {
+    it("reads the code and state from a redirect URL", () => {
+      assertEquals(
+        parseAuthorizationResponse(
+          "http://127.0.0.1:3334/oauth/callback?code=abc&state=xyz\n",
+        ),
+        {
+          code: "abc",
+          state: "xyz",
+          error: undefined,
+          errorDescription: undefined,
+        },
+      );
+    });
+
+    it("reads a query string", () => {
+      assertEquals(
+        parseAuthorizationResponse("?code=abc&state=xyz").code,
+        "abc",
+      );
+    });
+
+    it("reads an error response", () => {
+      const response = parseAuthorizationResponse(
+        "code=&error=access_denied&error_description=User+denied",
+      );
+      assertEquals(response.error, "access_denied");
+      assertEquals(response.errorDescription, "User denied");
+    });
+
+    it("takes anything else as a bare code", () => {
+      assertEquals(parseAuthorizationResponse("  abc123  "), {
+        code: "abc123",
+      });
+      assertEquals(parseAuthorizationResponse("   "), {});
+    });
+  });
+
+  describe("readManualAuthCode", () => {
+    let events: EventEmitter;
+    let logs: string[];
+    let deps: Partial<ManualAuthCodeDeps>;
+
+    beforeEach(() => {
+      events = new EventEmitter();
+      logs = [];
+      deps = {
+        log: (...args: unknown[]) => {
+          logs.push(args.join(" "));
+        },
+        sleep: () => Promise.resolve(),
+      };
+    });
+
+    // Answers the prompts with the given lines, then with the end of input
+    const promptWith = (lines: string[]) => () =>
+      Promise.resolve(lines.shift() ?? null);
+
+    it("emits the code pasted on the terminal", async () => {
+      deps.promptTty = promptWith(["abc123"]);
+      const result = nextResult(events);
+
+      readManualAuthCode(
+        { type: "tty" },
+        events,
+        () => Promise.resolve("xyz"),
+        deps,
+      );
+
+      assertEquals(await result, "abc123");
+    });
+
+    it("asks again for a URL of a different authorization request", async () => {
+      deps.promptTty = promptWith([
+        "http://127.0.0.1:3334/oauth/callback?code=old&state=stale",
+        "http://127.0.0.1:3334/oauth/callback?code=new&state=xyz",
+      ]);
+      const result = nextResult(events);
+
+      readManualAuthCode(
+        { type: "tty" },
+        events,
+        () => Promise.resolve("xyz"),
+        deps,
+      );
+
+      assertEquals(await result, "new");
+      assertEquals(
+        logs.includes(
+          "The URL belongs to a different authorization request, please try again",
+        ),
+        true,
+      );
+    });
+
+    it("reports an authorization error", async () => {
+      deps.promptTty = promptWith(["?error=access_denied"]);
+      const result = nextResult(events);
+
+      readManualAuthCode(
+        { type: "tty" },
+        events,
+        () => Promise.resolve("xyz"),
+        deps,
+      );
+
+      const error = await result;
+      assertInstanceOf(error, Error);
+      assertStringIncludes((error as Error).message, "access_denied");
+    });
+
+    it("polls the file until it has content and removes it", async () => {
+      const reads = [
+        () => Promise.reject(new Deno.errors.NotFound("missing")),
+        () => Promise.resolve(""),
+        () => Promise.resolve("code=abc&state=xyz"),
+      ];
+      const removed: string[] = [];
+      deps.readTextFile = () => reads.shift()!();
+      deps.remove = (path: string) => {
+        removed.push(path);
+        return Promise.resolve();
+      };
+      const result = nextResult(events);
+
+      readManualAuthCode(
+        { type: "file", path: "/tmp/mcp-auth-code" },
+        events,
+        () => Promise.resolve("xyz"),
+        deps,
+      );
+
+      assertEquals(await result, "abc");
+      assertEquals(removed, ["/tmp/mcp-auth-code"]);
+      assertEquals(reads.length, 0);
+    });
+
+    it("only accepts a URL with the state from the file", async () => {
+      const reads = [
+        () => Promise.resolve("abc"),
+        () => Promise.resolve("?error=access_denied"),
+        () => Promise.resolve("code=def&state=xyz"),
+      ];
+      deps.readTextFile = () => reads.shift()!();
+      deps.remove = () => Promise.resolve();
+      const result = nextResult(events);
+
+      readManualAuthCode(
+        { type: "file", path: "/tmp/mcp-auth-code" },
+        events,
+        () => Promise.resolve("xyz"),
+        deps,
+      );
+
+      assertEquals(await result, "def");
+      assertEquals(
+        logs.filter((line) => line.includes("including its state")).length,
+        2,
+      );
+    });
+
+    it("stops polling once the callback server received the code", async () => {
+      let reads = 0;
+      let resumePolling!: () => void;
+      const polled = new Promise<void>((resolve) => {
+        deps.sleep = () => {
+          resolve();
+          return new Promise((resume) => resumePolling = resume);
+        };
+      });
+      deps.readTextFile = () => {
+        reads++;
+        return Promise.reject(new Deno.errors.NotFound("missing"));
+      };
+
+      readManualAuthCode(
+        { type: "file", path: "/tmp/mcp-auth-code" },
+        events,
+        () => Promise.resolve("xyz"),
+        deps,
+      );
+      await polled;
+      events.emit("auth-code-received", "from-callback");
+      resumePolling();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      assertEquals(reads, 1);
+    });
+  });
+
+  describe("withManualAuthCode", () => {
+    it("reads the input while waiting for the code, once per attempt", async () => {
+      const events = new EventEmitter();
+      const signals: AbortSignal[] = [];
+      const deps: Partial<ManualAuthCodeDeps> = {
+        log: () => {},
+        promptTty: (_prompt, signal) => {
+          signals.push(signal);
+          return new Promise((resolve) =>
+            signal.addEventListener("abort", () => resolve(null))
+          );
+        },
+      };
+      let codes = 0;
+      const waitForAnyAuthCode = withManualAuthCode(
+        { type: "tty" },
+        events,
+        () => Promise.resolve("xyz"),
+        // The code was already received, so no event is emitted
+        () => Promise.resolve(`code-${++codes}`),
+        deps,
+      );
+
+      assertEquals(await waitForAnyAuthCode(), "code-1");
+      assertEquals(await waitForAnyAuthCode(), "code-2");
+
+      assertEquals(signals.length, 2);
+      assertEquals(signals.every((signal) => signal.aborted), true);
+    });
+  });
+});
@@ -14,9 +14,11 @@ import {
   getConfigFilePath,
   readJsonFile,
   readTextFile,
+  setCredentialStorage,
   writeJsonFile,
   writeTextFile,
 } from "../src/lib/mcp-auth-config.ts";
+import { PlaintextFileStorage } from "../src/lib/credential-storage.ts";
 import { MCP_REMOTE_VERSION } from "../src/lib/utils.ts";
 import * as path from "node:path";
 import * as os from "node:os";
@@ -249,6 +251,36 @@ describe("mcp-auth-config", () => {
       assertEquals(result, testText);
     });
 
+    it("stores credentials through the configured storage", async () => {
+      const written: [string, string][] = [];
+      setCredentialStorage({
+        read: () => Promise.resolve("stored text"),
+        write: (filePath, content) => {
+          written.push([filePath, content]);
+          return Promise.resolve();
+        },
+      });
+
+      try {
+        await writeTextFile(testHash, testFilename, "test text content");
+        assertEquals(await readTextFile(testHash, testFilename), "stored text");
+        // Lockfiles never go through the storage
+        await createLockfile(testHash, 1234, 5678);
+      } finally {
+        setCredentialStorage(new PlaintextFileStorage());
+      }
+
+      assertEquals(written, [[
+        getConfigFilePath(testHash, testFilename),
+        "test text content",
+      ]]);
+      assertSpyCalls(writeTextFileSpy, 1);
+      assertEquals(
+        writeTextFileSpy.calls[0].args[0],
+        getConfigFilePath(testHash, "lock.json"),
+      );
+    });
+
     it("handles errors when reading text files", async () => {
       // Assign a new spy directly that throws an error
       Deno.readTextFile = spy((_path: string | URL) => {
@@ -0,0 +1,199 @@
+import { assertEquals } from "std/assert/mod.ts";
+import { describe, it } from "std/testing/bdd.ts";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { createNameRewrite } from "../src/lib/name-rewrite.ts";
+import { createToolFilter } from "../src/lib/tool-filter.ts";
+import type { NameRewrite } from "../src/lib/types.ts";
+import { mcpProxy, type ProxyTransform } from "../src/lib/utils.ts";
+
+// Mock transport recording the messages sent through it
+class MockTransport implements Transport {
+  public onmessage: ((message: JSONRPCMessage) => void) | undefined;
+  public onclose: (() => void) | undefined;
+  public onerror: ((error: Error) => void) | undefined;
+  public messages: JSONRPCMessage[] = [];
+
+  start(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  send(message: JSONRPCMessage): Promise<void> {
+    this.messages.push(message);
+    return Promise.resolve();
+  }
+
+  close(): Promise<void> {
+    return Promise.resolve();
+  }
+}
+
+// Sends a request through the proxy, answers it with the result and returns what each side got
+function roundTrip(
+  transforms: ProxyTransform[],
+  method: string,
+  params: Record<string, unknown>,
+  result: Record<string, unknown>,
+) {
+  const client = new MockTransport();
+  const server = new MockTransport();
+  mcpProxy({
+    transportToClient: client,
+    transportToServer: server,
+    transforms,
+  });
+
+  client.onmessage?.({ jsonrpc: "2.0", id: 1, method, params });
+  if (server.messages.length > 0) {
+    server.onmessage?.({ jsonrpc: "2.0", id: 1, result });
+  }
+  return { sent: server.messages[0], received: client.messages[0] };
+}
+
+describe("name-rewrite", () => {
+  const rewrite: NameRewrite = {
+    namespace: "linear",
+    rename: { search: "find_issues" },
+  };
+
+  it("prefixes tool names and descriptions", () => {
+    const { received } = roundTrip(
+      [createNameRewrite(rewrite)],
+      "tools/list",
+      {},
+      {
+        tools: [
+          { name: "create_issue", description: "Creates an issue" },
+          { name: "search" },
+        ],
+      },
+    );
+
+    assertEquals(received, {
+      jsonrpc: "2.0",
+      id: 1,
+      result: {
+        tools: [
+          {
+            name: "linear_create_issue",
+            description: "[linear] Creates an issue",
+          },
+          { name: "find_issues", description: "[linear]" },
+        ],
+      },
+    });
+  });
+
+  it("translates tool and prompt names back", () => {
+    const transforms = [createNameRewrite(rewrite)];
+
+    assertEquals(
+      roundTrip(transforms, "tools/call", { name: "find_issues" }, {}).sent,
+      {
+        jsonrpc: "2.0",
+        id: 1,
+        method: "tools/call",
+        params: { name: "search" },
+      },
+    );
+    assertEquals(
+      roundTrip(transforms, "prompts/get", { name: "linear_triage" }, {}).sent,
+      {
+        jsonrpc: "2.0",
+        id: 1,
+        method: "prompts/get",
+        params: { name: "triage" },
+      },
+    );
+  });
+
+  it("prefixes resource URIs and translates them back", () => {
+    const { sent, received } = roundTrip(
+      [createNameRewrite(rewrite)],
+      "resources/read",
+      { uri: "linear+https://linear.app/issue/1" },
+      { contents: [{ uri: "https://linear.app/issue/1", text: "Issue" }] },
+    );
+
+    assertEquals(sent, {
+      jsonrpc: "2.0",
+      id: 1,
+      method: "resources/read",
+      params: { uri: "https://linear.app/issue/1" },
+    });
+    assertEquals(received, {
+      jsonrpc: "2.0",
+      id: 1,
+      result: {
+        contents: [{ uri: "linear+https://linear.app/issue/1", text: "Issue" }],
+      },
+    });
+  });
+
+  it("prefixes the URIs of resource updates", () => {
+    const client = new MockTransport();
+    const server = new MockTransport();
+    mcpProxy({
+      transportToClient: client,
+      transportToServer: server,
+      transforms: [createNameRewrite(rewrite)],
+    });
+
+    server.onmessage?.({
+      jsonrpc: "2.0",
+      method: "notifications/resources/updated",
+      params: { uri: "https://linear.app/issue/1" },
+    });
+
+    assertEquals(client.messages, [{
+      jsonrpc: "2.0",
+      method: "notifications/resources/updated",
+      params: { uri: "linear+https://linear.app/issue/1" },
+    }]);
+  });
+
+  it("leaves names alone without a namespace or new name", () => {
+    const { received } = roundTrip(
+      [createNameRewrite({ rename: { search: "find_issues" } })],
+      "prompts/list",
+      {},
+      { prompts: [{ name: "triage", description: "Triages issues" }] },
+    );
+
+    assertEquals(received, {
+      jsonrpc: "2.0",
+      id: 1,
+      result: {
+        prompts: [{ name: "triage", description: "Triages issues" }],
+      },
+    });
+  });
+
+  it("lets the tool filter match the names on the remote server", () => {
+    const transforms = [
+      createNameRewrite(rewrite),
+      createToolFilter({ allow: [], deny: ["delete_*"] }),
+    ];
+
+    const { received } = roundTrip(transforms, "tools/list", {}, {
+      tools: [{ name: "create_issue" }, { name: "delete_issue" }],
+    });
+    assertEquals(received, {
+      jsonrpc: "2.0",
+      id: 1,
+      result: {
+        tools: [{ name: "linear_create_issue", description: "[linear]" }],
+      },
+    });
+
+    const call = roundTrip(transforms, "tools/call", {
+      name: "linear_delete_issue",
+    }, {});
+    assertEquals(call.sent, undefined);
+    assertEquals(call.received, {
+      jsonrpc: "2.0",
+      id: 1,
+      error: { code: -32602, message: "Tool delete_issue is not allowed" },
+    });
+  });
+});
@@ -2,10 +2,16 @@ import {
   assert,
   assertEquals,
   assertMatch,
+  assertNotEquals,
   assertRejects,
 } from "std/assert/mod.ts";
 import { afterEach, beforeEach, describe, it } from "std/testing/bdd.ts";
-import { assertSpyCallArg, assertSpyCalls, spy } from "std/testing/mock.ts";
+import {
+  assertSpyCallArg,
+  assertSpyCallArgs,
+  assertSpyCalls,
+  spy,
+} from "std/testing/mock.ts";
 import type { Spy } from "std/testing/mock.ts";
 import { NodeOAuthClientProvider } from "../src/lib/node-oauth-client-provider.ts";
 import {
@@ -19,8 +25,43 @@ import type {
 import type * as McpAuthTypes from "../src/lib/mcp-auth-config.ts";
 import type * as UtilsTypes from "../src/lib/utils.ts";
 import type * as OpenModuleTypes from "../src/lib/deno-open.ts";
+import type * as OAuthRequestsTypes from "../src/lib/oauth-requests.ts";
 import type { NodeOAuthClientProviderDeps } from "../src/lib/node-oauth-client-provider.ts"; // Import deps interface
 
+// File system watcher whose events are pushed by the test
+class MockFsWatcher implements AsyncIterable<Deno.FsEvent> {
+  private events: Deno.FsEvent[] = [];
+  private wake: (() => void) | undefined;
+  public closed = false;
+
+  readonly rid = 0;
+
+  push(event: Deno.FsEvent): void {
+    this.events.push(event);
+    this.wake?.();
+  }
+
+  close(): void {
+    this.closed = true;
+    this.wake?.();
+  }
+
+  [Symbol.dispose](): void {
+    this.close();
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterableIterator<Deno.FsEvent> {
+    while (!this.closed) {
+      const event = this.events.shift();
+      if (event) {
+        yield event;
+      } else {
+        await new Promise<void>((resolve) => this.wake = resolve);
+      }
+    }
+  }
+}
+
 // Define types for mock functions for better type safety
 // deno-lint-ignore no-explicit-any
 type MockFn<T extends (...args: any[]) => any> = Spy<T>;
@@ -47,6 +88,10 @@ describe("NodeOAuthClientProvider", () => {
   let mockWriteTextFile: MockFn<typeof McpAuthTypes.writeTextFile>;
   let mockLog: MockFn<typeof UtilsTypes.log>;
   let mockOpen: MockFn<typeof OpenModuleTypes.default>;
+  let mockExchangeAuthorization: MockFn<
+    typeof OAuthRequestsTypes.exchangeAuthorization
+  >;
+  let mockWatcher: MockFsWatcher;
   let mockDeps: NodeOAuthClientProviderDeps; // Use the imported interface
 
   beforeEach(() => {
@@ -61,6 +106,10 @@ describe("NodeOAuthClientProvider", () => {
     mockWriteTextFile = spy(() => Promise.resolve());
     mockLog = spy();
     mockOpen = spy(() => Promise.resolve());
+    mockExchangeAuthorization = spy(() =>
+      Promise.resolve({ access_token: "exchanged-token", token_type: "Bearer" })
+    );
+    mockWatcher = new MockFsWatcher();
 
     // Group mocks into the deps object for injection
     mockDeps = {
@@ -69,6 +118,12 @@ describe("NodeOAuthClientProvider", () => {
       writeJsonFile: mockWriteJsonFile,
       readTextFile: mockReadTextFile,
       writeTextFile: mockWriteTextFile,
+      getConfigFilePath: (serverUrlHash, filename) =>
+        `/config/${serverUrlHash}_${filename}`,
+      ensureConfigDir: () => Promise.resolve(),
+      watchFs: () => mockWatcher as unknown as Deno.FsWatcher,
+      discoverOAuthMetadata: () => Promise.resolve(undefined),
+      exchangeAuthorization: mockExchangeAuthorization,
       log: mockLog,
       open: mockOpen,
       mcpRemoteVersion: "test-version", // Provide a test version
@@ -129,6 +184,17 @@ describe("NodeOAuthClientProvider", () => {
       assertSpyCalls(mockGetServerUrlHash, 1); // Called in constructor
     });
 
+    it("uses the redirect host in the redirectUrl", () => {
+      const provider = new NodeOAuthClientProvider(
+        { ...testOptions, redirectHost: "::1" },
+        mockDeps,
+      );
+      assertEquals(
+        provider.redirectUrl,
+        `http://[::1]:${testCallbackPort}${testOptions.callbackPath}`,
+      );
+    });
+
     it("returns correct clientMetadata", () => {
       const provider = new NodeOAuthClientProvider(testOptions, mockDeps);
 
@@ -196,6 +262,46 @@ describe("NodeOAuthClientProvider", () => {
       // Check constructor call too
       assertSpyCalls(mockGetServerUrlHash, 1);
     });
+    it("returns a pre-registered static client without reading from disk", async () => {
+      const provider = new NodeOAuthClientProvider({
+        ...testOptions,
+        staticClientInfo: {
+          client_id: "static-client-id",
+          client_secret: "static-secret",
+          token_endpoint_auth_method: "client_secret_post",
+          redirect_uri: "https://app.example.com/oauth/callback",
+        },
+      }, mockDeps);
+
+      assertEquals(await provider.clientInformation(), {
+        client_id: "static-client-id",
+        client_secret: "static-secret",
+      });
+      assertEquals(
+        provider.redirectUrl,
+        "https://app.example.com/oauth/callback",
+      );
+      assertEquals(
+        provider.clientMetadata.token_endpoint_auth_method,
+        "client_secret_post",
+      );
+      assertSpyCalls(mockReadJsonFile, 0);
+    });
+
+    it("doesn't send the secret of a static public client", async () => {
+      const provider = new NodeOAuthClientProvider({
+        ...testOptions,
+        staticClientInfo: {
+          client_id: "static-client-id",
+          client_secret: "unused-secret",
+          token_endpoint_auth_method: "none",
+        },
+      }, mockDeps);
+
+      assertEquals(await provider.clientInformation(), {
+        client_id: "static-client-id",
+      });
+    });
   });
 
   describe("saveClientInformation", () => {
@@ -281,14 +387,70 @@ describe("NodeOAuthClientProvider", () => {
       const provider = new NodeOAuthClientProvider(testOptions, mockDeps);
       await provider.saveTokens(mockTokens);
 
-      assertSpyCalls(mockWriteJsonFile, 1);
+      assertSpyCalls(mockWriteJsonFile, 2);
       assertSpyCallArg(mockWriteJsonFile, 0, 0, testServerUrlHash);
       assertSpyCallArg(mockWriteJsonFile, 0, 1, "tokens.json");
-      assertSpyCallArg(mockWriteJsonFile, 0, 2, mockTokens);
+      const savedTokens = mockWriteJsonFile.calls[0].args[2] as Record<
+        string,
+        unknown
+      >;
+      const { issued_at, ...rest } = savedTokens;
+      assertEquals(rest, mockTokens);
+      assertEquals(typeof issued_at, "number");
 
       // Check constructor call too
       assertSpyCalls(mockGetServerUrlHash, 1);
     });
+
+    it("stores the server URL along with the first tokens", async () => {
+      const mockTokens: OAuthTokens = {
+        access_token: "test-access-token",
+        token_type: "Bearer",
+      };
+
+      const provider = new NodeOAuthClientProvider(testOptions, mockDeps);
+      await provider.saveTokens(mockTokens);
+      await provider.saveTokens(mockTokens);
+
+      // tokens.json, server.json, tokens.json
+      assertSpyCalls(mockWriteJsonFile, 3);
+      assertSpyCallArg(mockWriteJsonFile, 1, 1, "server.json");
+      assertSpyCallArg(mockWriteJsonFile, 1, 2, {
+        serverUrl: testOptions.serverUrl,
+      });
+    });
+  });
+
+  describe("tokensExpireAt", () => {
+    it("returns the expiry time based on the stored issue time", async () => {
+      const storedTokens = {
+        access_token: "test-access-token",
+        token_type: "Bearer",
+        expires_in: 3600,
+        issued_at: 1_000_000,
+      };
+      mockDeps.readJsonFile = spy(() =>
+        Promise.resolve(storedTokens)
+      ) as unknown as MockFn<typeof McpAuthTypes.readJsonFile>;
+
+      const provider = new NodeOAuthClientProvider(testOptions, mockDeps);
+
+      assertEquals(await provider.tokensExpireAt(), 1_000_000 + 3600 * 1000);
+    });
+
+    it("returns undefined for tokens saved without an issue time", async () => {
+      mockDeps.readJsonFile = spy(() =>
+        Promise.resolve({
+          access_token: "test-access-token",
+          token_type: "Bearer",
+          expires_in: 3600,
+        })
+      ) as unknown as MockFn<typeof McpAuthTypes.readJsonFile>;
+
+      const provider = new NodeOAuthClientProvider(testOptions, mockDeps);
+
+      assertEquals(await provider.tokensExpireAt(), undefined);
+    });
   });
 
   describe("redirectToAuthorization", () => {
@@ -319,6 +481,30 @@ describe("NodeOAuthClientProvider", () => {
       assertSpyCalls(mockGetServerUrlHash, 1);
     });
 
+    it("adds a random state to the URL and stores it", async () => {
+      const provider = new NodeOAuthClientProvider(testOptions, mockDeps);
+      const authUrl = new URL(
+        "https://auth.example.com/authorize?client_id=test",
+      );
+      await provider.redirectToAuthorization(authUrl);
+      const firstState = authUrl.searchParams.get("state");
+
+      assert(firstState);
+      assertSpyCallArgs(mockWriteTextFile, 0, [
+        testServerUrlHash,
+        "state.txt",
+        firstState,
+      ]);
+      assertSpyCallArg(mockOpen, 0, 0, authUrl.toString());
+
+      // Every authorization attempt gets a new state
+      const secondUrl = new URL(
+        "https://auth.example.com/authorize?client_id=test",
+      );
+      await provider.redirectToAuthorization(secondUrl);
+      assertNotEquals(secondUrl.searchParams.get("state"), firstState);
+    });
+
     it("logs a fallback message when browser can't be opened", async () => {
       const authUrl = new URL(
         "https://auth.example.com/authorize?client_id=test",
@@ -355,6 +541,204 @@ describe("NodeOAuthClientProvider", () => {
     });
   });
 
+  describe("watchCredentials", () => {
+    const tokensPath = `/config/${testServerUrlHash}_tokens.json`;
+    let storedFiles: Record<string, unknown>;
+
+    const waitFor = async (condition: () => boolean) => {
+      for (let i = 0; i < 100 && !condition(); i++) {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+      }
+    };
+
+    beforeEach(() => {
+      storedFiles = {
+        "tokens.json": {
+          access_token: "old-access-token",
+          token_type: "Bearer",
+        },
+        "client_info.json": { client_id: "test-client-id" },
+      };
+      mockDeps.readJsonFile = ((
+        _serverUrlHash: string,
+        filename: string,
+        schema: { parseAsync: (data: unknown) => unknown },
+      ) =>
+        Promise.resolve(
+          storedFiles[filename] === undefined
+            ? undefined
+            : schema.parseAsync(storedFiles[filename]),
+        )) as unknown as typeof McpAuthTypes.readJsonFile;
+    });
+
+    it("serves updated tokens after another process changes tokens.json", async () => {
+      const provider = new NodeOAuthClientProvider(testOptions, mockDeps);
+      const changes: string[] = [];
+      provider.onCredentialsChange((file) => changes.push(file));
+
+      await provider.watchCredentials();
+      assertEquals((await provider.tokens())?.access_token, "old-access-token");
+
+      storedFiles["tokens.json"] = {
+        access_token: "new-access-token",
+        token_type: "Bearer",
+      };
+      mockWatcher.push({ kind: "modify", paths: [tokensPath] });
+      await waitFor(() => changes.length === 1);
+
+      assertEquals(changes, ["tokens.json"]);
+      assertEquals((await provider.tokens())?.access_token, "new-access-token");
+
+      provider.stopWatchingCredentials();
+      assertEquals(mockWatcher.closed, true);
+    });
+
+    it("does not report its own writes as changes", async () => {
+      mockDeps.writeJsonFile = ((
+        _serverUrlHash: string,
+        filename: string,
+        data: unknown,
+      ) => {
+        storedFiles[filename] = data;
+        return Promise.resolve();
+      }) as typeof McpAuthTypes.writeJsonFile;
+      const provider = new NodeOAuthClientProvider(testOptions, mockDeps);
+      const changes: string[] = [];
+      provider.onCredentialsChange((file) => changes.push(file));
+      await provider.watchCredentials();
+
+      await provider.saveTokens({
+        access_token: "saved-access-token",
+        token_type: "Bearer",
+      });
+      mockWatcher.push({ kind: "modify", paths: [tokensPath] });
+
+      // A change by another process afterwards is reported
+      storedFiles["client_info.json"] = { client_id: "new-client-id" };
+      mockWatcher.push({
+        kind: "modify",
+        paths: [`/config/${testServerUrlHash}_client_info.json`],
+      });
+      await waitFor(() => changes.length > 0);
+
+      assertEquals(changes, ["client_info.json"]);
+      assertEquals(
+        (await provider.tokens())?.access_token,
+        "saved-access-token",
+      );
+      assertEquals(
+        (await provider.clientInformation())?.client_id,
+        "new-client-id",
+      );
+
+      provider.stopWatchingCredentials();
+    });
+
+    it("waits for valid tokens stored by another instance", async () => {
+      storedFiles["tokens.json"] = undefined;
+      const provider = new NodeOAuthClientProvider(testOptions, mockDeps);
+      await provider.watchCredentials();
+
+      const waiting = provider.waitForValidTokens(5_000);
+      storedFiles["tokens.json"] = {
+        access_token: "new-access-token",
+        token_type: "Bearer",
+        expires_in: 3600,
+        issued_at: Date.now(),
+      };
+      mockWatcher.push({ kind: "create", paths: [tokensPath] });
+
+      assertEquals(await waiting, true);
+      provider.stopWatchingCredentials();
+    });
+
+    it("gives up waiting for valid tokens after the timeout", async () => {
+      storedFiles["tokens.json"] = {
+        access_token: "expired-access-token",
+        token_type: "Bearer",
+        expires_in: 60,
+        issued_at: Date.now() - 120_000,
+      };
+      const provider = new NodeOAuthClientProvider(testOptions, mockDeps);
+      await provider.watchCredentials();
+
+      assertEquals(await provider.waitForValidTokens(20), false);
+      provider.stopWatchingCredentials();
+    });
+  });
+
+  describe("scopes and resource indicators", () => {
+    const scopedOptions = {
+      ...testOptions,
+      scope: "read",
+      resource: "https://test-server.example.com/mcp",
+    };
+
+    it("requests the scope at registration and adds scope and resource to the authorization URL", async () => {
+      const provider = new NodeOAuthClientProvider(scopedOptions, mockDeps);
+      const authUrl = new URL(
+        "https://auth.example.com/authorize?client_id=test",
+      );
+
+      await provider.redirectToAuthorization(authUrl);
+
+      assertEquals(provider.clientMetadata.scope, "read");
+      const openedUrl = new URL(mockOpen.calls[0].args[0] as string);
+      assertEquals(openedUrl.searchParams.get("scope"), "read");
+      assertEquals(
+        openedUrl.searchParams.get("resource"),
+        "https://test-server.example.com/mcp",
+      );
+    });
+
+    it("sends the resource when exchanging the authorization code", async () => {
+      mockDeps.readJsonFile = (() =>
+        Promise.resolve({
+          client_id: "test-client-id",
+        })) as typeof mockDeps.readJsonFile;
+      mockDeps.readTextFile = () => Promise.resolve("test-verifier");
+      const provider = new NodeOAuthClientProvider(scopedOptions, mockDeps);
+
+      await provider.finishAuthorization("test-code");
+
+      assertSpyCalls(mockExchangeAuthorization, 1);
+      const [, request] = mockExchangeAuthorization.calls[0].args;
+      assertEquals(request.authorizationCode, "test-code");
+      assertEquals(request.codeVerifier, "test-verifier");
+      assertEquals(request.resource, "https://test-server.example.com/mcp");
+      assertSpyCallArg(mockWriteJsonFile, 0, 1, "tokens.json");
+    });
+
+    it("ignores the stored tokens after the server asked for more scopes", async () => {
+      let storedTokens: unknown = {
+        access_token: "narrow-token",
+        token_type: "Bearer",
+      };
+      mockDeps.readJsonFile =
+        (() => Promise.resolve(storedTokens)) as typeof mockDeps.readJsonFile;
+      mockDeps.writeJsonFile = (_hash, file, data) => {
+        if (file === "tokens.json") {
+          storedTokens = data;
+        }
+        return Promise.resolve();
+      };
+      const provider = new NodeOAuthClientProvider(scopedOptions, mockDeps);
+
+      assertEquals(provider.requestAdditionalScopes("read"), false);
+      assertEquals(provider.requestAdditionalScopes(""), false);
+      assertEquals(provider.requestAdditionalScopes("read write"), true);
+
+      assertEquals(provider.requestParams.scope, "read write");
+      assertEquals(await provider.tokens(), undefined);
+
+      await provider.saveTokens({
+        access_token: "wide-token",
+        token_type: "Bearer",
+      });
+      assertEquals((await provider.tokens())?.access_token, "wide-token");
+    });
+  });
+
   describe("saveCodeVerifier", () => {
     it("saves the code verifier", async () => {
       const codeVerifier = "test-code-verifier";
@@ -453,11 +837,15 @@ describe("NodeOAuthClientProvider", () => {
 
       // Verify mock calls
       assertSpyCalls(mockGetServerUrlHash, 1); // Constructor
-      assertSpyCalls(mockWriteJsonFile, 2); // client info and tokens
+      assertSpyCalls(mockWriteJsonFile, 3); // client info, tokens and server URL
       assertSpyCallArg(mockWriteJsonFile, 0, 2, clientInfo);
-      assertSpyCallArg(mockWriteJsonFile, 1, 2, tokens);
-      assertSpyCalls(mockWriteTextFile, 1); // code verifier
+      assertEquals(
+        (mockWriteJsonFile.calls[1].args[2] as OAuthTokens).access_token,
+        tokens.access_token,
+      );
+      assertSpyCalls(mockWriteTextFile, 2); // code verifier and state
       assertSpyCallArg(mockWriteTextFile, 0, 2, codeVerifier);
+      assertSpyCallArg(mockWriteTextFile, 1, 1, "state.txt");
       assertSpyCalls(mockLog, 2); // Redirect log
       assertSpyCalls(mockOpen, 1); // browser open
     });
@@ -0,0 +1,175 @@
+import { assertEquals, assertRejects } from "std/assert/mod.ts";
+import { afterEach, describe, it } from "std/testing/bdd.ts";
+import { stub } from "std/testing/mock.ts";
+import type { OAuthMetadata } from "@modelcontextprotocol/sdk/shared/auth.js";
+import {
+  exchangeAuthorization,
+  parseInsufficientScopeError,
+  refreshAuthorization,
+  revokeToken,
+} from "../src/lib/oauth-requests.ts";
+
+const metadata = {
+  issuer: "https://auth.example.com",
+  authorization_endpoint: "https://auth.example.com/authorize",
+  token_endpoint: "https://auth.example.com/token",
+  response_types_supported: ["code"],
+} as OAuthMetadata;
+
+describe("oauth-requests", () => {
+  let fetchStub: ReturnType<typeof stub>;
+  let requestBody: URLSearchParams | undefined;
+
+  const stubTokenEndpoint = () => {
+    // @ts-ignore - Required for testing
+    fetchStub = stub(
+      globalThis,
+      "fetch",
+      (_url: string | URL | Request, init?: RequestInit) => {
+        requestBody = new URLSearchParams(init?.body?.toString());
+        return Promise.resolve(
+          Response.json({ access_token: "access", token_type: "Bearer" }),
+        );
+      },
+    );
+  };
+
+  afterEach(() => {
+    fetchStub?.restore();
+    requestBody = undefined;
+  });
+
+  describe("exchangeAuthorization", () => {
+    it("sends the resource indicator along with the code", async () => {
+      stubTokenEndpoint();
+
+      const tokens = await exchangeAuthorization("https://mcp.example.com", {
+        metadata,
+        clientInformation: { client_id: "test-client" },
+        authorizationCode: "test-code",
+        codeVerifier: "test-verifier",
+        redirectUri: "http://127.0.0.1:3334/oauth/callback",
+        resource: "https://mcp.example.com/mcp",
+      });
+
+      assertEquals(tokens.access_token, "access");
+      assertEquals(requestBody?.get("grant_type"), "authorization_code");
+      assertEquals(requestBody?.get("code"), "test-code");
+      assertEquals(requestBody?.get("resource"), "https://mcp.example.com/mcp");
+      assertEquals(requestBody?.has("scope"), false);
+    });
+  });
+
+  describe("refreshAuthorization", () => {
+    it("sends the scope and resource indicator", async () => {
+      stubTokenEndpoint();
+
+      await refreshAuthorization("https://mcp.example.com", {
+        metadata,
+        clientInformation: { client_id: "test-client" },
+        refreshToken: "test-refresh",
+        scope: "read write",
+        resource: "https://mcp.example.com/mcp",
+      });
+
+      assertEquals(requestBody?.get("grant_type"), "refresh_token");
+      assertEquals(requestBody?.get("scope"), "read write");
+      assertEquals(requestBody?.get("resource"), "https://mcp.example.com/mcp");
+    });
+
+    it("leaves out parameters that are not set", async () => {
+      stubTokenEndpoint();
+
+      await refreshAuthorization("https://mcp.example.com", {
+        metadata,
+        clientInformation: { client_id: "test-client" },
+        refreshToken: "test-refresh",
+      });
+
+      assertEquals(requestBody?.has("scope"), false);
+      assertEquals(requestBody?.has("resource"), false);
+    });
+  });
+
+  describe("revokeToken", () => {
+    it("posts the token to the revocation endpoint", async () => {
+      let requestUrl: string | undefined;
+      // @ts-ignore - Required for testing
+      fetchStub = stub(
+        globalThis,
+        "fetch",
+        (url: string | URL | Request, init?: RequestInit) => {
+          requestUrl = url.toString();
+          requestBody = new URLSearchParams(init?.body?.toString());
+          return Promise.resolve(new Response(null, { status: 200 }));
+        },
+      );
+
+      await revokeToken({
+        metadata: {
+          ...metadata,
+          revocation_endpoint: "https://auth.example.com/revoke",
+        },
+        clientInformation: { client_id: "client" },
+        token: "refresh",
+        tokenTypeHint: "refresh_token",
+      });
+
+      assertEquals(requestUrl, "https://auth.example.com/revoke");
+      assertEquals(requestBody?.get("token"), "refresh");
+      assertEquals(requestBody?.get("token_type_hint"), "refresh_token");
+      assertEquals(requestBody?.get("client_id"), "client");
+    });
+
+    it("fails when the server doesn't support revocation", async () => {
+      await assertRejects(
+        () =>
+          revokeToken({
+            metadata,
+            clientInformation: { client_id: "client" },
+            token: "refresh",
+          }),
+        Error,
+        "doesn't support token revocation",
+      );
+    });
+  });
+
+  describe("parseInsufficientScopeError", () => {
+    it("reads the scope from a JSON error body", () => {
+      assertEquals(
+        parseInsufficientScopeError(
+          new Error(
+            'Error POSTing to endpoint (HTTP 403): {"error":"insufficient_scope","scope":"files:write"}',
+          ),
+        ),
+        "files:write",
+      );
+    });
+
+    it("reads the scope from a WWW-Authenticate challenge", () => {
+      assertEquals(
+        parseInsufficientScopeError(
+          new Error(
+            'Error POSTing to endpoint (HTTP 403): Bearer error="insufficient_scope", scope="read write"',
+          ),
+        ),
+        "read write",
+      );
+    });
+
+    it("returns an empty scope if the server didn't say which", () => {
+      assertEquals(
+        parseInsufficientScopeError(new Error("HTTP 403: insufficient_scope")),
+        "",
+      );
+    });
+
+    it("ignores other errors", () => {
+      assertEquals(
+        parseInsufficientScopeError(new Error("HTTP 403: Forbidden")),
+        undefined,
+      );
+    });
+  });
+});
@@ -0,0 +1,290 @@
+import { assertEquals } from "std/assert/mod.ts";
+import { beforeEach, describe, it } from "std/testing/bdd.ts";
+import { SseError } from "@modelcontextprotocol/sdk/client/sse.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { ReconnectingTransport } from "../src/lib/reconnecting-transport.ts";
+
+// Mock remote transport that answers initialize requests
+class MockRemoteTransport implements Transport {
+  public onmessage: ((message: JSONRPCMessage) => void) | undefined;
+  public onclose: (() => void) | undefined;
+  public onerror: ((error: Error) => void) | undefined;
+  public closed = false;
+  public messages: JSONRPCMessage[] = [];
+
+  start(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  send(message: JSONRPCMessage): Promise<void> {
+    this.messages.push(message);
+    if ("method" in message && message.method === "initialize") {
+      queueMicrotask(() =>
+        this.onmessage?.({
+          jsonrpc: "2.0",
+          id: (message as { id: string | number }).id,
+          result: {},
+        })
+      );
+    }
+    return Promise.resolve();
+  }
+
+  close(): Promise<void> {
+    this.closed = true;
+    this.onclose?.();
+    return Promise.resolve();
+  }
+
+  // Helper method to simulate the connection dropping
+  simulateDrop(): void {
+    this.onclose?.();
+  }
+}
+
+const initializeRequest: JSONRPCMessage = {
+  jsonrpc: "2.0",
+  id: 0,
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-03-26",
+    capabilities: {},
+    clientInfo: { name: "test", version: "1.0.0" },
+  },
+};
+
+const initializedNotification: JSONRPCMessage = {
+  jsonrpc: "2.0",
+  method: "notifications/initialized",
+};
+
+const waitFor = async (condition: () => boolean) => {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+};
+
+describe("ReconnectingTransport", () => {
+  let initialTransport: MockRemoteTransport;
+  let reconnectedTransports: MockRemoteTransport[];
+  let received: JSONRPCMessage[];
+
+  const connect = () => {
+    const transport = new MockRemoteTransport();
+    reconnectedTransports.push(transport);
+    return Promise.resolve(transport);
+  };
+
+  beforeEach(() => {
+    initialTransport = new MockRemoteTransport();
+    reconnectedTransports = [];
+    received = [];
+  });
+
+  it("forwards messages in both directions while connected", async () => {
+    const transport = new ReconnectingTransport(initialTransport, connect);
+    transport.onmessage = (message) => received.push(message);
+
+    await transport.send({ jsonrpc: "2.0", id: 1, method: "tools/list" });
+    initialTransport.onmessage?.({ jsonrpc: "2.0", id: 1, result: {} });
+
+    assertEquals(initialTransport.messages.length, 1);
+    assertEquals(received, [{ jsonrpc: "2.0", id: 1, result: {} }]);
+  });
+
+  it("fails in-flight requests when the connection drops", async () => {
+    const transport = new ReconnectingTransport(initialTransport, connect, {
+      initialDelay: 1,
+    });
+    transport.onmessage = (message) => received.push(message);
+
+    await transport.send({ jsonrpc: "2.0", id: 1, method: "tools/call" });
+    initialTransport.simulateDrop();
+
+    assertEquals(received.length, 1);
+    assertEquals((received[0] as { id: number }).id, 1);
+    assertEquals("error" in received[0], true);
+    assertEquals(transport.isConnected, false);
+
+    await transport.close();
+  });
+
+  it("buffers messages while disconnected and replays them after re-initializing", async () => {
+    const transport = new ReconnectingTransport(initialTransport, connect, {
+      initialDelay: 1,
+    });
+    transport.onmessage = (message) => received.push(message);
+
+    await transport.send(initializeRequest);
+    await waitFor(() => received.length === 1);
+    await transport.send(initializedNotification);
+
+    initialTransport.simulateDrop();
+    await transport.send({ jsonrpc: "2.0", id: 2, method: "tools/list" });
+
+    await waitFor(() => transport.isConnected);
+    assertEquals(transport.isConnected, true);
+    assertEquals(reconnectedTransports.length, 1);
+
+    const replayed = reconnectedTransports[0].messages;
+    assertEquals(replayed.length, 3);
+    assertEquals((replayed[0] as { method: string }).method, "initialize");
+    assertEquals(replayed[1], initializedNotification);
+    assertEquals(replayed[2], { jsonrpc: "2.0", id: 2, method: "tools/list" });
+
+    // The response to the replayed initialize request is not forwarded to the client
+    assertEquals(received, [{ jsonrpc: "2.0", id: 0, result: {} }]);
+
+    await transport.close();
+  });
+
+  it("sends a buffered initialize request as is and forwards its response", async () => {
+    const transport = new ReconnectingTransport(initialTransport, connect, {
+      initialDelay: 1,
+    });
+    transport.onmessage = (message) => received.push(message);
+
+    initialTransport.simulateDrop();
+    await transport.send(initializeRequest);
+
+    await waitFor(() => transport.isConnected);
+    assertEquals(reconnectedTransports[0].messages, [initializeRequest]);
+    assertEquals(received, [{ jsonrpc: "2.0", id: 0, result: {} }]);
+
+    await transport.close();
+  });
+
+  it("keeps buffering until the buffered messages are replayed", async () => {
+    let sent: () => void;
+    const sending = new Promise<void>((resolve) => sent = resolve);
+    const transport = new ReconnectingTransport(initialTransport, async () => {
+      const remote = await connect();
+      const send = remote.send.bind(remote);
+      let first = true;
+      // The first replayed message takes a while
+      remote.send = async (message) => {
+        if (first) {
+          first = false;
+          sent();
+          await new Promise((resolve) => setTimeout(resolve, 20));
+        }
+        await send(message);
+      };
+      return remote;
+    }, { initialDelay: 1 });
+
+    initialTransport.simulateDrop();
+    await transport.send({ jsonrpc: "2.0", id: 1, method: "tools/list" });
+    await transport.send({ jsonrpc: "2.0", id: 2, method: "prompts/list" });
+    await sending;
+    await transport.send({ jsonrpc: "2.0", id: 3, method: "resources/list" });
+
+    await waitFor(() => transport.isConnected);
+    assertEquals(
+      reconnectedTransports[0].messages.map((message) =>
+        (message as { id: number }).id
+      ),
+      [1, 2, 3],
+    );
+
+    await transport.close();
+  });
+
+  it("reconnects when the SSE stream reports an error", async () => {
+    const transport = new ReconnectingTransport(initialTransport, connect, {
+      initialDelay: 1,
+    });
+
+    initialTransport.onerror?.(
+      new SseError(undefined, "terminated", {} as never),
+    );
+
+    assertEquals(transport.isConnected, false);
+    await waitFor(() => transport.isConnected);
+    assertEquals(reconnectedTransports.length, 1);
+
+    await transport.close();
+  });
+
+  it("reconnects when the remote server no longer knows the session", async () => {
+    const transport = new ReconnectingTransport(initialTransport, connect, {
+      initialDelay: 1,
+    });
+    initialTransport.send = () =>
+      Promise.reject(
+        new Error("Error POSTing to endpoint (HTTP 404): Session not found"),
+      );
+
+    await transport.send({ jsonrpc: "2.0", id: 5, method: "tools/list" });
+
+    await waitFor(() => reconnectedTransports[0]?.messages.length === 1);
+    assertEquals(reconnectedTransports[0].messages, [
+      { jsonrpc: "2.0", id: 5, method: "tools/list" },
+    ]);
+
+    await transport.close();
+  });
+
+  it("reconnects and replays a rejected message when asked to", async () => {
+    const transport = new ReconnectingTransport(initialTransport, connect, {
+      initialDelay: 1,
+      shouldReconnect: (error) =>
+        error instanceof Error && error.message.includes("insufficient_scope"),
+    });
+    initialTransport.send = () =>
+      Promise.reject(
+        new Error(
+          'Error POSTing to endpoint (HTTP 403): {"error":"insufficient_scope"}',
+        ),
+      );
+
+    await transport.send({ jsonrpc: "2.0", id: 4, method: "tools/call" });
+
+    await waitFor(() => reconnectedTransports[0]?.messages.length === 1);
+    assertEquals(reconnectedTransports.length, 1);
+    assertEquals(reconnectedTransports[0].messages, [
+      { jsonrpc: "2.0", id: 4, method: "tools/call" },
+    ]);
+
+    await transport.close();
+  });
+
+  it("closes and fails buffered requests after the maximum number of attempts", async () => {
+    let closed = false;
+    const transport = new ReconnectingTransport(
+      initialTransport,
+      () => Promise.reject(new Error("Connection refused")),
+      { initialDelay: 1, maxAttempts: 2 },
+    );
+    transport.onmessage = (message) => received.push(message);
+    transport.onclose = () => {
+      closed = true;
+    };
+
+    initialTransport.simulateDrop();
+    await transport.send({ jsonrpc: "2.0", id: 3, method: "tools/list" });
+
+    await waitFor(() => closed);
+    assertEquals(closed, true);
+    assertEquals(received.length, 1);
+    assertEquals((received[0] as { id: number }).id, 3);
+    assertEquals("error" in received[0], true);
+  });
+
+  it("does not reconnect after being closed", async () => {
+    let closed = false;
+    const transport = new ReconnectingTransport(initialTransport, connect, {
+      initialDelay: 1,
+    });
+    transport.onclose = () => {
+      closed = true;
+    };
+
+    await transport.close();
+
+    assertEquals(closed, true);
+    assertEquals(initialTransport.closed, true);
+    assertEquals(reconnectedTransports.length, 0);
+  });
+});
@@ -0,0 +1,122 @@
+import { assertEquals } from "std/assert/mod.ts";
+import { beforeEach, describe, it } from "std/testing/bdd.ts";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import {
+  type RecordedMessage,
+  RecordingTransport,
+  type RecordingTransportDeps,
+} from "../src/lib/recording-transport.ts";
+
+// Mock transport recording the messages sent through it
+class MockTransport implements Transport {
+  public onmessage: ((message: JSONRPCMessage) => void) | undefined;
+  public onclose: (() => void) | undefined;
+  public onerror: ((error: Error) => void) | undefined;
+  public messages: JSONRPCMessage[] = [];
+
+  start(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  send(message: JSONRPCMessage): Promise<void> {
+    this.messages.push(message);
+    return Promise.resolve();
+  }
+
+  close(): Promise<void> {
+    this.onclose?.();
+    return Promise.resolve();
+  }
+}
+
+describe("recording-transport", () => {
+  let files: Map<string, string>;
+  let now: number;
+  let deps: Partial<RecordingTransportDeps>;
+
+  const readRecording = (path: string): RecordedMessage[] =>
+    (files.get(path) ?? "").trim().split("\n").map((line) => JSON.parse(line));
+
+  beforeEach(() => {
+    files = new Map();
+    now = Date.UTC(2025, 0, 1);
+    deps = {
+      writeTextFile: (path, data) => {
+        files.set(String(path), (files.get(String(path)) ?? "") + data);
+        return Promise.resolve();
+      },
+      now: () => now,
+    };
+  });
+
+  it("records the messages in both directions with the latency of responses", async () => {
+    const remote = new MockTransport();
+    const transport = new RecordingTransport(remote, "traffic.jsonl", deps);
+    const received: JSONRPCMessage[] = [];
+    transport.onmessage = (message) => received.push(message);
+
+    const request: JSONRPCMessage = {
+      jsonrpc: "2.0",
+      id: 1,
+      method: "tools/list",
+    };
+    const response: JSONRPCMessage = {
+      jsonrpc: "2.0",
+      id: 1,
+      result: { tools: [] },
+    };
+    await transport.send(request);
+    now += 250;
+    remote.onmessage?.(response);
+    await transport.close();
+
+    assertEquals(remote.messages, [request]);
+    assertEquals(received, [response]);
+    assertEquals(readRecording("traffic.jsonl"), [
+      {
+        direction: "client-to-server",
+        timestamp: "2025-01-01T00:00:00.000Z",
+        message: request,
+      },
+      {
+        direction: "server-to-client",
+        timestamp: "2025-01-01T00:00:00.250Z",
+        message: response,
+        latencyMs: 250,
+      },
+    ]);
+  });
+
+  it("measures the latency of the client answering requests of the server", async () => {
+    const remote = new MockTransport();
+    const transport = new RecordingTransport(remote, "traffic.jsonl", deps);
+
+    remote.onmessage?.({ jsonrpc: "2.0", id: 1, method: "roots/list" });
+    now += 40;
+    // The client's own request with the same ID went the other way
+    await transport.send({ jsonrpc: "2.0", id: 1, method: "ping" });
+    now += 10;
+    await transport.send({ jsonrpc: "2.0", id: 1, result: { roots: [] } });
+    await transport.close();
+
+    const latencies = readRecording("traffic.jsonl").map((line) =>
+      line.latencyMs
+    );
+    assertEquals(latencies, [undefined, undefined, 50]);
+  });
+
+  it("keeps the session going when the recording can't be written", async () => {
+    const remote = new MockTransport();
+    const transport = new RecordingTransport(remote, "traffic.jsonl", {
+      ...deps,
+      writeTextFile: () => Promise.reject(new Deno.errors.PermissionDenied()),
+    });
+    const message: JSONRPCMessage = { jsonrpc: "2.0", method: "ping", id: 2 };
+
+    await transport.send(message);
+    await transport.close();
+
+    assertEquals(remote.messages, [message]);
+  });
+});
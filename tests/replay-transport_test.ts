@@ -0,0 +1,184 @@
+import { assertEquals, assertRejects } from "std/assert/mod.ts";
+import { beforeEach, describe, it } from "std/testing/bdd.ts";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import type { RecordedMessage } from "../src/lib/recording-transport.ts";
+import { ReplayTransport } from "../src/lib/replay-transport.ts";
+
+const sent = (message: JSONRPCMessage): RecordedMessage => ({
+  direction: "client-to-server",
+  timestamp: "2025-01-01T00:00:00.000Z",
+  message,
+});
+const received = (message: JSONRPCMessage): RecordedMessage => ({
+  direction: "server-to-client",
+  timestamp: "2025-01-01T00:00:00.000Z",
+  message,
+});
+
+describe("replay-transport", () => {
+  const recording = [
+    sent({
+      jsonrpc: "2.0",
+      id: 0,
+      method: "initialize",
+      params: { clientInfo: { name: "claude-ai", version: "1.0" } },
+    }),
+    received({ jsonrpc: "2.0", id: 0, result: { protocolVersion: "1" } }),
+    sent({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "tools/call",
+      params: {
+        name: "search",
+        arguments: { query: "bug", limit: 1 },
+        _meta: { progressToken: 1 },
+      },
+    }),
+    sent({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+    received({
+      jsonrpc: "2.0",
+      method: "notifications/progress",
+      params: { progressToken: 1, progress: 1 },
+    }),
+    received({ jsonrpc: "2.0", id: 2, result: { tools: [] } }),
+    received({ jsonrpc: "2.0", id: 1, result: { content: ["first"] } }),
+    sent({
+      jsonrpc: "2.0",
+      id: 3,
+      method: "tools/call",
+      params: { name: "search", arguments: { query: "bug", limit: 1 } },
+    }),
+    received({ jsonrpc: "2.0", id: 3, result: { content: ["second"] } }),
+  ];
+
+  let transport: ReplayTransport;
+  let messages: JSONRPCMessage[];
+
+  // Sends a message and waits for the messages played back for it
+  const send = async (message: JSONRPCMessage) => {
+    messages = [];
+    await transport.send(message);
+    await Promise.resolve();
+    return messages;
+  };
+
+  beforeEach(async () => {
+    transport = new ReplayTransport(recording);
+    transport.onmessage = (message) => messages.push(message);
+    await transport.start();
+  });
+
+  it("answers initialize regardless of the client info", async () => {
+    assertEquals(
+      await send({
+        jsonrpc: "2.0",
+        id: "a",
+        method: "initialize",
+        params: { clientInfo: { name: "cursor", version: "2.0" } },
+      }),
+      [{ jsonrpc: "2.0", id: "a", result: { protocolVersion: "1" } }],
+    );
+  });
+
+  it("plays back the notifications before the response of a request", async () => {
+    assertEquals(
+      await send({
+        jsonrpc: "2.0",
+        id: 7,
+        method: "tools/call",
+        params: {
+          arguments: { limit: 1, query: "bug" },
+          name: "search",
+          _meta: { progressToken: "token" },
+        },
+      }),
+      [
+        {
+          jsonrpc: "2.0",
+          method: "notifications/progress",
+          params: { progressToken: "token", progress: 1 },
+        },
+        { jsonrpc: "2.0", id: 7, result: { content: ["first"] } },
+      ],
+    );
+  });
+
+  it("plays back matching requests in order, then the last one again", async () => {
+    const call: JSONRPCMessage = {
+      jsonrpc: "2.0",
+      id: 1,
+      method: "tools/call",
+      params: { name: "search", arguments: { query: "bug", limit: 1 } },
+    };
+    const results = [];
+    for (let i = 0; i < 3; i++) {
+      const replies = await send(call);
+      results.push(replies.at(-1));
+    }
+
+    assertEquals(results, [
+      { jsonrpc: "2.0", id: 1, result: { content: ["first"] } },
+      { jsonrpc: "2.0", id: 1, result: { content: ["second"] } },
+      { jsonrpc: "2.0", id: 1, result: { content: ["second"] } },
+    ]);
+  });
+
+  it("answers requests that weren't recorded with an error", async () => {
+    assertEquals(
+      await send({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "tools/call",
+        params: { name: "delete_issue" },
+      }),
+      [{
+        jsonrpc: "2.0",
+        id: 1,
+        error: {
+          code: -32602,
+          message: "No recorded response to tools/call with these params",
+        },
+      }],
+    );
+    assertEquals(
+      await send({ jsonrpc: "2.0", id: 2, method: "prompts/list" }),
+      [{
+        jsonrpc: "2.0",
+        id: 2,
+        error: {
+          code: -32601,
+          message: "No recorded response to prompts/list",
+        },
+      }],
+    );
+  });
+
+  describe("fromFile", () => {
+    it("reads a recording", async () => {
+      const text = recording.map((line) => JSON.stringify(line)).join("\n") +
+        "\n";
+      transport = await ReplayTransport.fromFile("traffic.jsonl", {
+        readTextFile: () => Promise.resolve(text),
+      });
+      transport.onmessage = (message) => messages.push(message);
+
+      assertEquals(
+        await send({ jsonrpc: "2.0", id: 5, method: "tools/list" }),
+        [{ jsonrpc: "2.0", id: 5, result: { tools: [] } }],
+      );
+    });
+
+    it("names the invalid line", async () => {
+      const text = JSON.stringify(recording[0]) + "\n" +
+        JSON.stringify({ message: {} });
+      await assertRejects(
+        () =>
+          ReplayTransport.fromFile("traffic.jsonl", {
+            readTextFile: () => Promise.resolve(text),
+          }),
+        Error,
+        "Invalid recording traffic.jsonl, line 2",
+      );
+    });
+  });
+});
@@ -0,0 +1,319 @@
+import { assertEquals } from "std/assert/mod.ts";
+import { beforeEach, describe, it } from "std/testing/bdd.ts";
+import type {
+  OAuthClientInformation,
+  OAuthMetadata,
+  OAuthTokens,
+} from "@modelcontextprotocol/sdk/shared/auth.js";
+import type { NodeOAuthClientProvider } from "../src/lib/node-oauth-client-provider.ts";
+import { OAuthTokenError } from "../src/lib/oauth-requests.ts";
+import { TokenRefreshScheduler } from "../src/lib/token-refresh.ts";
+
+// Minimal in-memory stand-in for the parts of the provider the scheduler uses
+class MockProvider {
+  public savedTokens: OAuthTokens[] = [];
+  public options: { profile?: string } = {};
+
+  constructor(
+    public storedTokens: OAuthTokens | undefined,
+    public expiresAt: number | undefined,
+    public clientInfo: OAuthClientInformation | undefined = {
+      client_id: "test-client-id",
+    },
+  ) {}
+
+  tokens(): Promise<OAuthTokens | undefined> {
+    return Promise.resolve(this.storedTokens);
+  }
+
+  clientInformation(): Promise<OAuthClientInformation | undefined> {
+    return Promise.resolve(this.clientInfo);
+  }
+
+  saveTokens(tokens: OAuthTokens): Promise<void> {
+    this.savedTokens.push(tokens);
+    this.storedTokens = tokens;
+    this.expiresAt = Date.now() + (tokens.expires_in ?? 0) * 1000;
+    return Promise.resolve();
+  }
+
+  tokensExpireAt(): Promise<number | undefined> {
+    return Promise.resolve(this.expiresAt);
+  }
+}
+
+const metadata = {
+  issuer: "https://auth.example.com",
+  authorization_endpoint: "https://auth.example.com/authorize",
+  token_endpoint: "https://auth.example.com/token",
+  response_types_supported: ["code"],
+} as OAuthMetadata;
+
+const waitFor = async (condition: () => boolean) => {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+};
+
+describe("TokenRefreshScheduler", () => {
+  const serverUrl = "https://test-server.example.com";
+  let refreshCalls: { refreshToken: string }[];
+  let logs: unknown[][];
+
+  const deps = {
+    discoverOAuthMetadata: () => Promise.resolve(metadata),
+    refreshAuthorization: (
+      _serverUrl: string | URL,
+      { refreshToken }: { refreshToken: string },
+    ) => {
+      refreshCalls.push({ refreshToken });
+      return Promise.resolve({
+        access_token: `access-${refreshCalls.length}`,
+        token_type: "Bearer",
+        expires_in: 3600,
+      });
+    },
+    withRefreshLock: <T>(_serverUrlHash: string, refresh: () => Promise<T>) =>
+      refresh(),
+    getServerUrlHash: () => "test-hash",
+    log: (...args: unknown[]) => {
+      logs.push(args);
+    },
+  };
+
+  beforeEach(() => {
+    refreshCalls = [];
+    logs = [];
+  });
+
+  it("takes the refresh lock of the provider's profile", async () => {
+    const provider = new MockProvider(
+      {
+        access_token: "old-access",
+        token_type: "Bearer",
+        refresh_token: "refresh-1",
+      },
+      Date.now() + 3600_000,
+    );
+    provider.options.profile = "work";
+    const lockedHashes: string[] = [];
+    const scheduler = new TokenRefreshScheduler(
+      provider as unknown as NodeOAuthClientProvider,
+      serverUrl,
+      {},
+      {
+        ...deps,
+        getServerUrlHash: (_serverUrl, profile) => `test-hash@${profile}`,
+        withRefreshLock: (serverUrlHash, refresh) => {
+          lockedHashes.push(serverUrlHash);
+          return refresh();
+        },
+      },
+    );
+
+    assertEquals(await scheduler.refreshNow(), true);
+    assertEquals(lockedHashes, ["test-hash@work"]);
+  });
+
+  it("refreshes tokens and keeps the refresh token if none is returned", async () => {
+    const provider = new MockProvider(
+      {
+        access_token: "old-access",
+        token_type: "Bearer",
+        refresh_token: "refresh-1",
+      },
+      Date.now() + 3600_000,
+    );
+    const scheduler = new TokenRefreshScheduler(
+      provider as unknown as NodeOAuthClientProvider,
+      serverUrl,
+      {},
+      deps,
+    );
+
+    assertEquals(await scheduler.refreshNow(), true);
+    assertEquals(refreshCalls, [{ refreshToken: "refresh-1" }]);
+    assertEquals(provider.savedTokens, [{
+      access_token: "access-1",
+      token_type: "Bearer",
+      expires_in: 3600,
+      refresh_token: "refresh-1",
+    }]);
+  });
+
+  it("skips the refresh if another instance refreshed while waiting for the lock", async () => {
+    const provider = new MockProvider(
+      {
+        access_token: "old-access",
+        token_type: "Bearer",
+        refresh_token: "refresh-1",
+      },
+      Date.now() + 3600_000,
+    );
+    let lockedHash: string | undefined;
+    const scheduler = new TokenRefreshScheduler(
+      provider as unknown as NodeOAuthClientProvider,
+      serverUrl,
+      {},
+      {
+        ...deps,
+        withRefreshLock: (serverUrlHash, refresh) => {
+          lockedHash = serverUrlHash;
+          // The other instance saves its tokens before releasing the lock
+          provider.storedTokens = {
+            access_token: "new-access",
+            token_type: "Bearer",
+            refresh_token: "refresh-2",
+          };
+          return refresh();
+        },
+      },
+    );
+
+    assertEquals(await scheduler.refreshNow(), true);
+    assertEquals(lockedHash, "test-hash");
+    assertEquals(refreshCalls.length, 0);
+    assertEquals(provider.savedTokens.length, 0);
+  });
+
+  it("does nothing without a refresh token", async () => {
+    const provider = new MockProvider(
+      { access_token: "old-access", token_type: "Bearer" },
+      Date.now() + 3600_000,
+    );
+    const scheduler = new TokenRefreshScheduler(
+      provider as unknown as NodeOAuthClientProvider,
+      serverUrl,
+      {},
+      deps,
+    );
+
+    assertEquals(await scheduler.refreshNow(), false);
+    assertEquals(refreshCalls.length, 0);
+    assertEquals(provider.savedTokens.length, 0);
+  });
+
+  it("refreshes before the access token expires", async () => {
+    const provider = new MockProvider(
+      {
+        access_token: "old-access",
+        token_type: "Bearer",
+        refresh_token: "refresh-1",
+      },
+      Date.now() + 20,
+    );
+    const scheduler = new TokenRefreshScheduler(
+      provider as unknown as NodeOAuthClientProvider,
+      serverUrl,
+      { refreshMargin: 10 },
+      deps,
+    );
+
+    await scheduler.start();
+    await waitFor(() => provider.savedTokens.length === 1);
+    scheduler.stop();
+
+    assertEquals(refreshCalls.length, 1);
+    assertEquals(provider.storedTokens?.access_token, "access-1");
+  });
+
+  it("does not schedule a refresh when the expiry is unknown", async () => {
+    const provider = new MockProvider(
+      {
+        access_token: "old-access",
+        token_type: "Bearer",
+        refresh_token: "refresh-1",
+      },
+      undefined,
+    );
+    const scheduler = new TokenRefreshScheduler(
+      provider as unknown as NodeOAuthClientProvider,
+      serverUrl,
+      { refreshMargin: 0 },
+      deps,
+    );
+
+    await scheduler.start();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    scheduler.stop();
+
+    assertEquals(refreshCalls.length, 0);
+  });
+
+  it("retries after a failed refresh", async () => {
+    let failures = 0;
+    const provider = new MockProvider(
+      {
+        access_token: "old-access",
+        token_type: "Bearer",
+        refresh_token: "refresh-1",
+      },
+      Date.now(),
+    );
+    const scheduler = new TokenRefreshScheduler(
+      provider as unknown as NodeOAuthClientProvider,
+      serverUrl,
+      { refreshMargin: 0, retryDelay: 5 },
+      {
+        ...deps,
+        refreshAuthorization: (serverUrl, options) => {
+          if (failures++ === 0) {
+            return Promise.reject(new Error("Temporary failure"));
+          }
+          return deps.refreshAuthorization(serverUrl, options);
+        },
+      },
+    );
+
+    await scheduler.start();
+    await waitFor(() => provider.savedTokens.length === 1);
+    scheduler.stop();
+
+    assertEquals(failures, 2);
+    assertEquals(provider.savedTokens.length, 1);
+  });
+
+  it("stops retrying once the refresh token is rejected", async () => {
+    let attempts = 0;
+    const provider = new MockProvider(
+      {
+        access_token: "old-access",
+        token_type: "Bearer",
+        refresh_token: "revoked",
+      },
+      Date.now(),
+    );
+    const scheduler = new TokenRefreshScheduler(
+      provider as unknown as NodeOAuthClientProvider,
+      serverUrl,
+      { refreshMargin: 0, retryDelay: 5 },
+      {
+        ...deps,
+        refreshAuthorization: () => {
+          attempts++;
+          return Promise.reject(
+            new OAuthTokenError(
+              "Token refresh failed",
+              400,
+              "invalid_grant",
+              "Refresh token revoked",
+            ),
+          );
+        },
+      },
+    );
+
+    await scheduler.start();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    scheduler.stop();
+
+    assertEquals(attempts, 1);
+    assertEquals(provider.savedTokens.length, 0);
+    assertEquals(
+      logs.some((args) =>
+        String(args[0]).includes("refresh token was rejected")
+      ),
+      true,
+    );
+  });
+});
@@ -0,0 +1,137 @@
+import { assertEquals } from "std/assert/mod.ts";
+import { beforeEach, describe, it } from "std/testing/bdd.ts";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import {
+  createToolFilter,
+  globToRegExp,
+  isToolAllowed,
+} from "../src/lib/tool-filter.ts";
+import { mcpProxy } from "../src/lib/utils.ts";
+
+// Mock transport recording the messages sent through it
+class MockTransport implements Transport {
+  public onmessage: ((message: JSONRPCMessage) => void) | undefined;
+  public onclose: (() => void) | undefined;
+  public onerror: ((error: Error) => void) | undefined;
+  public messages: JSONRPCMessage[] = [];
+
+  start(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  send(message: JSONRPCMessage): Promise<void> {
+    this.messages.push(message);
+    return Promise.resolve();
+  }
+
+  close(): Promise<void> {
+    return Promise.resolve();
+  }
+}
+
+const tool = (name: string) => ({ name, inputSchema: { type: "object" } });
+
+describe("tool-filter", () => {
+  describe("globToRegExp", () => {
+    it("matches whole names with * and ?", () => {
+      assertEquals(globToRegExp("delete_*").test("delete_issue"), true);
+      assertEquals(globToRegExp("delete_*").test("undelete_issue"), false);
+      assertEquals(globToRegExp("get_?").test("get_a"), true);
+      assertEquals(globToRegExp("get_?").test("get_ab"), false);
+    });
+
+    it("takes other characters literally", () => {
+      assertEquals(globToRegExp("admin.users").test("admin.users"), true);
+      assertEquals(globToRegExp("admin.users").test("adminXusers"), false);
+      assertEquals(globToRegExp("a+(b)").test("a+(b)"), true);
+    });
+  });
+
+  describe("isToolAllowed", () => {
+    it("allows every tool without patterns", () => {
+      assertEquals(
+        isToolAllowed("delete_issue", { allow: [], deny: [] }),
+        true,
+      );
+    });
+
+    it("hides denied tools, even when they are allowed", () => {
+      const filter = { allow: ["*_issue"], deny: ["delete_*"] };
+
+      assertEquals(isToolAllowed("create_issue", filter), true);
+      assertEquals(isToolAllowed("delete_issue", filter), false);
+      assertEquals(isToolAllowed("list_projects", filter), false);
+    });
+  });
+
+  describe("createToolFilter", () => {
+    let client: MockTransport;
+    let server: MockTransport;
+
+    beforeEach(() => {
+      client = new MockTransport();
+      server = new MockTransport();
+      mcpProxy({
+        transportToClient: client,
+        transportToServer: server,
+        transforms: [createToolFilter({ allow: [], deny: ["delete_*"] })],
+      });
+    });
+
+    it("leaves hidden tools out of the tool list", () => {
+      client.onmessage?.({ jsonrpc: "2.0", id: 1, method: "tools/list" });
+      server.onmessage?.({
+        jsonrpc: "2.0",
+        id: 1,
+        result: {
+          tools: [tool("create_issue"), tool("delete_issue")],
+          nextCursor: "2",
+        },
+      });
+
+      assertEquals(server.messages.length, 1);
+      assertEquals(client.messages, [{
+        jsonrpc: "2.0",
+        id: 1,
+        result: { tools: [tool("create_issue")], nextCursor: "2" },
+      }]);
+    });
+
+    it("rejects calls to hidden tools without forwarding them", () => {
+      client.onmessage?.({
+        jsonrpc: "2.0",
+        id: 2,
+        method: "tools/call",
+        params: { name: "delete_issue", arguments: { id: "1" } },
+      });
+
+      assertEquals(server.messages, []);
+      assertEquals(client.messages, [{
+        jsonrpc: "2.0",
+        id: 2,
+        error: { code: -32602, message: "Tool delete_issue is not allowed" },
+      }]);
+    });
+
+    it("forwards calls to other tools and leaves their results alone", () => {
+      const call: JSONRPCMessage = {
+        jsonrpc: "2.0",
+        id: 3,
+        method: "tools/call",
+        params: { name: "create_issue", arguments: {} },
+      };
+      const response: JSONRPCMessage = {
+        jsonrpc: "2.0",
+        id: 3,
+        result: { content: [], tools: "not a list" },
+      };
+
+      client.onmessage?.(call);
+      server.onmessage?.(response);
+
+      assertEquals(server.messages, [call]);
+      assertEquals(client.messages, [response]);
+    });
+  });
+});
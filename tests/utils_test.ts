@@ -1,15 +1,21 @@
 import { assertEquals, assertMatch, assertRejects } from "std/assert/mod.ts";
 import {
   AVAILABLE_PORT_START,
+  connectToRemoteServer,
+  detectTransportType,
   findAvailablePort,
   getServerUrlHash,
   log,
   MCP_REMOTE_VERSION,
   parseCommandLineArgs,
+  resolveCallbackEndpoint,
+  setupOAuthCallbackServerWithLongPoll,
   setupSignalHandlers,
 } from "../src/lib/utils.ts";
 import { afterEach, beforeEach, describe, it } from "std/testing/bdd.ts";
-import { assertSpyCalls, type MethodSpy, spy } from "std/testing/mock.ts";
+import { assertSpyCalls, type MethodSpy, spy, stub } from "std/testing/mock.ts";
+import type { OAuthClientProvider } from "@modelcontextprotocol/sdk/client/auth.js";
+import { EventEmitter } from "node:events";
 import type net from "node:net";
 import type process from "node:process";
 
@@ -49,6 +55,14 @@ describe("utils", () => {
       // Different URLs should produce different hashes
       assertEquals(hash !== differentHash, true);
     });
+
+    it("appends named profiles to the hash", () => {
+      const serverUrl = "https://api.example.com";
+      const hash = getServerUrlHash(serverUrl);
+
+      assertEquals(getServerUrlHash(serverUrl, "work"), `${hash}@work`);
+      assertEquals(getServerUrlHash(serverUrl, "default"), hash);
+    });
   });
 
   describe("log", () => {
@@ -263,6 +277,153 @@ describe("utils", () => {
     });
   });
 
+  describe("detectTransportType", () => {
+    const url = new URL("https://example.com/mcp");
+    const authProvider = {
+      tokens: () => Promise.resolve(undefined),
+    } as unknown as OAuthClientProvider;
+    let fetchStub: ReturnType<typeof stub>;
+
+    afterEach(() => {
+      fetchStub.restore();
+    });
+
+    it("falls back to SSE when the server answers with 405", async () => {
+      // @ts-ignore - Required for testing
+      fetchStub = stub(
+        globalThis,
+        "fetch",
+        () =>
+          Promise.resolve(new Response("Method Not Allowed", { status: 405 })),
+      );
+
+      assertEquals(await detectTransportType(url, authProvider, {}), "sse");
+    });
+
+    it("falls back to SSE when the server sends a legacy endpoint event", async () => {
+      // @ts-ignore - Required for testing
+      fetchStub = stub(
+        globalThis,
+        "fetch",
+        () =>
+          Promise.resolve(
+            new Response("event: endpoint\ndata: /messages\n\n", {
+              headers: { "content-type": "text/event-stream" },
+            }),
+          ),
+      );
+
+      assertEquals(await detectTransportType(url, authProvider, {}), "sse");
+    });
+
+    it("uses Streamable HTTP when the server answers the ping", async () => {
+      // @ts-ignore - Required for testing
+      fetchStub = stub(
+        globalThis,
+        "fetch",
+        () =>
+          Promise.resolve(
+            new Response(
+              JSON.stringify({ jsonrpc: "2.0", id: 0, result: {} }),
+              {
+                headers: { "content-type": "application/json" },
+              },
+            ),
+          ),
+      );
+
+      assertEquals(await detectTransportType(url, authProvider, {}), "http");
+    });
+
+    it("uses Streamable HTTP when authorization is required", async () => {
+      // @ts-ignore - Required for testing
+      fetchStub = stub(
+        globalThis,
+        "fetch",
+        () => Promise.resolve(new Response("Unauthorized", { status: 401 })),
+      );
+
+      assertEquals(await detectTransportType(url, authProvider, {}), "http");
+    });
+  });
+
+  describe("connectToRemoteServer", () => {
+    it("leaves the only initialize request to the local client", async () => {
+      const authProvider = {
+        tokens: () =>
+          Promise.resolve({ access_token: "token", token_type: "Bearer" }),
+      } as unknown as OAuthClientProvider;
+      const methods: string[] = [];
+      // A server that requires a session for everything but initialize
+      const fetchStub = stub(
+        globalThis,
+        "fetch",
+        (_input: string | URL | Request, init?: RequestInit) => {
+          methods.push(JSON.parse(String(init?.body)).method);
+          return Promise.resolve(new Response("No session", { status: 400 }));
+        },
+      );
+      try {
+        const transport = await connectToRemoteServer(
+          "https://example.com/mcp",
+          authProvider,
+          {},
+          () => Promise.reject(new Error("Unexpected authorization")),
+          false,
+          "auto",
+        );
+        await transport.close();
+
+        assertEquals(methods.includes("initialize"), false);
+        assertEquals(methods.length > 0, true);
+      } finally {
+        fetchStub.restore();
+      }
+    });
+
+    it("plays back a recording without contacting the server", async () => {
+      const recording = [
+        {
+          direction: "client-to-server",
+          message: { jsonrpc: "2.0", id: 1, method: "tools/list" },
+        },
+        {
+          direction: "server-to-client",
+          message: { jsonrpc: "2.0", id: 1, result: { tools: [] } },
+        },
+      ].map((line) => JSON.stringify(line)).join("\n");
+      const readTextFileStub = stub(
+        Deno,
+        "readTextFile",
+        () => Promise.resolve(recording),
+      );
+      const fetchSpy = spy(globalThis, "fetch");
+      try {
+        const transport = await connectToRemoteServer(
+          "https://example.com/mcp",
+          undefined,
+          {},
+          () => Promise.reject(new Error("Unexpected authorization")),
+          false,
+          "auto",
+          "traffic.jsonl",
+        );
+        const received: unknown[] = [];
+        transport.onmessage = (message) => received.push(message);
+        await transport.send({ jsonrpc: "2.0", id: 1, method: "tools/list" });
+        await transport.close();
+
+        assertEquals(received, [
+          { jsonrpc: "2.0", id: 1, result: { tools: [] } },
+        ]);
+        assertSpyCalls(fetchSpy, 0);
+      } finally {
+        fetchSpy.restore();
+        readTextFileStub.restore();
+      }
+    });
+  });
+
   describe("parseCommandLineArgs", () => {
     // Mock the minimist function to avoid actual command line parsing
     let originalProcess: typeof process;
@@ -322,6 +483,237 @@ describe("utils", () => {
       assertEquals(result.callbackPort, defaultPort);
     });
 
+    it("defaults to automatic transport negotiation", async () => {
+      const args = ["https://example.com", "8080"];
+      const result = await parseCommandLineArgs(args, 3000, "Usage");
+
+      assertEquals(result.transportStrategy, "auto");
+    });
+
+    it("parses the --transport flag", async () => {
+      const args = ["https://example.com", "8080", "--transport", "http"];
+      const result = await parseCommandLineArgs(args, 3000, "Usage");
+
+      assertEquals(result.serverUrl, "https://example.com");
+      assertEquals(result.callbackPort, 8080);
+      assertEquals(result.transportStrategy, "http");
+    });
+
+    it("rejects unknown transports", async () => {
+      const args = ["https://example.com", "--transport", "websocket"];
+
+      await assertRejects(
+        async () => {
+          await parseCommandLineArgs(args, 3000, "Usage");
+        },
+        Error,
+        "Process exit called",
+      );
+    });
+
+    it("parses every header of the config file", async () => {
+      const readTextFileStub = stub(
+        Deno,
+        "readTextFile",
+        (path: string | URL) =>
+          path === "/project/mcp-remote.json"
+            ? Promise.resolve(JSON.stringify({
+              servers: {
+                linear: {
+                  url: "https://example.com/sse",
+                  callbackPort: 8080,
+                  headers: { "X-One": "1", "X-Two": "2", "X-Three": "3" },
+                },
+              },
+            }))
+            : Promise.reject(new Deno.errors.NotFound(String(path))),
+      );
+      try {
+        const result = await parseCommandLineArgs(
+          ["--config", "/project/mcp-remote.json", "--header", "X-Zero:0"],
+          3000,
+          "Usage",
+        );
+
+        assertEquals(result.serverUrl, "https://example.com/sse");
+        assertEquals(result.headers, {
+          "X-Zero": "0",
+          "X-One": "1",
+          "X-Two": "2",
+          "X-Three": "3",
+        });
+      } finally {
+        readTextFileStub.restore();
+      }
+    });
+
+    it("parses the --auth-flow flag", async () => {
+      const args = ["https://example.com", "8080", "--auth-flow", "device"];
+      const result = await parseCommandLineArgs(args, 3000, "Usage");
+
+      assertEquals(result.callbackPort, 8080);
+      assertEquals(result.authFlow, "device");
+    });
+
+    it("rejects unknown auth flows", async () => {
+      const args = ["https://example.com", "--auth-flow", "implicit"];
+
+      await assertRejects(
+        async () => {
+          await parseCommandLineArgs(args, 3000, "Usage");
+        },
+        Error,
+        "Process exit called",
+      );
+    });
+
+    it("parses the --auth-code-input flag", async () => {
+      const tty = await parseCommandLineArgs(
+        ["https://example.com", "8080", "--auth-code-input", "tty"],
+        3000,
+        "Usage",
+      );
+      const file = await parseCommandLineArgs(
+        ["https://example.com", "8080", "--auth-code-input", "/tmp/code"],
+        3000,
+        "Usage",
+      );
+
+      assertEquals(tty.manualAuthCodeSource, { type: "tty" });
+      assertEquals(file.manualAuthCodeSource, {
+        type: "file",
+        path: "/tmp/code",
+      });
+    });
+
+    it("rejects --auth-code-input with the device flow", async () => {
+      const args = [
+        "https://example.com",
+        "--auth-flow",
+        "device",
+        "--auth-code-input",
+        "tty",
+      ];
+
+      await assertRejects(
+        async () => {
+          await parseCommandLineArgs(args, 3000, "Usage");
+        },
+        Error,
+        "Process exit called",
+      );
+    });
+
+    it("parses client credentials and expands environment variables", async () => {
+      Deno.env.set("TEST_MCP_CLIENT_SECRET", "s3cret");
+      try {
+        const args = [
+          "https://example.com",
+          "8080",
+          "--client-id",
+          "my-client",
+          "--client-secret",
+          "${TEST_MCP_CLIENT_SECRET}",
+        ];
+        const result = await parseCommandLineArgs(args, 3000, "Usage");
+
+        assertEquals(result.serverUrl, "https://example.com");
+        assertEquals(result.callbackPort, 8080);
+        assertEquals(result.clientCredentials, {
+          clientId: "my-client",
+          clientSecret: "s3cret",
+        });
+      } finally {
+        Deno.env.delete("TEST_MCP_CLIENT_SECRET");
+      }
+    });
+
+    it("parses the scope and resource to request", async () => {
+      const args = [
+        "https://example.com",
+        "8080",
+        "--scope",
+        " read  write ",
+        "--resource",
+        "https://example.com/mcp",
+      ];
+      const result = await parseCommandLineArgs(args, 3000, "Usage");
+
+      assertEquals(result.callbackPort, 8080);
+      assertEquals(result.requestParams, {
+        scope: "read write",
+        resource: "https://example.com/mcp",
+      });
+    });
+
+    it("rejects resource indicators with a fragment", async () => {
+      const args = [
+        "https://example.com",
+        "--resource",
+        "https://example.com/mcp#fragment",
+      ];
+
+      await assertRejects(
+        async () => {
+          await parseCommandLineArgs(args, 3000, "Usage");
+        },
+        Error,
+        "Process exit called",
+      );
+    });
+
+    it("parses a pre-registered client and listens on its redirect port", async () => {
+      const args = [
+        "https://example.com",
+        "--static-oauth-client-info",
+        JSON.stringify({
+          client_id: "static-client",
+          redirect_uri: "http://localhost:8765/callback",
+        }),
+      ];
+      const result = await parseCommandLineArgs(args, 3000, "Usage");
+
+      assertEquals(result.serverUrl, "https://example.com");
+      assertEquals(result.callbackPort, 8765);
+      assertEquals(result.staticClientInfo?.client_id, "static-client");
+      assertEquals(
+        result.staticClientInfo?.redirect_uri,
+        "http://localhost:8765/callback",
+      );
+    });
+
+    it("rejects unsupported token endpoint auth methods", async () => {
+      const args = [
+        "https://example.com",
+        "--static-oauth-client-info",
+        JSON.stringify({
+          client_id: "static-client",
+          client_secret: "secret",
+          token_endpoint_auth_method: "private_key_jwt",
+        }),
+      ];
+
+      await assertRejects(
+        async () => {
+          await parseCommandLineArgs(args, 3000, "Usage");
+        },
+        Error,
+        "Process exit called",
+      );
+    });
+
+    it("requires a client secret along with the client ID", async () => {
+      const args = ["https://example.com", "--client-id", "my-client"];
+
+      await assertRejects(
+        async () => {
+          await parseCommandLineArgs(args, 3000, "Usage");
+        },
+        Error,
+        "Process exit called",
+      );
+    });
+
     it("enforces required server URL", async () => {
       const args: string[] = [];
       const defaultPort = 3000;
@@ -336,6 +728,205 @@ describe("utils", () => {
       );
     });
 
+    it("parses the --profile flag", async () => {
+      const args = ["https://example.com", "8080", "--profile", "work"];
+      const result = await parseCommandLineArgs(args, 3000, "Usage");
+
+      assertEquals(result.callbackPort, 8080);
+      assertEquals(result.profile, "work");
+    });
+
+    it("rejects profile names that can't be part of a file name", async () => {
+      const args = ["https://example.com", "--profile", "../work"];
+
+      await assertRejects(
+        async () => {
+          await parseCommandLineArgs(args, 3000, "Usage");
+        },
+        Error,
+        "Process exit called",
+      );
+    });
+
+    it("parses the tools to expose", async () => {
+      const args = [
+        "https://example.com",
+        "8080",
+        "--deny-tool",
+        "delete_*",
+        "--allow-tool",
+        "*_issue",
+        "--deny-tool",
+        "admin_*",
+      ];
+      const result = await parseCommandLineArgs(args, 3000, "Usage");
+
+      assertEquals(result.toolFilter, {
+        allow: ["*_issue"],
+        deny: ["delete_*", "admin_*"],
+      });
+      assertEquals(
+        (await parseCommandLineArgs(
+          ["https://example.com", "8080"],
+          3000,
+          "Usage",
+        ))
+          .toolFilter,
+        undefined,
+      );
+    });
+
+    it("parses the namespace and new names", async () => {
+      const args = [
+        "https://example.com",
+        "8080",
+        "--rename",
+        "search=find_issues",
+        "--namespace",
+        "linear",
+        "--rename",
+        "triage=triage_issue",
+      ];
+      const result = await parseCommandLineArgs(args, 3000, "Usage");
+
+      assertEquals(result.callbackPort, 8080);
+      assertEquals(result.nameRewrite, {
+        namespace: "linear",
+        rename: { search: "find_issues", triage: "triage_issue" },
+      });
+    });
+
+    it("rejects namespaces that don't fit into tool names and URI schemes", async () => {
+      for (
+        const args of [
+          ["https://example.com", "--namespace", "my_server"],
+          ["https://example.com", "--rename", "search"],
+          ["https://example.com", "--rename", "a=x", "--rename", "b=x"],
+        ]
+      ) {
+        await assertRejects(
+          () => parseCommandLineArgs(args, 3000, "Usage"),
+          Error,
+          "Process exit called",
+        );
+      }
+    });
+
+    it("parses the file to record the traffic to", async () => {
+      const result = await parseCommandLineArgs(
+        ["https://example.com", "8080", "--record", "traffic.jsonl"],
+        3000,
+        "Usage",
+      );
+
+      assertEquals(result.callbackPort, 8080);
+      assertEquals(result.recordPath, "traffic.jsonl");
+      await assertRejects(
+        () =>
+          parseCommandLineArgs(
+            ["https://example.com", "--record"],
+            3000,
+            "Usage",
+          ),
+        Error,
+        "Process exit called",
+      );
+    });
+
+    it("parses the recording to play back", async () => {
+      const result = await parseCommandLineArgs(
+        ["https://example.com", "--replay", "traffic.jsonl"],
+        3000,
+        "Usage",
+      );
+
+      assertEquals(result.serverUrl, "https://example.com");
+      assertEquals(result.replayPath, "traffic.jsonl");
+      // No callback server is started, so no port is looked for
+      assertEquals(result.callbackPort, 3000);
+
+      // The recording stands in for the server, whose URL can be left out
+      const withoutUrl = await parseCommandLineArgs(
+        ["--replay", "/recordings/traffic.jsonl"],
+        3000,
+        "Usage",
+      );
+      assertEquals(withoutUrl.serverUrl, "file:///recordings/traffic.jsonl");
+      assertEquals(withoutUrl.replayPath, "/recordings/traffic.jsonl");
+
+      await assertRejects(
+        () =>
+          parseCommandLineArgs(
+            [
+              "https://example.com",
+              "--record",
+              "new.jsonl",
+              "--replay",
+              "traffic.jsonl",
+            ],
+            3000,
+            "Usage",
+          ),
+        Error,
+        "Process exit called",
+      );
+    });
+
+    it("parses the callback endpoint flags", async () => {
+      const args = [
+        "https://example.com",
+        "8080",
+        "--callback-host",
+        "0.0.0.0",
+        "--redirect-host",
+        "[::1]",
+        "--callback-path",
+        "/auth/callback",
+      ];
+      const result = await parseCommandLineArgs(args, 3000, "Usage");
+
+      assertEquals(result.callbackPort, 8080);
+      assertEquals(result.callbackEndpoint, {
+        host: "0.0.0.0",
+        redirectHost: "::1",
+        path: "/auth/callback",
+      });
+    });
+
+    it("rejects callback paths that could clash with the coordination endpoint", async () => {
+      for (const path of ["oauth/callback", "/wait-for-auth"]) {
+        await assertRejects(
+          async () => {
+            await parseCommandLineArgs(
+              ["https://example.com", "8080", "--callback-path", path],
+              3000,
+              "Usage",
+            );
+          },
+          Error,
+          "Process exit called",
+        );
+      }
+    });
+
+    it("rejects a redirect host combined with a static redirect URI", async () => {
+      const args = [
+        "https://example.com",
+        "--static-oauth-client-info",
+        '{"client_id":"my-client","redirect_uri":"http://localhost:8765/cb"}',
+        "--redirect-host",
+        "devbox.example.com",
+      ];
+
+      await assertRejects(
+        async () => {
+          await parseCommandLineArgs(args, 3000, "Usage");
+        },
+        Error,
+        "Process exit called",
+      );
+    });
+
     it("handles format errors in server URL", async () => {
       const args = ["--server", "not-a-url"];
       const defaultPort = 3000;
@@ -363,6 +954,92 @@ describe("utils", () => {
     });
   });
 
+  describe("resolveCallbackEndpoint", () => {
+    it("listens and redirects on the loopback address by default", () => {
+      assertEquals(resolveCallbackEndpoint(), {
+        host: "127.0.0.1",
+        redirectHost: "127.0.0.1",
+        path: "/oauth/callback",
+      });
+    });
+
+    it("redirects to the loopback address when listening on all interfaces", () => {
+      assertEquals(
+        resolveCallbackEndpoint({ host: "0.0.0.0" }).redirectHost,
+        "127.0.0.1",
+      );
+      assertEquals(resolveCallbackEndpoint({ host: "::" }).redirectHost, "::1");
+      assertEquals(
+        resolveCallbackEndpoint({ host: "0.0.0.0", redirectHost: "localhost" })
+          .redirectHost,
+        "localhost",
+      );
+    });
+
+    it("takes the path from a static redirect URI", () => {
+      assertEquals(
+        resolveCallbackEndpoint({}, "http://localhost:8765/cb").path,
+        "/cb",
+      );
+    });
+  });
+
+  describe("setupOAuthCallbackServerWithLongPoll", () => {
+    const port = 9877;
+    let callbackServer: ReturnType<typeof setupOAuthCallbackServerWithLongPoll>;
+
+    beforeEach(() => {
+      callbackServer = setupOAuthCallbackServerWithLongPoll({
+        port,
+        path: "/oauth/callback",
+        events: new EventEmitter(),
+        expectedState: () => Promise.resolve("expected-state"),
+      });
+    });
+
+    afterEach(async () => {
+      await (callbackServer.server.close as unknown as () => Promise<void>)();
+    });
+
+    const callback = async (query: string) => {
+      const response = await fetch(
+        `http://127.0.0.1:${port}/oauth/callback?${query}`,
+      );
+      await response.body?.cancel();
+      return response.status;
+    };
+
+    it("accepts a code with the expected state", async () => {
+      assertEquals(await callback("code=test-code&state=expected-state"), 200);
+      assertEquals(await callbackServer.waitForAuthCode(), "test-code");
+    });
+
+    it("rejects callbacks with a missing, wrong or reused state", async () => {
+      assertEquals(await callback("code=test-code"), 400);
+      assertEquals(await callback("code=test-code&state=other-state"), 400);
+      assertEquals(await callback("code=test-code&state=expected-state"), 200);
+      assertEquals(await callback("code=other-code&state=expected-state"), 400);
+
+      assertEquals(await callbackServer.waitForAuthCode(), "test-code");
+    });
+
+    it("reports an authorization error to waiting callers", async () => {
+      const rejected = assertRejects(
+        () => callbackServer.waitForAuthCode(),
+        Error,
+        "Authorization failed: access_denied (User denied)",
+      );
+
+      assertEquals(
+        await callback(
+          "error=access_denied&error_description=User+denied&state=expected-state",
+        ),
+        400,
+      );
+      await rejected;
+    });
+  });
+
   describe("setupSignalHandlers", () => {
     it("sets up handlers for SIGINT and SIGTERM", () => {
       // Create a spy for Deno.addSignalListener